@@ -9,6 +9,12 @@ import { SharesModule } from './shares/shares.module';
 import { SearchModule } from './search/search.module';
 import { StorageModule } from './storage/storage.module';
 import { MetadataModule } from './metadata/metadata.module';
+import { CollaborationModule } from './collaboration/collaboration.module';
+import { GraphModule } from './graph/graph.module';
+import { TemplatesModule } from './templates/templates.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { RemindersModule } from './reminders/reminders.module';
+import { JobsModule } from './jobs/jobs.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { RedisModule } from './redis/redis.module';
 
@@ -20,6 +26,7 @@ import { RedisModule } from './redis/redis.module';
         }),
         PrismaModule,
         RedisModule,
+        JobsModule,
         AuthModule,
         UsersModule,
         NotesModule,
@@ -29,6 +36,11 @@ import { RedisModule } from './redis/redis.module';
         SearchModule,
         StorageModule,
         MetadataModule,
+        CollaborationModule,
+        GraphModule,
+        TemplatesModule,
+        NotificationsModule,
+        RemindersModule,
     ],
 })
 export class AppModule { }
@@ -0,0 +1,31 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@evernote-clone/database';
+
+/**
+ * Restricts a route to the users listed in ADMIN_EMAILS (comma-separated).
+ * Must run after JwtAuthGuard, which puts the user on the request.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+    private readonly adminEmails: Set<string>;
+
+    constructor(configService: ConfigService) {
+        this.adminEmails = new Set(
+            (configService.get<string>('ADMIN_EMAILS') || '')
+                .split(',')
+                .map((email) => email.trim().toLowerCase())
+                .filter(Boolean),
+        );
+    }
+
+    canActivate(context: ExecutionContext): boolean {
+        const user = context.switchToHttp().getRequest().user as User | undefined;
+
+        if (!user || !this.adminEmails.has(user.email.toLowerCase())) {
+            throw new ForbiddenException('Admin access required');
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,76 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { NotesService } from '../notes/notes.service';
+import { tiptapToPlainText } from '../notes/tiptap.utils';
+import { loadYDoc, noteIdFromDocName, yDocToTiptap } from './yjs-content';
+
+/**
+ * Writes the live collaborative state persisted by the yjs-server back
+ * into Note.content / plainText, so search, export and version history
+ * reflect collaborative edits.
+ */
+@Injectable()
+export class CollaborationSyncService implements OnModuleInit {
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly notesService: NotesService,
+        private readonly jobs: JobsService,
+    ) { }
+
+    onModuleInit() {
+        const interval = parseInt(this.configService.get<string>('COLLAB_SYNC_INTERVAL_MS') || '30000', 10);
+        this.jobs.repeat('collaboration', 'sync', interval, () => this.syncPending());
+    }
+
+    async syncPending(): Promise<void> {
+        const documents = await this.prisma.yjsDocument.findMany({
+            where: {
+                OR: [
+                    { syncedAt: null },
+                    { updatedAt: { gt: this.prisma.yjsDocument.fields.syncedAt } },
+                ],
+            },
+            select: { name: true },
+            take: 50,
+        });
+
+        for (const { name } of documents) {
+            try {
+                await this.syncDocument(name);
+            } catch (error) {
+                console.warn(`Failed to sync collaborative document ${name}:`, error.message);
+            }
+        }
+    }
+
+    async syncDocument(name: string): Promise<void> {
+        const record = await this.prisma.yjsDocument.findUnique({
+            where: { name },
+            include: { updates: { orderBy: { id: 'asc' } } },
+        });
+
+        if (!record) return;
+
+        const doc = loadYDoc(record.snapshot, record.updates.map((row) => row.update));
+        const content = yDocToTiptap(doc);
+        doc.destroy();
+
+        // An empty document has not been seeded by a client yet; keep the stored content
+        if (content) {
+            await this.notesService.applyCollaborativeContent(
+                noteIdFromDocName(name),
+                content,
+                tiptapToPlainText(content),
+            );
+        }
+
+        // Record the state we synced, so updates stored meanwhile are picked up next run
+        await this.prisma.yjsDocument.update({
+            where: { name },
+            data: { syncedAt: record.updatedAt },
+        });
+    }
+}
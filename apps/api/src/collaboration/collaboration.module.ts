@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CollaborationSyncService } from './collaboration-sync.service';
+import { NotesModule } from '../notes/notes.module';
+
+@Module({
+    imports: [NotesModule],
+    providers: [CollaborationSyncService],
+    exports: [CollaborationSyncService],
+})
+export class CollaborationModule { }
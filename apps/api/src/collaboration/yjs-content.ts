@@ -0,0 +1,62 @@
+import * as Y from 'yjs';
+import { TiptapNode } from '../notes/tiptap.utils';
+
+// Field used by the TipTap Collaboration extension
+const FRAGMENT_NAME = 'default';
+
+// y-prosemirror suffixes overlapping marks of the same type with a hash
+const hashedMarkNameRegex = /(.*)(--[a-zA-Z0-9+/=]{8})$/;
+
+// Same structure y-prosemirror produces (yXmlFragmentToProsemirrorJSON)
+function serialize(item: Y.XmlElement | Y.XmlText): TiptapNode[] {
+    if (item instanceof Y.XmlText) {
+        return item.toDelta().map((delta: { insert: string; attributes?: Record<string, any> }) => {
+            const text: TiptapNode = { type: 'text', text: delta.insert };
+            if (delta.attributes) {
+                text.marks = Object.entries(delta.attributes).map(([name, attrs]) => ({
+                    type: hashedMarkNameRegex.exec(name)?.[1] ?? name,
+                    ...(attrs && Object.keys(attrs).length ? { attrs } : {}),
+                }));
+            }
+            return text;
+        });
+    }
+
+    const node: TiptapNode = { type: item.nodeName };
+
+    const attrs = item.getAttributes();
+    if (Object.keys(attrs).length) {
+        node.attrs = attrs;
+    }
+
+    const children = item.toArray() as (Y.XmlElement | Y.XmlText)[];
+    if (children.length) {
+        node.content = children.flatMap(serialize);
+    }
+
+    return [node];
+}
+
+// Rebuild a document from its stored snapshot and incremental updates
+export function loadYDoc(snapshot: Uint8Array | null, updates: Uint8Array[]): Y.Doc {
+    const doc = new Y.Doc();
+    if (snapshot) {
+        Y.applyUpdate(doc, snapshot);
+    }
+    updates.forEach((update) => Y.applyUpdate(doc, update));
+    return doc;
+}
+
+// Convert the collaborative XML fragment to TipTap JSON (null if it was never initialized)
+export function yDocToTiptap(doc: Y.Doc): TiptapNode | null {
+    const fragment = doc.getXmlFragment(FRAGMENT_NAME);
+    if (fragment.length === 0) return null;
+
+    const children = fragment.toArray() as (Y.XmlElement | Y.XmlText)[];
+    return { type: 'doc', content: children.flatMap(serialize) };
+}
+
+// Documents are named after the note they hold, optionally prefixed with "note-"
+export function noteIdFromDocName(docName: string): string {
+    return docName.replace(/^note-/, '');
+}
@@ -0,0 +1,102 @@
+/**
+ * Force-directed layout (Fruchterman-Reingold) so clients can draw the
+ * graph without running a simulation. Deterministic: the same graph gets
+ * the same picture on every request.
+ */
+
+export const LAYOUT_SIZE = 1000;
+
+export interface LayoutEdge {
+    source: number;
+    target: number;
+    weight: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Fewer iterations for big graphs; repulsion is quadratic in the node count
+const iterationsFor = (count: number) => (count > 500 ? 40 : count > 200 ? 80 : 150);
+
+export function forceLayout(count: number, edges: LayoutEdge[]): Point[] {
+    if (count === 0) return [];
+
+    const area = LAYOUT_SIZE * LAYOUT_SIZE;
+    const k = Math.sqrt(area / count); // ideal edge length
+    const iterations = iterationsFor(count);
+
+    // Start on a spiral, which spreads nodes evenly without randomness
+    const positions: Point[] = Array.from({ length: count }, (_, i) => {
+        const angle = i * 2.399963; // golden angle
+        const radius = (LAYOUT_SIZE / 2) * Math.sqrt((i + 0.5) / count);
+        return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    });
+
+    const dx = new Float64Array(count);
+    const dy = new Float64Array(count);
+    let temperature = LAYOUT_SIZE / 10;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        dx.fill(0);
+        dy.fill(0);
+
+        // Every pair repels
+        for (let i = 0; i < count; i++) {
+            for (let j = i + 1; j < count; j++) {
+                const deltaX = positions[i]!.x - positions[j]!.x;
+                const deltaY = positions[i]!.y - positions[j]!.y;
+                const distance = Math.max(Math.hypot(deltaX, deltaY), 0.01);
+                const force = (k * k) / distance;
+
+                dx[i]! += (deltaX / distance) * force;
+                dy[i]! += (deltaY / distance) * force;
+                dx[j]! -= (deltaX / distance) * force;
+                dy[j]! -= (deltaY / distance) * force;
+            }
+        }
+
+        // Connected nodes attract, more so through heavier edges
+        for (const { source, target, weight } of edges) {
+            const deltaX = positions[source]!.x - positions[target]!.x;
+            const deltaY = positions[source]!.y - positions[target]!.y;
+            const distance = Math.max(Math.hypot(deltaX, deltaY), 0.01);
+            const force = ((distance * distance) / k) * weight;
+
+            dx[source]! -= (deltaX / distance) * force;
+            dy[source]! -= (deltaY / distance) * force;
+            dx[target]! += (deltaX / distance) * force;
+            dy[target]! += (deltaY / distance) * force;
+        }
+
+        // Move at most `temperature`, plus a little gravity so unconnected notes don't drift off
+        for (let i = 0; i < count; i++) {
+            const displacement = Math.max(Math.hypot(dx[i]!, dy[i]!), 0.01);
+            const step = Math.min(displacement, temperature);
+            const point = positions[i]!;
+
+            point.x += (dx[i]! / displacement) * step - point.x * 0.01;
+            point.y += (dy[i]! / displacement) * step - point.y * 0.01;
+        }
+
+        temperature *= 0.95;
+    }
+
+    return normalize(positions);
+}
+
+// Scale into [0, LAYOUT_SIZE] on both axes, keeping the aspect ratio
+function normalize(positions: Point[]): Point[] {
+    const xs = positions.map((p) => p.x);
+    const ys = positions.map((p) => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+    const scale = LAYOUT_SIZE / span;
+
+    return positions.map((p) => ({
+        x: Math.round((p.x - minX) * scale * 10) / 10,
+        y: Math.round((p.y - minY) * scale * 10) / 10,
+    }));
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators';
+import { GraphService } from './graph.service';
+import { User } from '@evernote-clone/database';
+
+@ApiTags('graph')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('graph')
+export class GraphController {
+    constructor(private readonly graphService: GraphService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get the graph of notes linked to each other or sharing tags' })
+    @ApiQuery({ name: 'notebookId', required: false })
+    @ApiQuery({ name: 'tagId', required: false })
+    async getGraph(
+        @CurrentUser() user: User,
+        @Query('notebookId') notebookId?: string,
+        @Query('tagId') tagId?: string,
+    ) {
+        return this.graphService.getGraph(user.id, { notebookId, tagId });
+    }
+}
@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { forceLayout, LayoutEdge } from './graph-layout';
+
+export interface GraphNode {
+    id: string;
+    title: string;
+    notebookId: string | null;
+    tagIds: string[];
+    degree: number;
+    x: number;
+    y: number;
+}
+
+export interface GraphEdge {
+    source: string;
+    target: string;
+    type: 'link' | 'tag';
+    // Shared tag count for tag edges, 1 for links
+    weight: number;
+}
+
+export interface Graph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+    // More notes matched than GRAPH_MAX_NODES; only the most recently edited are shown
+    truncated: boolean;
+}
+
+/**
+ * Knowledge graph of the user's notes: [[links]] and shared tags as edges,
+ * laid out on the server so the client only has to draw it.
+ */
+@Injectable()
+export class GraphService {
+    private readonly maxNodes: number;
+    private readonly maxTagGroup: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+    ) {
+        this.maxNodes = parseInt(configService.get<string>('GRAPH_MAX_NODES') || '500', 10);
+        // Tags on more notes than this connect too much to say anything, and would add edges quadratically
+        this.maxTagGroup = parseInt(configService.get<string>('GRAPH_MAX_TAG_GROUP') || '30', 10);
+    }
+
+    async getGraph(userId: string, options?: { notebookId?: string; tagId?: string }): Promise<Graph> {
+        const notes = await this.prisma.note.findMany({
+            where: {
+                OR: [
+                    { authorId: userId },
+                    { shares: { some: { userId } } },
+                ],
+                isTrashed: false,
+                ...(options?.notebookId && { notebookId: options.notebookId }),
+                ...(options?.tagId && { tags: { some: { tagId: options.tagId } } }),
+            },
+            select: {
+                id: true,
+                title: true,
+                notebookId: true,
+                tags: { select: { tagId: true } },
+            },
+            orderBy: { updatedAt: 'desc' },
+            take: this.maxNodes + 1,
+        });
+
+        const truncated = notes.length > this.maxNodes;
+        if (truncated) notes.pop();
+
+        const index = new Map(notes.map((note, i) => [note.id, i]));
+        const edges = new Map<string, GraphEdge>();
+
+        // Links, between notes both in the graph
+        const links = await this.prisma.noteLink.findMany({
+            where: { sourceId: { in: [...index.keys()] }, targetId: { in: [...index.keys()] } },
+            select: { sourceId: true, targetId: true },
+        });
+
+        for (const { sourceId, targetId } of links) {
+            edges.set(`${sourceId}>${targetId}`, { source: sourceId, target: targetId, type: 'link', weight: 1 });
+        }
+
+        // Shared tags, one edge per pair of notes weighted by how many tags they share
+        const notesByTag = new Map<string, string[]>();
+        for (const note of notes) {
+            for (const { tagId } of note.tags) {
+                notesByTag.set(tagId, [...(notesByTag.get(tagId) || []), note.id]);
+            }
+        }
+
+        for (const noteIds of notesByTag.values()) {
+            if (noteIds.length < 2 || noteIds.length > this.maxTagGroup) continue;
+
+            for (let i = 0; i < noteIds.length; i++) {
+                for (let j = i + 1; j < noteIds.length; j++) {
+                    const [source, target] = [noteIds[i]!, noteIds[j]!].sort();
+                    const key = `${source}~${target}`;
+                    const edge = edges.get(key);
+
+                    if (edge) edge.weight++;
+                    else edges.set(key, { source: source!, target: target!, type: 'tag', weight: 1 });
+                }
+            }
+        }
+
+        const edgeList = [...edges.values()];
+        const layoutEdges: LayoutEdge[] = edgeList.map((edge) => ({
+            source: index.get(edge.source)!,
+            target: index.get(edge.target)!,
+            // Explicit links pull harder than shared tags
+            weight: edge.type === 'link' ? 1 : Math.min(edge.weight, 3) * 0.3,
+        }));
+
+        const degree = new Array<number>(notes.length).fill(0);
+        for (const { source, target } of layoutEdges) {
+            degree[source]!++;
+            degree[target]!++;
+        }
+
+        const positions = forceLayout(notes.length, layoutEdges);
+
+        return {
+            nodes: notes.map((note, i) => ({
+                id: note.id,
+                title: note.title,
+                notebookId: note.notebookId,
+                tagIds: note.tags.map((t) => t.tagId),
+                degree: degree[i]!,
+                x: positions[i]!.x,
+                y: positions[i]!.y,
+            })),
+            edges: edgeList,
+            truncated,
+        };
+    }
+}
@@ -0,0 +1,40 @@
+import { Controller, Delete, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { JobsService } from './jobs.service';
+
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, AdminGuard)
+@Controller('admin/jobs')
+export class JobsAdminController {
+    constructor(private readonly jobsService: JobsService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Depth and counters of every job queue' })
+    getStats() {
+        return this.jobsService.getStats();
+    }
+
+    @Get(':queue/dead')
+    @ApiOperation({ summary: 'Dead-lettered jobs of a queue, most recent first' })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    getDeadJobs(@Param('queue') queue: string, @Query('limit') limit?: string) {
+        return this.jobsService.getDeadJobs(queue, limit ? Math.min(parseInt(limit, 10) || 50, 500) : undefined);
+    }
+
+    @Post(':queue/dead/retry')
+    @ApiOperation({ summary: 'Requeue dead-lettered jobs' })
+    @ApiQuery({ name: 'id', required: false, description: 'Only this job; all of them when omitted' })
+    async retryDeadJobs(@Param('queue') queue: string, @Query('id') id?: string) {
+        return { retried: await this.jobsService.retryDeadJobs(queue, id) };
+    }
+
+    @Delete(':queue/dead')
+    @ApiOperation({ summary: 'Discard the dead-lettered jobs of a queue' })
+    async clearDeadJobs(@Param('queue') queue: string) {
+        await this.jobsService.clearDeadJobs(queue);
+        return { success: true };
+    }
+}
@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { JobsAdminController } from './jobs-admin.controller';
+
+@Global()
+@Module({
+    providers: [JobsService],
+    controllers: [JobsAdminController],
+    exports: [JobsService],
+})
+export class JobsModule { }
@@ -0,0 +1,155 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { Job, JobsService, backoffDelay } from './jobs.service';
+
+const NOW = 1_800_000_000_000;
+
+describe('JobsService', () => {
+    let redis: Redis;
+    let jobs: JobsService;
+
+    const createService = () => new JobsService(new ConfigService({}), redis);
+    // One pass over a queue, as each poll does
+    const drain = (service: JobsService, queue: string) => service['drain'](queue);
+
+    beforeEach(async () => {
+        redis = new RedisMock() as unknown as Redis;
+        await redis.flushall();
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+        jobs = createService();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('claims a job, runs it and removes it once done', async () => {
+        const handler = jest.fn().mockResolvedValue(undefined);
+        jobs.process('mail', 'send', handler);
+
+        const id = await jobs.enqueue('mail', 'send', { to: 'ana@example.com' });
+        await drain(jobs, 'mail');
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][0]).toMatchObject({ id, data: { to: 'ana@example.com' }, attempts: 0 });
+        expect(await redis.hlen('jobs:mail:jobs')).toBe(0);
+        expect(await redis.llen('jobs:mail:waiting')).toBe(0);
+        expect(await redis.zcard('jobs:mail:active')).toBe(0);
+        expect(await redis.hget('jobs:mail:stats', 'completed')).toBe('1');
+    });
+
+    it('does not add a job whose id is still queued', async () => {
+        expect(await jobs.enqueue('mail', 'send', {}, { jobId: 'digest' })).toBe('digest');
+        expect(await jobs.enqueue('mail', 'send', {}, { jobId: 'digest' })).toBeNull();
+        expect(await redis.llen('jobs:mail:waiting')).toBe(1);
+    });
+
+    it('keeps delayed jobs until they are due', async () => {
+        const handler = jest.fn().mockResolvedValue(undefined);
+        jobs.process('mail', 'send', handler);
+
+        await jobs.enqueue('mail', 'send', {}, { delayMs: 1000 });
+        await drain(jobs, 'mail');
+        expect(handler).not.toHaveBeenCalled();
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+        await drain(jobs, 'mail');
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a failed job after its backoff', async () => {
+        const handler = jest.fn().mockRejectedValueOnce(new Error('SMTP down')).mockResolvedValue(undefined);
+        jobs.process('mail', 'send', handler);
+        jest.spyOn(console, 'warn').mockImplementation();
+
+        const id = (await jobs.enqueue('mail', 'send', {}, { backoffMs: 2000 }))!;
+        await drain(jobs, 'mail');
+
+        const record: Job = JSON.parse((await redis.hget('jobs:mail:jobs', id))!);
+        expect(record).toMatchObject({ attempts: 1, lastError: 'SMTP down' });
+        expect(await redis.zscore('jobs:mail:delayed', id)).toBe(String(NOW + 2000));
+        expect(await redis.zcard('jobs:mail:active')).toBe(0);
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 1999);
+        await drain(jobs, 'mail');
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 2000);
+        await drain(jobs, 'mail');
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(handler.mock.calls[1][0].attempts).toBe(1);
+        expect(await redis.hlen('jobs:mail:jobs')).toBe(0);
+    });
+
+    it('doubles the backoff on each retry, up to an hour', () => {
+        expect(backoffDelay({ attempts: 1, backoffMs: 1000 })).toBe(1000);
+        expect(backoffDelay({ attempts: 3, backoffMs: 1000 })).toBe(4000);
+        expect(backoffDelay({ attempts: 20, backoffMs: 1000 })).toBe(60 * 60 * 1000);
+    });
+
+    it('moves a job to the dead-letter list once out of attempts, and retries it on request', async () => {
+        const handler = jest.fn().mockRejectedValue(new Error('bounced'));
+        jobs.process('mail', 'send', handler);
+        jest.spyOn(console, 'warn').mockImplementation();
+
+        const id = (await jobs.enqueue('mail', 'send', { to: 'x' }, { attempts: 2, backoffMs: 1000 }))!;
+        await drain(jobs, 'mail');
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+        await drain(jobs, 'mail');
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(await redis.hlen('jobs:mail:jobs')).toBe(0);
+        expect(await redis.zcard('jobs:mail:delayed')).toBe(0);
+        expect(await redis.hget('jobs:mail:stats', 'deadLettered')).toBe('1');
+
+        const [dead] = await jobs.getDeadJobs('mail');
+        expect(dead).toMatchObject({ id, attempts: 2, maxAttempts: 2, lastError: 'bounced', data: { to: 'x' } });
+
+        expect(await jobs.retryDeadJobs('mail', id)).toBe(1);
+        expect(await jobs.getDeadJobs('mail')).toEqual([]);
+        const retried: Job = JSON.parse((await redis.hget('jobs:mail:jobs', id))!);
+        expect(retried.attempts).toBe(0);
+        expect(retried.lastError).toBeUndefined();
+    });
+
+    it('runs a job again when its worker stalled', async () => {
+        const handler = jest.fn().mockResolvedValue(undefined);
+        jobs.process('mail', 'send', handler);
+
+        const id = (await jobs.enqueue('mail', 'send', {}))!;
+        // Claimed by a worker that died before finishing
+        await redis.rpop('jobs:mail:waiting');
+        await redis.zadd('jobs:mail:active', NOW + 1000, id);
+
+        await drain(jobs, 'mail');
+        expect(handler).not.toHaveBeenCalled();
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+        await drain(jobs, 'mail');
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('enqueues each occurrence of a repeating job on one instance only', async () => {
+        const other = createService();
+        const handler = jest.fn().mockResolvedValue(undefined);
+        jobs.repeat('trash', 'purge', 60_000, handler);
+        other.repeat('trash', 'purge', 60_000, handler);
+
+        await jobs['scheduleRepeating']();
+        await other['scheduleRepeating']();
+
+        expect(await redis.lrange('jobs:trash:waiting', 0, -1)).toEqual(['repeat:purge']);
+
+        await drain(jobs, 'trash');
+        await drain(other, 'trash');
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        // The next occurrence is claimed afresh
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 60_000);
+        await other['scheduleRepeating']();
+        await jobs['scheduleRepeating']();
+        expect(await redis.llen('jobs:trash:waiting')).toBe(1);
+    });
+});
@@ -0,0 +1,374 @@
+import { Inject, Injectable, NotFoundException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../redis/redis.module';
+
+// Set of every queue that has ever had a job, for the admin overview
+const QUEUES_KEY = 'jobs:queues';
+// Jobs claimed from a queue in one pass, before the next poll
+const BATCH_SIZE = 100;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export interface JobOptions {
+    delayMs?: number; // run no earlier than this from now
+    attempts?: number; // tries before the job goes to the dead-letter list (default 3)
+    backoffMs?: number; // wait before the first retry, doubled on each further one (default 5s)
+    jobId?: string; // a job with this id still queued is not added again
+}
+
+export interface Job<T = any> {
+    id: string;
+    queue: string;
+    name: string;
+    data: T;
+    attempts: number; // failed tries so far
+    maxAttempts: number;
+    backoffMs: number;
+    createdAt: number;
+    lastError?: string;
+    failedAt?: number;
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<unknown>;
+
+interface RepeatingJob {
+    queue: string;
+    name: string;
+    everyMs: number;
+}
+
+/**
+ * Redis layout of a queue: job records in a hash, ids of runnable jobs in a
+ * list, delayed and retrying ones in a sorted set by run time, claimed ones
+ * in a sorted set by lease expiry, and dead-lettered records in a capped list.
+ */
+function queueKeys(queue: string) {
+    return {
+        jobs: `jobs:${queue}:jobs`,
+        waiting: `jobs:${queue}:waiting`,
+        delayed: `jobs:${queue}:delayed`,
+        active: `jobs:${queue}:active`,
+        dead: `jobs:${queue}:dead`,
+        stats: `jobs:${queue}:stats`,
+    };
+}
+
+// KEYS: jobs, waiting, delayed, queues; ARGV: id, record, run at (0 = now), queue
+const ENQUEUE_SCRIPT = `
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 0 then return 0 end
+if tonumber(ARGV[3]) > 0 then
+    redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+else
+    redis.call('LPUSH', KEYS[2], ARGV[1])
+end
+redis.call('SADD', KEYS[4], ARGV[4])
+return 1`;
+
+// Moves due delayed jobs, and claimed jobs whose worker died, back to waiting
+// KEYS: delayed, active, waiting; ARGV: now, limit
+const PROMOTE_SCRIPT = `
+local moved = 0
+for i = 1, 2 do
+    local ids = redis.call('ZRANGEBYSCORE', KEYS[i], 0, ARGV[1], 'LIMIT', 0, ARGV[2])
+    for _, id in ipairs(ids) do
+        redis.call('ZREM', KEYS[i], id)
+        redis.call('LPUSH', KEYS[3], id)
+    end
+    moved = moved + #ids
+end
+return moved`;
+
+// KEYS: waiting, active; ARGV: lease expiry
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if id then redis.call('ZADD', KEYS[2], ARGV[1], id) end
+return id`;
+
+export function backoffDelay(job: Pick<Job, 'attempts' | 'backoffMs'>): number {
+    return Math.min(job.backoffMs * 2 ** Math.max(job.attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Background jobs on Redis. Modules register a handler per queue and job
+ * name, then enqueue work from anywhere; every API instance polls the queues
+ * it has handlers for. Failed jobs are retried with exponential backoff and
+ * end up in the queue's dead-letter list once out of attempts.
+ *
+ * Delivery is at-least-once: a job whose worker dies mid-run is picked up
+ * again after JOBS_STALLED_AFTER_MS, so handlers should be idempotent.
+ */
+@Injectable()
+export class JobsService implements OnModuleInit, OnModuleDestroy {
+    private timer: NodeJS.Timeout | null = null;
+    private readonly handlers = new Map<string, Map<string, JobHandler>>();
+    private readonly repeating: RepeatingJob[] = [];
+    // Queues being drained right now, so a slow queue doesn't hold up the others
+    private readonly draining = new Set<string>();
+    private readonly intervalMs: number;
+    private readonly stalledAfterMs: number;
+    private readonly deadLetterMax: number;
+
+    constructor(
+        configService: ConfigService,
+        @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    ) {
+        this.intervalMs = parseInt(configService.get<string>('JOBS_POLL_INTERVAL_MS') || '1000', 10);
+        this.stalledAfterMs = parseInt(configService.get<string>('JOBS_STALLED_AFTER_MS') || '600000', 10);
+        this.deadLetterMax = parseInt(configService.get<string>('JOBS_DEAD_LETTER_MAX') || '1000', 10);
+    }
+
+    onModuleInit() {
+        this.timer = setInterval(() => this.poll(), this.intervalMs);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    process<T = any>(queue: string, name: string, handler: JobHandler<T>): void {
+        if (!this.handlers.has(queue)) {
+            this.handlers.set(queue, new Map());
+        }
+        this.handlers.get(queue)!.set(name, handler);
+    }
+
+    /**
+     * Adds a job; returns its id, or null when a job with the same `jobId`
+     * is still waiting, delayed or running.
+     */
+    async enqueue<T = any>(queue: string, name: string, data: T, options: JobOptions = {}): Promise<string | null> {
+        const job: Job<T> = {
+            id: options.jobId ?? randomUUID(),
+            queue,
+            name,
+            data,
+            attempts: 0,
+            maxAttempts: Math.max(options.attempts ?? 3, 1),
+            backoffMs: options.backoffMs ?? 5000,
+            createdAt: Date.now(),
+        };
+
+        return this.add(job, options.delayMs ? Date.now() + options.delayMs : 0);
+    }
+
+    /**
+     * Runs a job every `everyMs`. Each API instance registers it on startup;
+     * only one of them enqueues each occurrence, and an occurrence is skipped
+     * while the previous one hasn't finished.
+     */
+    repeat<T = any>(queue: string, name: string, everyMs: number, handler: JobHandler<T>): void {
+        this.process(queue, name, handler);
+        this.repeating.push({ queue, name, everyMs });
+    }
+
+    // Queue depths and counters, for the admin endpoint
+    async getStats() {
+        const queues = (await this.redis.smembers(QUEUES_KEY)).sort();
+
+        const stats = await Promise.all(
+            queues.map(async (queue) => {
+                const keys = queueKeys(queue);
+                const [waiting, delayed, active, dead, counters] = await Promise.all([
+                    this.redis.llen(keys.waiting),
+                    this.redis.zcard(keys.delayed),
+                    this.redis.zcard(keys.active),
+                    this.redis.llen(keys.dead),
+                    this.redis.hgetall(keys.stats),
+                ]);
+
+                return {
+                    queue,
+                    waiting,
+                    delayed,
+                    active,
+                    dead,
+                    completed: parseInt(counters.completed || '0', 10),
+                    retried: parseInt(counters.retried || '0', 10),
+                    deadLettered: parseInt(counters.deadLettered || '0', 10),
+                };
+            }),
+        );
+
+        return { queues: stats, repeating: this.repeating };
+    }
+
+    // Most recently dead-lettered first
+    async getDeadJobs(queue: string, limit = 50): Promise<Job[]> {
+        await this.assertQueue(queue);
+        const records = await this.redis.lrange(queueKeys(queue).dead, 0, limit - 1);
+        return records.map((record) => JSON.parse(record));
+    }
+
+    // Put dead-lettered jobs (all, or the one with `id`) back in the queue with fresh attempts
+    async retryDeadJobs(queue: string, id?: string): Promise<number> {
+        await this.assertQueue(queue);
+        const keys = queueKeys(queue);
+        const records = await this.redis.lrange(keys.dead, 0, -1);
+
+        let retried = 0;
+        for (const record of records) {
+            const job: Job = JSON.parse(record);
+            if (id && job.id !== id) continue;
+
+            // Another admin may have retried it meanwhile
+            if ((await this.redis.lrem(keys.dead, 1, record)) === 0) continue;
+
+            const { lastError, failedAt, ...rest } = job;
+            if (await this.add({ ...rest, attempts: 0 }, 0)) retried++;
+        }
+
+        if (id && retried === 0) {
+            throw new NotFoundException('Dead job not found');
+        }
+
+        return retried;
+    }
+
+    async clearDeadJobs(queue: string): Promise<void> {
+        await this.assertQueue(queue);
+        await this.redis.del(queueKeys(queue).dead);
+    }
+
+    private async add(job: Job, runAt: number): Promise<string | null> {
+        const keys = queueKeys(job.queue);
+        const added = await this.redis.eval(
+            ENQUEUE_SCRIPT,
+            4,
+            keys.jobs,
+            keys.waiting,
+            keys.delayed,
+            QUEUES_KEY,
+            job.id,
+            JSON.stringify(job),
+            runAt,
+            job.queue,
+        );
+
+        return added === 1 ? job.id : null;
+    }
+
+    private async assertQueue(queue: string): Promise<void> {
+        if (!(await this.redis.sismember(QUEUES_KEY, queue))) {
+            throw new NotFoundException('Queue not found');
+        }
+    }
+
+    private async poll(): Promise<void> {
+        await this.scheduleRepeating();
+
+        // Not awaited: each queue drains at its own pace
+        for (const queue of this.handlers.keys()) {
+            this.drain(queue);
+        }
+    }
+
+    private async scheduleRepeating(): Promise<void> {
+        for (const { queue, name, everyMs } of this.repeating) {
+            try {
+                // One instance claims each occurrence
+                const slot = Math.floor(Date.now() / everyMs);
+                const claimed = await this.redis.set(`jobs:${queue}:repeat:${name}:${slot}`, '1', 'PX', everyMs * 2, 'NX');
+                if (!claimed) continue;
+
+                // The fixed id skips this occurrence if the last one is still queued
+                await this.enqueue(queue, name, {}, { jobId: `repeat:${name}`, attempts: 1 });
+            } catch (error) {
+                console.warn(`Failed to schedule repeating job ${queue}/${name}:`, error.message);
+            }
+        }
+    }
+
+    private async drain(queue: string): Promise<void> {
+        // Skip if the previous pass over this queue is still going
+        if (this.draining.has(queue)) return;
+        this.draining.add(queue);
+
+        const keys = queueKeys(queue);
+        try {
+            await this.redis.eval(PROMOTE_SCRIPT, 3, keys.delayed, keys.active, keys.waiting, Date.now(), BATCH_SIZE);
+
+            for (let i = 0; i < BATCH_SIZE; i++) {
+                const id = (await this.redis.eval(
+                    CLAIM_SCRIPT,
+                    2,
+                    keys.waiting,
+                    keys.active,
+                    Date.now() + this.stalledAfterMs,
+                )) as string | null;
+                if (!id) break;
+
+                await this.run(queue, id);
+            }
+        } catch (error) {
+            console.warn(`Job queue ${queue} failed:`, error.message);
+        } finally {
+            this.draining.delete(queue);
+        }
+    }
+
+    private async run(queue: string, id: string): Promise<void> {
+        const keys = queueKeys(queue);
+        const record = await this.redis.hget(keys.jobs, id);
+
+        if (!record) {
+            await this.redis.zrem(keys.active, id);
+            return;
+        }
+
+        const job: Job = JSON.parse(record);
+        try {
+            const handler = this.handlers.get(queue)?.get(job.name);
+            if (!handler) {
+                throw new Error(`No handler for job "${job.name}"`);
+            }
+
+            await handler(job);
+
+            await this.redis
+                .multi()
+                .zrem(keys.active, id)
+                .hdel(keys.jobs, id)
+                .hincrby(keys.stats, 'completed', 1)
+                .exec();
+        } catch (error) {
+            await this.fail(job, error);
+        }
+    }
+
+    private async fail(job: Job, error: Error): Promise<void> {
+        const keys = queueKeys(job.queue);
+        const failed: Job = { ...job, attempts: job.attempts + 1, lastError: error.message, failedAt: Date.now() };
+
+        if (failed.attempts < failed.maxAttempts) {
+            const delayMs = backoffDelay(failed);
+            await this.redis
+                .multi()
+                .zrem(keys.active, job.id)
+                .hset(keys.jobs, job.id, JSON.stringify(failed))
+                .zadd(keys.delayed, Date.now() + delayMs, job.id)
+                .hincrby(keys.stats, 'retried', 1)
+                .exec();
+
+            console.warn(
+                `Job ${job.queue}/${job.name} failed (attempt ${failed.attempts}), retrying in ${delayMs / 1000}s:`,
+                error.message,
+            );
+            return;
+        }
+
+        await this.redis
+            .multi()
+            .zrem(keys.active, job.id)
+            .hdel(keys.jobs, job.id)
+            .lpush(keys.dead, JSON.stringify(failed))
+            .ltrim(keys.dead, 0, this.deadLetterMax - 1)
+            .hincrby(keys.stats, 'deadLettered', 1)
+            .exec();
+
+        console.warn(`Job ${job.queue}/${job.name} failed after ${failed.attempts} attempts:`, error.message);
+    }
+}
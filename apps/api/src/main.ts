@@ -38,7 +38,8 @@ async function bootstrap() {
         },
         credentials: true,
         methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
-        allowedHeaders: 'Content-Type,Accept,Authorization',
+        allowedHeaders: 'Content-Type,Accept,Authorization,If-Match',
+        exposedHeaders: 'ETag',
     });
 
     // Global validation pipe
@@ -13,7 +13,7 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators';
 import { NotebooksService } from './notebooks.service';
 import { User } from '@evernote-clone/database';
-import { IsString, IsOptional, MaxLength, Matches } from 'class-validator';
+import { IsString, IsOptional, IsInt, Min, MaxLength, Matches } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 class CreateNotebookDto {
@@ -27,6 +27,17 @@ class CreateNotebookDto {
     @IsString()
     @Matches(/^#[0-9a-fA-F]{6}$/)
     color?: string;
+
+    @ApiProperty({ required: false, description: 'Notebook to nest this one in' })
+    @IsOptional()
+    @IsString()
+    parentId?: string;
+
+    @ApiProperty({ required: false, description: 'Stack of a top-level notebook' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    stack?: string;
 }
 
 class UpdateNotebookDto {
@@ -43,6 +54,33 @@ class UpdateNotebookDto {
     color?: string;
 }
 
+class MoveNotebookDto {
+    @ApiProperty({ required: false, nullable: true, description: 'New parent; null for the top level' })
+    @IsOptional()
+    @IsString()
+    parentId?: string | null;
+
+    @ApiProperty({ required: false, nullable: true, description: 'Stack at the top level; null to unstack' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    stack?: string | null;
+
+    @ApiProperty({ required: false, description: 'Index among the new siblings; last when omitted' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    position?: number;
+}
+
+class RenameStackDto {
+    @ApiProperty({ nullable: true, description: 'New name; null dissolves the stack' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    name: string | null;
+}
+
 @ApiTags('notebooks')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
@@ -56,6 +94,13 @@ export class NotebooksController {
         return this.notebooksService.findAll(user.id);
     }
 
+    @Patch('stacks/:name')
+    @ApiOperation({ summary: 'Rename or dissolve a notebook stack' })
+    async renameStack(@CurrentUser() user: User, @Param('name') name: string, @Body() dto: RenameStackDto) {
+        await this.notebooksService.renameStack(user.id, name, dto.name ?? null);
+        return { success: true };
+    }
+
     @Get(':id')
     @ApiOperation({ summary: 'Get a notebook by ID' })
     async findById(@CurrentUser() user: User, @Param('id') id: string) {
@@ -78,6 +123,16 @@ export class NotebooksController {
         return this.notebooksService.update(id, user.id, dto);
     }
 
+    @Patch(':id/move')
+    @ApiOperation({ summary: 'Move a notebook, with its sub-notebooks, to a new parent, stack or position' })
+    async move(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Body() dto: MoveNotebookDto,
+    ) {
+        return this.notebooksService.move(id, user.id, dto);
+    }
+
     @Delete(':id')
     @ApiOperation({ summary: 'Delete a notebook' })
     async delete(@CurrentUser() user: User, @Param('id') id: string) {
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { NotebooksService } from './notebooks.service';
 import { NotebooksController } from './notebooks.controller';
+import { SearchModule } from '../search/search.module';
 
 @Module({
+    imports: [SearchModule],
     providers: [NotebooksService],
     controllers: [NotebooksController],
     exports: [NotebooksService],
@@ -0,0 +1,135 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { NotebooksService, rollUpNoteCounts } from './notebooks.service';
+
+type Row = { id: string; parentId: string | null; stack: string | null; position: number };
+
+const node = (id: string, parentId: string | null, notes: number) => ({ id, parentId, _count: { notes } });
+
+describe('rollUpNoteCounts', () => {
+    it('adds the notes of every nested notebook', () => {
+        const totals = rollUpNoteCounts([
+            node('work', null, 1),
+            node('projects', 'work', 2),
+            node('alpha', 'projects', 3),
+            node('beta', 'projects', 4),
+            node('home', null, 5),
+        ]);
+
+        expect(Object.fromEntries(totals.map((notebook) => [notebook.id, notebook.totalNotes]))).toEqual({
+            work: 10,
+            projects: 9,
+            alpha: 3,
+            beta: 4,
+            home: 5,
+        });
+    });
+
+    it('counts notebooks whose parent is missing on their own', () => {
+        expect(rollUpNoteCounts([node('orphan', 'gone', 2)])[0].totalNotes).toBe(2);
+    });
+
+    it('terminates on a cycle', () => {
+        const totals = rollUpNoteCounts([node('a', 'b', 1), node('b', 'a', 2)]);
+
+        expect(totals.map((notebook) => notebook.totalNotes)).toEqual([3, 2]);
+    });
+});
+
+describe('NotebooksService.move', () => {
+    let rows: Row[];
+    let service: NotebooksService;
+
+    // In-memory notebooks of one user, enough for the queries move() makes
+    const notebook = {
+        findUnique: jest.fn(async ({ where }) => {
+            const row = rows.find((r) => r.id === where.id);
+            return row && { ...row, ownerId: 'user', isDefault: false, name: row.id };
+        }),
+        findMany: jest.fn(async ({ where }) =>
+            rows
+                .filter((r) => r.parentId === where.parentId && r.id !== where.id.not)
+                .filter((r) => !('stack' in where) || r.stack === where.stack)
+                .sort((a, b) => a.position - b.position)
+                .map(({ id }) => ({ id })),
+        ),
+        update: jest.fn(async ({ where, data }) => {
+            const row = rows.find((r) => r.id === where.id)!;
+            Object.assign(row, data);
+            return row;
+        }),
+    };
+    const tx = {
+        notebook,
+        $queryRaw: jest.fn(async (_query: TemplateStringsArray) => rows.map(({ id, parentId }) => ({ id, parentId }))),
+    };
+
+    const positions = (parentId: string | null) =>
+        rows
+            .filter((r) => r.parentId === parentId)
+            .sort((a, b) => a.position - b.position)
+            .map((r) => [r.id, r.position]);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        rows = [
+            { id: 'work', parentId: null, stack: null, position: 0 },
+            { id: 'projects', parentId: 'work', stack: null, position: 0 },
+            { id: 'alpha', parentId: 'projects', stack: null, position: 0 },
+            { id: 'archive', parentId: 'work', stack: null, position: 1 },
+            { id: 'reports', parentId: 'work', stack: null, position: 2 },
+            { id: 'home', parentId: null, stack: null, position: 1 },
+        ];
+
+        const prisma = { notebook, $transaction: jest.fn((run) => run(tx)) };
+        service = new NotebooksService(prisma as unknown as PrismaService, {} as SearchOutboxService);
+    });
+
+    it('rejects the notebook itself as its parent', async () => {
+        await expect(service.move('work', 'user', { parentId: 'work' })).rejects.toThrow(BadRequestException);
+        expect(notebook.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a notebook nested inside it as its parent', async () => {
+        await expect(service.move('work', 'user', { parentId: 'alpha' })).rejects.toThrow(
+            'A notebook cannot be moved into itself or one of its sub-notebooks',
+        );
+        expect(notebook.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a parent the user does not own', async () => {
+        await expect(service.move('home', 'user', { parentId: 'someone-elses' })).rejects.toThrow(
+            'Parent notebook not found',
+        );
+    });
+
+    it('checks for cycles against locked rows', async () => {
+        await service.move('home', 'user', { parentId: 'alpha' });
+
+        expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+        expect(tx.$queryRaw.mock.calls[0][0].join('?')).toContain('FOR UPDATE');
+    });
+
+    it('renumbers the new siblings and the ones left behind', async () => {
+        await service.move('projects', 'user', { parentId: 'home', position: 0 });
+
+        expect(positions('home')).toEqual([['projects', 0]]);
+        expect(positions('work')).toEqual([
+            ['archive', 0],
+            ['reports', 1],
+        ]);
+    });
+
+    it('inserts the notebook at the requested position', async () => {
+        await service.move('home', 'user', { parentId: 'work', position: 1 });
+
+        expect(positions('work')).toEqual([
+            ['projects', 0],
+            ['home', 1],
+            ['archive', 2],
+            ['reports', 3],
+        ]);
+        expect(positions(null)).toEqual([['work', 0]]);
+    });
+});
@@ -3,22 +3,63 @@ import {
     NotFoundException,
     ConflictException,
     ForbiddenException,
+    BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Notebook } from '@evernote-clone/database';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { Notebook, Prisma } from '@evernote-clone/database';
+
+type NotebookNode = { id: string; parentId: string | null; _count: { notes: number } };
+
+/**
+ * Adds `totalNotes` to each notebook: its own notes plus those of every
+ * notebook nested below it.
+ */
+export function rollUpNoteCounts<T extends NotebookNode>(notebooks: T[]): (T & { totalNotes: number })[] {
+    const children = new Map<string, T[]>();
+    for (const notebook of notebooks) {
+        if (!notebook.parentId) continue;
+        children.set(notebook.parentId, [...(children.get(notebook.parentId) ?? []), notebook]);
+    }
+
+    const totals = new Map<string, number>();
+    const total = (notebook: T, path: Set<string>): number => {
+        const known = totals.get(notebook.id);
+        if (known !== undefined) return known;
+
+        // The server prevents cycles; don't loop forever on bad data anyway
+        if (path.has(notebook.id)) return 0;
+        path.add(notebook.id);
+
+        const sum = (children.get(notebook.id) ?? []).reduce(
+            (acc, child) => acc + total(child, path),
+            notebook._count.notes,
+        );
+        totals.set(notebook.id, sum);
+        return sum;
+    };
+
+    return notebooks.map((notebook) => ({ ...notebook, totalNotes: total(notebook, new Set()) }));
+}
 
 @Injectable()
 export class NotebooksService {
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly searchOutbox: SearchOutboxService,
+    ) { }
 
-    async findAll(userId: string): Promise<Notebook[]> {
-        return this.prisma.notebook.findMany({
+    // Flat list in sidebar order; the client builds the tree from parentId and stack
+    async findAll(userId: string) {
+        const notebooks = await this.prisma.notebook.findMany({
             where: { ownerId: userId },
             include: {
                 _count: { select: { notes: { where: { isTrashed: false } } } },
             },
-            orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+            orderBy: [{ position: 'asc' }, { isDefault: 'desc' }, { name: 'asc' }],
         });
+
+        return rollUpNoteCounts(notebooks);
     }
 
     async findById(id: string, userId: string): Promise<Notebook> {
@@ -40,9 +81,40 @@ export class NotebooksService {
         return notebook;
     }
 
+    /**
+     * The new parent must be the user's, and not the notebook itself or
+     * anything nested in it. Locks the user's notebooks for the rest of the
+     * transaction, so concurrent moves can't combine into a cycle.
+     */
+    private async assertValidParent(
+        id: string,
+        parentId: string | null,
+        userId: string,
+        tx: Prisma.TransactionClient,
+    ): Promise<void> {
+        const notebooks = await tx.$queryRaw<{ id: string; parentId: string | null }[]>`
+            SELECT id, parentId FROM notebooks WHERE ownerId = ${userId} FOR UPDATE`;
+        if (!parentId) return;
+
+        const parents = new Map(notebooks.map((notebook) => [notebook.id, notebook.parentId]));
+
+        if (!parents.has(parentId)) {
+            throw new BadRequestException('Parent notebook not found');
+        }
+
+        // Walk up from the new parent: meeting the notebook means it would end up inside itself
+        const seen = new Set<string>();
+        for (let current: string | null = parentId; current && !seen.has(current); current = parents.get(current) ?? null) {
+            if (current === id) {
+                throw new BadRequestException('A notebook cannot be moved into itself or one of its sub-notebooks');
+            }
+            seen.add(current);
+        }
+    }
+
     async create(
         userId: string,
-        data: { name: string; color?: string },
+        data: { name: string; color?: string; parentId?: string; stack?: string },
     ): Promise<Notebook> {
         // Check for duplicate name
         const existing = await this.prisma.notebook.findUnique({
@@ -53,11 +125,26 @@ export class NotebooksService {
             throw new ConflictException('A notebook with this name already exists');
         }
 
+        if (data.parentId) {
+            await this.findById(data.parentId, userId);
+        }
+
+        // Only top-level notebooks are stacked
+        const stack = data.parentId ? null : data.stack || null;
+
+        // Last among its siblings
+        const position = await this.prisma.notebook.count({
+            where: { ownerId: userId, parentId: data.parentId ?? null, ...(!data.parentId && { stack }) },
+        });
+
         return this.prisma.notebook.create({
             data: {
                 name: data.name,
                 color: data.color || '#6366f1',
                 ownerId: userId,
+                parentId: data.parentId,
+                stack,
+                position,
             },
         });
     }
@@ -85,6 +172,77 @@ export class NotebooksService {
         });
     }
 
+    /**
+     * Move a notebook (with everything nested in it) under another notebook
+     * or to the top level, optionally into a stack, at `position` among its
+     * new siblings (last by default).
+     */
+    async move(
+        id: string,
+        userId: string,
+        data: { parentId?: string | null; stack?: string | null; position?: number },
+    ): Promise<Notebook> {
+        const notebook = await this.findById(id, userId);
+
+        const parentId = data.parentId === undefined ? notebook.parentId : data.parentId;
+        // Nesting takes a notebook out of its stack
+        const stack = parentId ? null : data.stack === undefined ? notebook.stack : data.stack || null;
+
+        return this.prisma.$transaction(async (tx) => {
+            await this.assertValidParent(id, parentId, userId, tx);
+
+            const siblings = await this.siblingIds(id, userId, parentId, stack, tx);
+            const position = Math.min(Math.max(data.position ?? siblings.length, 0), siblings.length);
+            const ordered = [...siblings];
+            ordered.splice(position, 0, id);
+
+            // Renumber the destination, and the notebooks left behind, so positions stay dense
+            await this.renumber(ordered, tx);
+            if (parentId !== notebook.parentId || (!parentId && stack !== notebook.stack)) {
+                await this.renumber(await this.siblingIds(id, userId, notebook.parentId, notebook.stack, tx), tx);
+            }
+
+            return tx.notebook.update({
+                where: { id },
+                data: { parentId, stack, position },
+            });
+        });
+    }
+
+    // The other notebooks under `parentId` (in `stack`, at the top level), in sidebar order
+    private async siblingIds(
+        id: string,
+        userId: string,
+        parentId: string | null,
+        stack: string | null,
+        tx: Prisma.TransactionClient,
+    ): Promise<string[]> {
+        const siblings = await tx.notebook.findMany({
+            where: { ownerId: userId, parentId, ...(!parentId && { stack }), id: { not: id } },
+            orderBy: [{ position: 'asc' }, { isDefault: 'desc' }, { name: 'asc' }],
+            select: { id: true },
+        });
+        return siblings.map((sibling) => sibling.id);
+    }
+
+    private async renumber(ordered: string[], tx: Prisma.TransactionClient): Promise<void> {
+        for (const [position, id] of ordered.entries()) {
+            await tx.notebook.update({ where: { id }, data: { position } });
+        }
+    }
+
+    // Rename a stack, or dissolve it (newName null) leaving its notebooks at the top level
+    async renameStack(userId: string, name: string, newName: string | null): Promise<void> {
+        const { count } = await this.prisma.notebook.updateMany({
+            where: { ownerId: userId, parentId: null, stack: name },
+            data: { stack: newName || null },
+        });
+
+        if (count === 0) {
+            throw new NotFoundException('Stack not found');
+        }
+    }
+
     async delete(id: string, userId: string): Promise<void> {
         const notebook = await this.findById(id, userId);
 
@@ -92,16 +250,30 @@ export class NotebooksService {
             throw new ForbiddenException('Cannot delete the default notebook');
         }
 
-        // Move notes to default notebook or unassign
+        // Move notes to default notebook or unassign (trashed ones restore from their trashOrigin)
         const defaultNotebook = await this.prisma.notebook.findFirst({
             where: { ownerId: userId, isDefault: true },
         });
 
-        await this.prisma.note.updateMany({
-            where: { notebookId: id },
-            data: { notebookId: defaultNotebook?.id || null },
-        });
+        await this.prisma.$transaction(async (tx) => {
+            const notes = await tx.note.findMany({
+                where: { notebookId: id },
+                select: { id: true },
+            });
+
+            await tx.note.updateMany({
+                where: { notebookId: id },
+                data: { notebookId: defaultNotebook?.id || null },
+            });
 
-        await this.prisma.notebook.delete({ where: { id } });
+            // Nested notebooks move up a level, into the deleted notebook's place
+            await tx.notebook.updateMany({
+                where: { parentId: id },
+                data: { parentId: notebook.parentId, stack: notebook.parentId ? null : notebook.stack },
+            });
+
+            await tx.notebook.delete({ where: { id } });
+            await this.searchOutbox.enqueue(notes.map((note) => note.id), tx);
+        });
     }
 }
@@ -0,0 +1,91 @@
+import { Prisma } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { TemplatesService } from '../templates/templates.service';
+import { DailyNotesService, isValidDate } from './daily-notes.service';
+import { NotesService } from './notes.service';
+
+const uniqueViolation = () =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed on authorId_dailyDate', {
+        code: 'P2002',
+        clientVersion: 'test',
+    });
+
+describe('isValidDate', () => {
+    it('accepts real days only', () => {
+        expect(isValidDate('2024-02-29')).toBe(true);
+        expect(isValidDate('2023-02-29')).toBe(false);
+        expect(isValidDate('2024-2-1')).toBe(false);
+    });
+});
+
+describe('DailyNotesService.findOrCreate', () => {
+    let prisma: Record<string, any>;
+    let notesService: Record<'findById' | 'create' | 'restore', jest.Mock>;
+    let dailyNotes: DailyNotesService;
+
+    beforeEach(() => {
+        prisma = {
+            note: { findUnique: jest.fn(async () => null) },
+            user: {
+                findUnique: jest.fn(async () => ({ journalNotebookId: 'journal', journalTemplateId: null })),
+                update: jest.fn(),
+            },
+            notebook: { findUnique: jest.fn(async () => ({ id: 'journal', ownerId: 'user' })) },
+        };
+        notesService = {
+            findById: jest.fn(async (id: string) => ({ id, title: '2026-03-18', isTrashed: false })),
+            create: jest.fn(async () => ({ id: 'created', title: '2026-03-18' })),
+            restore: jest.fn(async (id: string) => ({ id, title: '2026-03-18', isTrashed: false })),
+        };
+
+        dailyNotes = new DailyNotesService(
+            prisma as unknown as PrismaService,
+            notesService as unknown as NotesService,
+            {} as TemplatesService,
+        );
+    });
+
+    it('creates the note of a new day in the journal notebook', async () => {
+        expect(await dailyNotes.findOrCreate('user', '2026-03-18')).toMatchObject({ id: 'created' });
+
+        expect(notesService.create).toHaveBeenCalledWith(
+            'user',
+            expect.objectContaining({ title: '2026-03-18', notebookId: 'journal', localDate: '2026-03-18' }),
+            { dailyDate: '2026-03-18' },
+        );
+    });
+
+    it('returns the note created by a concurrent request for the same day', async () => {
+        prisma.note.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'winner' });
+        notesService.create.mockRejectedValue(uniqueViolation());
+
+        expect(await dailyNotes.findOrCreate('user', '2026-03-18')).toMatchObject({ id: 'winner' });
+        expect(prisma.note.findUnique).toHaveBeenLastCalledWith({
+            where: { authorId_dailyDate: { authorId: 'user', dailyDate: '2026-03-18' } },
+            select: { id: true },
+        });
+    });
+
+    it('rethrows a unique violation when the other note cannot be found', async () => {
+        const error = uniqueViolation();
+        notesService.create.mockRejectedValue(error);
+
+        await expect(dailyNotes.findOrCreate('user', '2026-03-18')).rejects.toBe(error);
+    });
+
+    it('brings a trashed daily note back instead of creating another', async () => {
+        prisma.note.findUnique.mockResolvedValue({ id: 'trashed' });
+        notesService.findById.mockResolvedValue({ id: 'trashed', title: '2026-03-18', isTrashed: true });
+
+        expect(await dailyNotes.findOrCreate('user', '2026-03-18')).toMatchObject({
+            id: 'trashed',
+            isTrashed: false,
+        });
+        expect(notesService.restore).toHaveBeenCalledWith('trashed', 'user', {});
+        expect(notesService.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a date that is not a real day', async () => {
+        await expect(dailyNotes.findOrCreate('user', '2026-02-30')).rejects.toThrow('Invalid date "2026-02-30"');
+    });
+});
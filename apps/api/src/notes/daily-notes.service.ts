@@ -0,0 +1,212 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Note, Prisma } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { TemplatesService } from '../templates/templates.service';
+import { NotesService } from './notes.service';
+import { DailyNoteSettingsDto } from './dto/notes.dto';
+
+const JOURNAL_NOTEBOOK_NAME = 'Journal';
+const JOURNAL_NOTEBOOK_COLOR = '#f59e0b';
+// Widest range the calendar asks for at once
+const MAX_RANGE_DAYS = 366;
+
+export interface DailyNoteEntry {
+    date: string;
+    noteId: string;
+    title: string;
+}
+
+export interface DailyNoteSettings {
+    journalNotebookId: string | null;
+    journalTemplateId: string | null;
+}
+
+// YYYY-MM-DD naming a real day
+export function isValidDate(date: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+function assertDate(date: string): void {
+    if (!isValidDate(date)) {
+        throw new BadRequestException(`Invalid date "${date}", expected YYYY-MM-DD`);
+    }
+}
+
+/**
+ * Daily notes: one note per user and day, titled by its date, kept in the
+ * user's journal notebook.
+ *
+ * The date is the client's calendar day, so "today" follows the user's
+ * time zone. A unique (authorId, dailyDate) index makes opening a day
+ * idempotent: when two clients create the same day at once, the loser of
+ * the insert gets the winner's note.
+ */
+@Injectable()
+export class DailyNotesService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly notesService: NotesService,
+        private readonly templatesService: TemplatesService,
+    ) { }
+
+    async findOrCreate(userId: string, date: string): Promise<Note> {
+        assertDate(date);
+
+        const existing = await this.findByDate(userId, date);
+        if (existing) {
+            // There is only one note per day: bring it back instead of starting over
+            if (existing.isTrashed) {
+                return this.notesService.restore(existing.id, userId, {});
+            }
+            return existing;
+        }
+
+        const settings = await this.resolveSettings(userId);
+
+        try {
+            return await this.notesService.create(
+                userId,
+                {
+                    title: date,
+                    notebookId: settings.journalNotebookId ?? undefined,
+                    templateId: settings.journalTemplateId ?? undefined,
+                    localDate: date,
+                },
+                { dailyDate: date },
+            );
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                const created = await this.findByDate(userId, date);
+                if (created) return created;
+            }
+            throw error;
+        }
+    }
+
+    // Days with a daily note between two dates (inclusive), for the calendar
+    async findRange(userId: string, from: string, to: string): Promise<DailyNoteEntry[]> {
+        assertDate(from);
+        assertDate(to);
+
+        const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+        if (days < 0 || days > MAX_RANGE_DAYS) {
+            throw new BadRequestException(`Date range must be between 0 and ${MAX_RANGE_DAYS} days`);
+        }
+
+        const notes = await this.prisma.note.findMany({
+            where: {
+                authorId: userId,
+                isTrashed: false,
+                dailyDate: { gte: from, lte: to },
+            },
+            select: { id: true, title: true, dailyDate: true },
+            orderBy: { dailyDate: 'asc' },
+        });
+
+        return notes.map((note) => ({ date: note.dailyDate!, noteId: note.id, title: note.title }));
+    }
+
+    async getSettings(userId: string): Promise<DailyNoteSettings> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: { journalNotebookId: true, journalTemplateId: true },
+        });
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return user;
+    }
+
+    async updateSettings(userId: string, dto: DailyNoteSettingsDto): Promise<DailyNoteSettings> {
+        if (dto.journalNotebookId) {
+            const notebook = await this.prisma.notebook.findUnique({ where: { id: dto.journalNotebookId } });
+            if (!notebook || notebook.ownerId !== userId) {
+                throw new BadRequestException('Notebook not found');
+            }
+        }
+
+        if (dto.journalTemplateId) {
+            // Throws when the template is not visible to the user
+            await this.templatesService.findById(dto.journalTemplateId, userId);
+        }
+
+        return this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                journalNotebookId: dto.journalNotebookId,
+                journalTemplateId: dto.journalTemplateId,
+            },
+            select: { journalNotebookId: true, journalTemplateId: true },
+        });
+    }
+
+    private async findByDate(userId: string, date: string): Promise<Note | null> {
+        const note = await this.prisma.note.findUnique({
+            where: { authorId_dailyDate: { authorId: userId, dailyDate: date } },
+            select: { id: true },
+        });
+
+        return note ? this.notesService.findById(note.id, userId) : null;
+    }
+
+    /**
+     * Settings for creating a daily note. Notebooks and templates can be
+     * deleted after being chosen: a missing notebook falls back to the
+     * "Journal" notebook (created on first use) and a missing template to
+     * an empty note.
+     */
+    private async resolveSettings(userId: string): Promise<DailyNoteSettings> {
+        const settings = await this.getSettings(userId);
+        let { journalNotebookId, journalTemplateId } = settings;
+
+        if (journalNotebookId) {
+            const notebook = await this.prisma.notebook.findUnique({ where: { id: journalNotebookId } });
+            if (!notebook || notebook.ownerId !== userId) journalNotebookId = null;
+        }
+        if (!journalNotebookId) {
+            journalNotebookId = await this.journalNotebook(userId);
+        }
+
+        if (journalTemplateId) {
+            try {
+                await this.templatesService.findById(journalTemplateId, userId);
+            } catch (error) {
+                if (!(error instanceof NotFoundException)) throw error;
+                journalTemplateId = null;
+            }
+        }
+
+        if (journalNotebookId !== settings.journalNotebookId || journalTemplateId !== settings.journalTemplateId) {
+            await this.prisma.user.update({
+                where: { id: userId },
+                data: { journalNotebookId, journalTemplateId },
+            });
+        }
+
+        return { journalNotebookId, journalTemplateId };
+    }
+
+    private async journalNotebook(userId: string): Promise<string> {
+        const where = { ownerId_name: { ownerId: userId, name: JOURNAL_NOTEBOOK_NAME } };
+
+        try {
+            const notebook = await this.prisma.notebook.upsert({
+                where,
+                update: {},
+                create: { name: JOURNAL_NOTEBOOK_NAME, color: JOURNAL_NOTEBOOK_COLOR, ownerId: userId },
+            });
+            return notebook.id;
+        } catch (error) {
+            // Created concurrently by another request
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                const notebook = await this.prisma.notebook.findUnique({ where });
+                if (notebook) return notebook.id;
+            }
+            throw error;
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsBoolean, IsArray, MaxLength } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsArray, IsNotEmpty, ArrayNotEmpty, IsInt, Min, Max, MaxLength, Matches } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CreateNoteDto {
@@ -22,6 +22,16 @@ export class CreateNoteDto {
     @IsArray()
     @IsString({ each: true })
     tagIds?: string[];
+
+    @ApiProperty({ required: false, description: 'Template to fill the title and content from' })
+    @IsOptional()
+    @IsString()
+    templateId?: string;
+
+    @ApiProperty({ required: false, description: 'Client date (YYYY-MM-DD) for {{date}} in the template' })
+    @IsOptional()
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    localDate?: string;
 }
 
 export class UpdateNoteDto {
@@ -55,3 +65,52 @@ export class UpdateNoteDto {
     @IsBoolean()
     isTrashed?: boolean;
 }
+
+export class CreateVersionDto {
+    @ApiProperty({ description: 'Checkpoint name, e.g. "Sent to client v2"' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    label: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(2000)
+    description?: string;
+}
+
+export class DailyNoteSettingsDto {
+    @ApiProperty({ required: false, nullable: true, description: 'Notebook for daily notes; a "Journal" notebook is created when unset' })
+    @IsOptional()
+    @IsString()
+    journalNotebookId?: string | null;
+
+    @ApiProperty({ required: false, nullable: true, description: 'Template new daily notes start from' })
+    @IsOptional()
+    @IsString()
+    journalTemplateId?: string | null;
+}
+
+export class TrashSettingsDto {
+    @ApiProperty({ description: 'Days a trashed note is kept before it is deleted for good; 0 keeps it until emptied by hand' })
+    @IsInt()
+    @Min(0)
+    @Max(3650)
+    trashRetentionDays: number;
+}
+
+export class RestoreNoteDto {
+    @ApiProperty({ required: false, description: 'Destination when the original notebook was deleted; it is recreated when omitted' })
+    @IsOptional()
+    @IsString()
+    notebookId?: string;
+}
+
+export class BulkRestoreNotesDto extends RestoreNoteDto {
+    @ApiProperty({ type: [String] })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsString({ each: true })
+    noteIds: string[];
+}
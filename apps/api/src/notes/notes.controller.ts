@@ -7,21 +7,56 @@ import {
     Body,
     Param,
     Query,
+    Headers,
+    Res,
     UseGuards,
+    BadRequestException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery, ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators';
 import { NotesService } from './notes.service';
-import { CreateNoteDto, UpdateNoteDto } from './dto/notes.dto';
+import { RelatedNotesService } from './related-notes.service';
+import { DailyNotesService } from './daily-notes.service';
+import { TrashService } from './trash.service';
+import {
+    BulkRestoreNotesDto,
+    CreateNoteDto,
+    CreateVersionDto,
+    DailyNoteSettingsDto,
+    RestoreNoteDto,
+    TrashSettingsDto,
+    UpdateNoteDto,
+} from './dto/notes.dto';
 import { User } from '@evernote-clone/database';
 
+// Notes are versioned by their revision counter, exposed as a strong ETag
+function toETag(revision: number): string {
+    return `"${revision}"`;
+}
+
+function parseIfMatch(header?: string): number | undefined {
+    if (!header || header.trim() === '*') return undefined;
+
+    const revision = Number(header.trim().replace(/^W\//, '').replace(/"/g, ''));
+    if (!Number.isInteger(revision)) {
+        throw new BadRequestException('Invalid If-Match header');
+    }
+    return revision;
+}
+
 @ApiTags('notes')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 @Controller('notes')
 export class NotesController {
-    constructor(private readonly notesService: NotesService) { }
+    constructor(
+        private readonly notesService: NotesService,
+        private readonly relatedNotesService: RelatedNotesService,
+        private readonly dailyNotesService: DailyNotesService,
+        private readonly trashService: TrashService,
+    ) { }
 
     @Get()
     @ApiOperation({ summary: 'Get all notes for current user' })
@@ -57,6 +92,12 @@ export class NotesController {
         return { success: true, count: body.noteIds.length };
     }
 
+    @Post('bulk/restore')
+    @ApiOperation({ summary: 'Restore multiple notes from the trash' })
+    async bulkRestore(@CurrentUser() user: User, @Body() dto: BulkRestoreNotesDto) {
+        return this.notesService.bulkRestore(user.id, dto);
+    }
+
     @Delete('bulk')
     @ApiOperation({ summary: 'Delete multiple notes permanently' })
     async bulkDelete(@CurrentUser() user: User, @Body() body: { noteIds: string[] }) {
@@ -64,21 +105,94 @@ export class NotesController {
         return { success: true, count: body.noteIds.length };
     }
 
+    @Get('trash/settings')
+    @ApiOperation({ summary: 'Get how long trashed notes are kept' })
+    async getTrashSettings(@CurrentUser() user: User) {
+        return this.trashService.getSettings(user.id);
+    }
+
+    @Patch('trash/settings')
+    @ApiOperation({ summary: 'Set how long trashed notes are kept before they are deleted' })
+    async updateTrashSettings(@CurrentUser() user: User, @Body() dto: TrashSettingsDto) {
+        return this.trashService.updateSettings(user.id, dto);
+    }
+
+    @Get('daily')
+    @ApiOperation({ summary: 'List the days with a daily note in a date range' })
+    @ApiQuery({ name: 'from', description: 'YYYY-MM-DD' })
+    @ApiQuery({ name: 'to', description: 'YYYY-MM-DD' })
+    async findDailyRange(
+        @CurrentUser() user: User,
+        @Query('from') from: string,
+        @Query('to') to: string,
+    ) {
+        return this.dailyNotesService.findRange(user.id, from ?? '', to ?? '');
+    }
+
+    @Get('daily/settings')
+    @ApiOperation({ summary: 'Get the journal notebook and template for daily notes' })
+    async getDailySettings(@CurrentUser() user: User) {
+        return this.dailyNotesService.getSettings(user.id);
+    }
+
+    @Patch('daily/settings')
+    @ApiOperation({ summary: 'Set the journal notebook and template for daily notes' })
+    async updateDailySettings(@CurrentUser() user: User, @Body() dto: DailyNoteSettingsDto) {
+        return this.dailyNotesService.updateSettings(user.id, dto);
+    }
+
+    @Get('daily/:date')
+    @ApiOperation({ summary: 'Get the daily note for a date (YYYY-MM-DD), creating it if needed' })
+    async findOrCreateDaily(
+        @CurrentUser() user: User,
+        @Param('date') date: string,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const note = await this.dailyNotesService.findOrCreate(user.id, date);
+        res.setHeader('ETag', toETag(note.revision));
+        return note;
+    }
+
     // Dynamic :id routes come after static routes
     @Get(':id')
     @ApiOperation({ summary: 'Get a note by ID' })
-    async findById(@CurrentUser() user: User, @Param('id') id: string) {
-        return this.notesService.findById(id, user.id);
+    async findById(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const note = await this.notesService.findById(id, user.id);
+        res.setHeader('ETag', toETag(note.revision));
+        return note;
     }
 
     @Patch(':id')
     @ApiOperation({ summary: 'Update a note' })
+    @ApiHeader({ name: 'If-Match', required: false, description: 'ETag (revision) the changes are based on' })
+    @ApiResponse({ status: 409, description: 'Note was modified since that revision; body contains the current note' })
     async update(
         @CurrentUser() user: User,
         @Param('id') id: string,
         @Body() dto: UpdateNoteDto,
+        @Res({ passthrough: true }) res: Response,
+        @Headers('if-match') ifMatch?: string,
     ) {
-        return this.notesService.update(id, user.id, dto);
+        const note = await this.notesService.update(id, user.id, dto, parseIfMatch(ifMatch));
+        res.setHeader('ETag', toETag(note.revision));
+        return note;
+    }
+
+    @Post(':id/restore')
+    @ApiOperation({ summary: 'Restore a note from the trash into its original notebook' })
+    async restore(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Body() dto: RestoreNoteDto,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const note = await this.notesService.restore(id, user.id, dto);
+        res.setHeader('ETag', toETag(note.revision));
+        return note;
     }
 
     @Delete(':id')
@@ -88,10 +202,53 @@ export class NotesController {
         return { success: true };
     }
 
+    @Get(':id/related')
+    @ApiOperation({ summary: 'Get the notes most similar in content to a note' })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    async getRelated(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.relatedNotesService.findRelated(id, user.id, Math.min(Math.max(parseInt(limit || '5', 10) || 5, 1), 20));
+    }
+
+    @Get(':id/backlinks')
+    @ApiOperation({ summary: 'Get the notes linking to a note' })
+    async getBacklinks(@CurrentUser() user: User, @Param('id') id: string) {
+        return this.notesService.getBacklinks(id, user.id);
+    }
+
     @Get(':id/versions')
     @ApiOperation({ summary: 'Get version history for a note' })
-    async getVersions(@CurrentUser() user: User, @Param('id') id: string) {
-        return this.notesService.getVersions(id, user.id);
+    @ApiQuery({ name: 'named', required: false, type: Boolean, description: 'Only named checkpoints' })
+    async getVersions(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Query('named') named?: string,
+    ) {
+        return this.notesService.getVersions(id, user.id, named === 'true');
+    }
+
+    @Post(':id/versions')
+    @ApiOperation({ summary: 'Create a named checkpoint of the current note' })
+    async createVersion(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Body() dto: CreateVersionDto,
+    ) {
+        return this.notesService.createNamedVersion(id, user.id, dto);
+    }
+
+    @Get(':id/versions/:from/diff/:to')
+    @ApiOperation({ summary: 'Compare two versions of a note ("current" for the live note)' })
+    async diffVersions(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Param('from') from: string,
+        @Param('to') to: string,
+    ) {
+        return this.notesService.diffVersions(id, from, to, user.id);
     }
 
     @Post(':id/versions/:versionId/restore')
@@ -1,11 +1,18 @@
 import { Module } from '@nestjs/common';
 import { NotesService } from './notes.service';
 import { NotesController } from './notes.controller';
+import { VersionRetentionService } from './version-retention.service';
+import { RelatedNotesService } from './related-notes.service';
+import { DailyNotesService } from './daily-notes.service';
+import { TrashService } from './trash.service';
 import { SearchModule } from '../search/search.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { StorageModule } from '../storage/storage.module';
+import { RemindersModule } from '../reminders/reminders.module';
 
 @Module({
-    imports: [SearchModule],
-    providers: [NotesService],
+    imports: [SearchModule, TemplatesModule, StorageModule, RemindersModule],
+    providers: [NotesService, VersionRetentionService, RelatedNotesService, DailyNotesService, TrashService],
     controllers: [NotesController],
     exports: [NotesService],
 })
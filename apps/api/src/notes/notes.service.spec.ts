@@ -0,0 +1,135 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReminderSchedulerService } from '../reminders/reminder-scheduler.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { TemplatesService } from '../templates/templates.service';
+import { NotesService } from './notes.service';
+
+const doc = (text: string) => ({ type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] });
+
+describe('NotesService', () => {
+    let note: Record<string, any>;
+    let prisma: Record<string, any>;
+    let notes: NotesService;
+    let reminderScheduler: { reschedule: jest.Mock };
+
+    const conflictOf = async (promise: Promise<unknown>) => {
+        const error = await promise.then(
+            () => null,
+            (caught: unknown) => caught,
+        );
+        expect(error).toBeInstanceOf(ConflictException);
+        return (error as ConflictException).getResponse();
+    };
+
+    beforeEach(() => {
+        note = {
+            id: 'note',
+            authorId: 'author',
+            title: 'Plan',
+            content: doc('draft'),
+            revision: 3,
+            isPinned: false,
+            isTrashed: false,
+            shares: [],
+        };
+
+        prisma = {
+            note: {
+                findUnique: jest.fn(async () => ({ ...note })),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    if (where.revision !== undefined && where.revision !== note.revision) return { count: 0 };
+                    const { revision, ...changes } = data;
+                    Object.assign(note, Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)));
+                    if (revision) note.revision += revision.increment;
+                    return { count: 1 };
+                }),
+                update: jest.fn(async ({ data }) => {
+                    const { revision, ...changes } = data;
+                    Object.assign(note, changes);
+                    if (revision) note.revision += revision.increment;
+                    return { ...note };
+                }),
+                findMany: jest.fn(async () => []),
+            },
+            noteLink: { deleteMany: jest.fn(), createMany: jest.fn() },
+            noteVersion: {
+                findFirst: jest.fn(async () => null),
+                findUnique: jest.fn(async () => ({ id: 'v1', noteId: 'note', title: 'Old plan', content: doc('old') })),
+                create: jest.fn(),
+            },
+        };
+        prisma.$transaction = jest.fn((run) => run(prisma));
+        reminderScheduler = { reschedule: jest.fn() };
+
+        notes = new NotesService(
+            prisma as unknown as PrismaService,
+            { enqueue: jest.fn() } as unknown as SearchOutboxService,
+            {} as TemplatesService,
+            reminderScheduler as unknown as ReminderSchedulerService,
+            new ConfigService({}),
+        );
+    });
+
+    it('saves against the current revision and bumps it', async () => {
+        const saved = await notes.update('note', 'author', { content: doc('final') }, 3);
+
+        expect(prisma.note.updateMany).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { id: 'note', revision: 3 } }),
+        );
+        expect(saved.revision).toBe(4);
+    });
+
+    it('rejects a save based on an old revision with the server copy', async () => {
+        const response = await conflictOf(notes.update('note', 'author', { content: doc('mine') }, 2));
+
+        expect(response).toMatchObject({ statusCode: 409, note: { revision: 3, content: doc('draft') } });
+        expect(prisma.note.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a save when another one lands between the read and the write', async () => {
+        prisma.note.updateMany.mockImplementationOnce(async () => {
+            note.revision = 4;
+            return { count: 0 };
+        });
+
+        const response = await conflictOf(notes.update('note', 'author', { content: doc('mine') }, 3));
+
+        expect(response).toMatchObject({ note: { revision: 4 } });
+    });
+
+    it('leaves the revision alone for metadata-only changes', async () => {
+        await notes.update('note', 'author', { isPinned: true }, 3);
+
+        expect(note.revision).toBe(3);
+        await expect(notes.update('note', 'author', { title: 'Renamed' }, 3)).resolves.toMatchObject({ revision: 4 });
+    });
+
+    it('does not count collaboration syncs as conflicting revisions', async () => {
+        await notes.applyCollaborativeContent('note', doc('typed elsewhere'), 'typed elsewhere');
+
+        expect(note).toMatchObject({ content: doc('typed elsewhere'), revision: 3 });
+        await expect(notes.update('note', 'author', { title: 'Plan B' }, 3)).resolves.toMatchObject({ revision: 4 });
+    });
+
+    it('returns the new revision after restoring a version, so the editor can save on top of it', async () => {
+        const restored = await notes.restoreVersion('note', 'v1', 'author');
+
+        expect(restored).toMatchObject({ title: 'Old plan', content: doc('old'), revision: 4 });
+        await expect(notes.update('note', 'author', { content: doc('after') }, 3)).rejects.toThrow(ConflictException);
+        await expect(notes.update('note', 'author', { content: doc('after') }, restored.revision)).resolves.toBeDefined();
+    });
+
+    it('puts the reminder of a note back in the schedule when it leaves the trash', async () => {
+        note.isTrashed = true;
+        const restoreNote = jest.spyOn(notes as any, 'restoreNote').mockImplementation(async () => {
+            note.isTrashed = false;
+        });
+
+        await notes.restore('note', 'author', {});
+
+        expect(restoreNote).toHaveBeenCalled();
+        expect(reminderScheduler.reschedule).toHaveBeenCalledWith(['note']);
+    });
+});
@@ -2,18 +2,49 @@ import {
     Injectable,
     NotFoundException,
     ForbiddenException,
+    ConflictException,
+    BadRequestException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isDeepStrictEqual } from 'util';
 import { PrismaService } from '../prisma/prisma.service';
-import { SearchService } from '../search/search.service';
-import { Note, SharePermission } from '@evernote-clone/database';
-import { CreateNoteDto, UpdateNoteDto } from './dto/notes.dto';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { TemplatesService } from '../templates/templates.service';
+import { attachmentSelect } from '../storage/storage.service';
+import { ReminderSchedulerService } from '../reminders/reminder-scheduler.service';
+import { Note, Prisma, SharePermission } from '@evernote-clone/database';
+import { BulkRestoreNotesDto, CreateNoteDto, CreateVersionDto, RestoreNoteDto, UpdateNoteDto } from './dto/notes.dto';
+import { diffDocuments } from './tiptap-diff';
+import { noteLinkTargets, tiptapToPlainText, TiptapNode } from './tiptap.utils';
+
+// Where a note was when it went to the trash, so restoring can put it back
+export type TrashOrigin = {
+    // parentId and stack are missing from origins recorded before nested notebooks
+    notebook: {
+        id: string;
+        name: string;
+        color: string | null;
+        parentId?: string | null;
+        stack?: string | null;
+    } | null;
+    tags: { id: string; name: string; color: string | null }[];
+};
 
 @Injectable()
 export class NotesService {
+    // Edits within this window of the latest version share a single snapshot
+    private readonly versionCoalesceMs: number;
+
     constructor(
         private readonly prisma: PrismaService,
-        private readonly searchService: SearchService,
-    ) { }
+        private readonly searchOutbox: SearchOutboxService,
+        private readonly templatesService: TemplatesService,
+        private readonly reminderScheduler: ReminderSchedulerService,
+        configService: ConfigService,
+    ) {
+        this.versionCoalesceMs =
+            parseInt(configService.get<string>('VERSION_COALESCE_MINUTES') || '10', 10) * 60 * 1000;
+    }
 
     async findAll(userId: string, options?: { notebookId?: string; tagId?: string; trashed?: boolean }) {
         const where: any = {
@@ -51,7 +82,7 @@ export class NotesService {
                 notebook: true,
                 tags: { include: { tag: true } },
                 author: { select: { id: true, name: true, avatar: true } },
-                attachments: true,
+                attachments: { select: attachmentSelect },
                 shares: { include: { user: { select: { id: true, name: true, email: true, avatar: true } } } },
             },
         });
@@ -66,83 +97,143 @@ export class NotesService {
         return note;
     }
 
-    async create(userId: string, dto: CreateNoteDto): Promise<Note> {
-        const note = await this.prisma.note.create({
-            data: {
-                title: dto.title || 'Untitled',
-                content: dto.content,
-                authorId: userId,
-                notebookId: dto.notebookId,
-                tags: dto.tagIds?.length
-                    ? { create: dto.tagIds.map((tagId) => ({ tagId })) }
-                    : undefined,
-            },
-            include: {
-                notebook: true,
-                tags: { include: { tag: true } },
-            },
-        });
+    async create(userId: string, dto: CreateNoteDto, options: { dailyDate?: string } = {}): Promise<Note> {
+        if (dto.templateId) {
+            // An explicit title still wins over the template's
+            const rendered = await this.templatesService.render(dto.templateId, userId, {
+                title: dto.title,
+                localDate: dto.localDate,
+            });
+            dto = { ...dto, title: dto.title || rendered.title, content: rendered.content };
+        }
 
-        // Index for search
-        await this.searchService.indexNote(note);
+        return this.prisma.$transaction(async (tx) => {
+            const note = await tx.note.create({
+                data: {
+                    title: dto.title || 'Untitled',
+                    content: dto.content,
+                    plainText: dto.templateId ? tiptapToPlainText(dto.content) : undefined,
+                    dailyDate: options.dailyDate,
+                    authorId: userId,
+                    notebookId: dto.notebookId,
+                    tags: dto.tagIds?.length
+                        ? { create: dto.tagIds.map((tagId) => ({ tagId })) }
+                        : undefined,
+                },
+                include: {
+                    notebook: true,
+                    tags: { include: { tag: true } },
+                },
+            });
 
-        return note;
+            await this.syncLinks(note.id, userId, dto.content, tx);
+
+            // Index for search
+            await this.searchOutbox.enqueue([note.id], tx);
+
+            return note;
+        });
     }
 
     async bulkCreate(userId: string, notes: CreateNoteDto[]): Promise<Note[]> {
         // Create all notes in a transaction for better performance
-        const createdNotes = await this.prisma.$transaction(
-            notes.map((dto) =>
-                this.prisma.note.create({
-                    data: {
-                        title: dto.title || 'Untitled',
-                        content: dto.content,
-                        authorId: userId,
-                        notebookId: dto.notebookId,
-                        tags: dto.tagIds?.length
-                            ? { create: dto.tagIds.map((tagId) => ({ tagId })) }
-                            : undefined,
-                    },
-                    include: {
-                        notebook: true,
-                        tags: { include: { tag: true } },
-                    },
-                })
-            )
-        );
-
-        // Index all notes for search (in parallel for speed)
-        await Promise.all(createdNotes.map((note) => this.searchService.indexNote(note)));
-
-        return createdNotes;
+        return this.prisma.$transaction(async (tx) => {
+            const createdNotes: Note[] = [];
+            for (const dto of notes) {
+                createdNotes.push(
+                    await tx.note.create({
+                        data: {
+                            title: dto.title || 'Untitled',
+                            content: dto.content,
+                            authorId: userId,
+                            notebookId: dto.notebookId,
+                            tags: dto.tagIds?.length
+                                ? { create: dto.tagIds.map((tagId) => ({ tagId })) }
+                                : undefined,
+                        },
+                        include: {
+                            notebook: true,
+                            tags: { include: { tag: true } },
+                        },
+                    }),
+                );
+            }
+
+            for (const [index, note] of createdNotes.entries()) {
+                await this.syncLinks(note.id, userId, notes[index].content, tx);
+            }
+
+            // Index all notes for search
+            await this.searchOutbox.enqueue(createdNotes.map((note) => note.id), tx);
+
+            return createdNotes;
+        });
     }
 
-    async update(id: string, userId: string, dto: UpdateNoteDto): Promise<Note> {
+    /**
+     * Update a note. When `expectedRevision` is given (If-Match), the write only
+     * succeeds if nobody else updated the note since that revision.
+     */
+    async update(id: string, userId: string, dto: UpdateNoteDto, expectedRevision?: number): Promise<Note> {
         const note = await this.findById(id, userId);
         await this.checkAccess(note, userId, 'WRITE');
 
-        // Create version snapshot before update
-        if (note.content) {
-            await this.prisma.noteVersion.create({
+        if (expectedRevision !== undefined && note.revision !== expectedRevision) {
+            throw this.revisionConflict(note);
+        }
+
+        const trashChanged = dto.isTrashed !== undefined && dto.isTrashed !== note.isTrashed;
+        // Pinning, moving or trashing leaves the revision alone, so an open editor's If-Match stays valid
+        const contentChanged = dto.title !== undefined || dto.content !== undefined;
+
+        // Conditional write, so a concurrent update between the read and here is caught too
+        const count = await this.prisma.$transaction(async (tx) => {
+            const origins = trashChanged && dto.isTrashed ? await this.trashOrigins({ id }, tx) : null;
+
+            const result = await tx.note.updateMany({
+                where: {
+                    id,
+                    ...(expectedRevision !== undefined && { revision: expectedRevision }),
+                },
                 data: {
-                    noteId: id,
-                    title: note.title,
-                    content: note.content,
+                    title: dto.title,
+                    content: dto.content,
+                    plainText: dto.plainText,
+                    notebookId: dto.notebookId,
+                    isPinned: dto.isPinned,
+                    isTrashed: dto.isTrashed,
+                    // Only moving in or out of the trash restarts the retention clock
+                    ...(trashChanged && {
+                        trashedAt: dto.isTrashed ? new Date() : null,
+                        trashOrigin: origins?.get(id) ?? Prisma.DbNull,
+                    }),
+                    ...(contentChanged && { revision: { increment: 1 } }),
                 },
             });
+
+            if (result.count > 0) {
+                if (dto.content !== undefined) await this.syncLinks(id, note.authorId, dto.content, tx);
+
+                // Update search index
+                await this.searchOutbox.enqueue([id], tx);
+            }
+
+            return result.count;
+        });
+
+        if (count === 0) {
+            throw this.revisionConflict(await this.findById(id, userId));
         }
 
-        const updated = await this.prisma.note.update({
+        if (trashChanged && !dto.isTrashed) {
+            await this.reminderScheduler.reschedule([id]);
+        }
+
+        // Create version snapshot of the previous state
+        await this.snapshotVersion(note, dto);
+
+        const updated = await this.prisma.note.findUnique({
             where: { id },
-            data: {
-                title: dto.title,
-                content: dto.content,
-                plainText: dto.plainText,
-                notebookId: dto.notebookId,
-                isPinned: dto.isPinned,
-                isTrashed: dto.isTrashed,
-                trashedAt: dto.isTrashed ? new Date() : null,
-            },
             include: {
                 notebook: true,
                 tags: { include: { tag: true } },
@@ -150,12 +241,48 @@ export class NotesService {
             },
         });
 
-        // Update search index
-        await this.searchService.indexNote(updated);
-
         return updated;
     }
 
+    /**
+     * Content synced from the collaboration server (access was checked when
+     * clients connected). The revision is left alone: a background sync is
+     * not a conflicting edit for an editor saving through the API.
+     */
+    async applyCollaborativeContent(id: string, content: any, plainText: string): Promise<Note | null> {
+        const note = await this.prisma.note.findUnique({ where: { id } });
+
+        if (!note) {
+            return null;
+        }
+
+        // Key order is not preserved by the JSON column, so compare structurally
+        if (isDeepStrictEqual(note.content, content)) {
+            return note;
+        }
+
+        // Create version snapshot before update
+        await this.snapshotVersion(note, { content });
+
+        return this.prisma.$transaction(async (tx) => {
+            const updated = await tx.note.update({
+                where: { id },
+                data: { content, plainText },
+                include: {
+                    notebook: true,
+                    tags: { include: { tag: true } },
+                },
+            });
+
+            await this.syncLinks(id, note.authorId, content, tx);
+
+            // Update search index
+            await this.searchOutbox.enqueue([id], tx);
+
+            return updated;
+        });
+    }
+
     async delete(id: string, userId: string): Promise<void> {
         const note = await this.findById(id, userId);
 
@@ -164,47 +291,194 @@ export class NotesService {
             throw new ForbiddenException('Only the author can delete this note');
         }
 
-        await this.prisma.note.delete({ where: { id } });
-        await this.searchService.deleteNote(id);
+        await this.prisma.$transaction(async (tx) => {
+            await tx.note.delete({ where: { id } });
+            await this.searchOutbox.enqueue([id], tx);
+        });
     }
 
     async bulkTrash(userId: string, noteIds: string[]): Promise<void> {
-        // Update all notes owned by user to trashed
-        await this.prisma.note.updateMany({
+        await this.prisma.$transaction(async (tx) => {
+            // Notes owned by user; already trashed ones keep their trashedAt and origin
+            const origins = await this.trashOrigins({ id: { in: noteIds }, authorId: userId, isTrashed: false }, tx);
+            const trashedAt = new Date();
+
+            for (const [id, origin] of origins) {
+                await tx.note.update({
+                    where: { id },
+                    data: {
+                        isTrashed: true,
+                        trashedAt,
+                        trashOrigin: origin,
+                    },
+                });
+            }
+
+            await this.searchOutbox.enqueue(noteIds, tx);
+        });
+    }
+
+    /**
+     * Take a note out of the trash, back into its notebook and with its tags.
+     * A tag deleted meanwhile is recreated; so is the notebook, unless the
+     * caller picked another destination for that case.
+     */
+    async restore(id: string, userId: string, dto: RestoreNoteDto): Promise<Note> {
+        const note = await this.findById(id, userId);
+        await this.checkAccess(note, userId, 'WRITE');
+
+        if (note.isTrashed) {
+            await this.prisma.$transaction((tx) => this.restoreNote(note, dto.notebookId, tx));
+            await this.reminderScheduler.reschedule([id]);
+        }
+
+        return this.findById(id, userId);
+    }
+
+    // Same rule as restore(): the author and collaborators with write access
+    async bulkRestore(userId: string, dto: BulkRestoreNotesDto): Promise<Note[]> {
+        const notes = await this.prisma.note.findMany({
             where: {
-                id: { in: noteIds },
-                authorId: userId,
-            },
-            data: {
+                id: { in: dto.noteIds },
                 isTrashed: true,
-                trashedAt: new Date(),
+                OR: [
+                    { authorId: userId },
+                    { shares: { some: { userId, permission: { in: ['WRITE', 'ADMIN'] } } } },
+                ],
+            },
+        });
+
+        // One transaction, so notes sharing a deleted notebook get the same recreated one
+        await this.prisma.$transaction(async (tx) => {
+            for (const note of notes) {
+                await this.restoreNote(note, dto.notebookId, tx);
+            }
+        });
+        await this.reminderScheduler.reschedule(notes.map((note) => note.id));
+
+        return this.prisma.note.findMany({
+            where: { id: { in: notes.map((note) => note.id) } },
+            include: {
+                notebook: true,
+                tags: { include: { tag: true } },
             },
         });
     }
 
     async bulkDelete(userId: string, noteIds: string[]): Promise<void> {
-        // Delete all notes owned by user
-        const deleted = await this.prisma.note.deleteMany({
+        await this.prisma.$transaction(async (tx) => {
+            // Delete all notes owned by user
+            await tx.note.deleteMany({
+                where: {
+                    id: { in: noteIds },
+                    authorId: userId,
+                },
+            });
+
+            // Remove from search index
+            await this.searchOutbox.enqueue(noteIds, tx);
+        });
+    }
+
+    // Notes linking to this one that the user can see, most recently edited first
+    async getBacklinks(id: string, userId: string) {
+        await this.findById(id, userId);
+
+        const links = await this.prisma.noteLink.findMany({
             where: {
-                id: { in: noteIds },
-                authorId: userId,
+                targetId: id,
+                source: {
+                    isTrashed: false,
+                    OR: [
+                        { authorId: userId },
+                        { shares: { some: { userId } } },
+                    ],
+                },
+            },
+            include: {
+                source: {
+                    select: {
+                        id: true,
+                        title: true,
+                        plainText: true,
+                        updatedAt: true,
+                        notebook: { select: { id: true, name: true, color: true } },
+                    },
+                },
             },
         });
 
-        // Remove from search index
-        await Promise.all(noteIds.map((id) => this.searchService.deleteNote(id)));
+        return links
+            .map(({ source }) => ({ ...source, plainText: source.plainText?.slice(0, 200) ?? null }))
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
     }
 
-    async getVersions(id: string, userId: string) {
+    async getVersions(id: string, userId: string, namedOnly = false) {
         await this.findById(id, userId); // Check access
 
         return this.prisma.noteVersion.findMany({
-            where: { noteId: id },
+            where: { noteId: id, ...(namedOnly && { label: { not: null } }) },
+            include: {
+                author: { select: { id: true, name: true, email: true } },
+            },
             orderBy: { createdAt: 'desc' },
             take: 50,
         });
     }
 
+    /**
+     * Save the current state of a note as a named checkpoint. Named versions
+     * are kept forever, regardless of the retention policy.
+     */
+    async createNamedVersion(noteId: string, userId: string, dto: CreateVersionDto) {
+        const note = await this.findById(noteId, userId);
+        await this.checkAccess(note, userId, 'WRITE');
+
+        return this.prisma.noteVersion.create({
+            data: {
+                noteId,
+                title: note.title,
+                content: note.content ?? { type: 'doc', content: [] },
+                label: dto.label.trim(),
+                description: dto.description?.trim() || null,
+                authorId: userId,
+            },
+            include: {
+                author: { select: { id: true, name: true, email: true } },
+            },
+        });
+    }
+
+    /**
+     * Compare two versions of a note (`current` stands for the live note),
+     * from `fromId` to `toId`.
+     */
+    async diffVersions(noteId: string, fromId: string, toId: string, userId: string) {
+        const note = await this.findById(noteId, userId);
+
+        const load = async (versionId: string) => {
+            if (versionId === 'current') {
+                return { id: 'current', title: note.title, content: note.content, createdAt: note.updatedAt };
+            }
+
+            const version = await this.prisma.noteVersion.findUnique({ where: { id: versionId } });
+            if (!version || version.noteId !== noteId) {
+                throw new NotFoundException('Version not found');
+            }
+            return version;
+        };
+
+        const [from, to] = await Promise.all([load(fromId), load(toId)]);
+        const diff = diffDocuments(from.content as any, to.content as any);
+
+        return {
+            from: { id: from.id, title: from.title, createdAt: from.createdAt },
+            to: { id: to.id, title: to.title, createdAt: to.createdAt },
+            titleChanged: from.title !== to.title,
+            ...diff,
+        };
+    }
+
     async restoreVersion(noteId: string, versionId: string, userId: string) {
         const note = await this.findById(noteId, userId);
         await this.checkAccess(note, userId, 'WRITE');
@@ -217,6 +491,9 @@ export class NotesService {
             throw new NotFoundException('Version not found');
         }
 
+        // Always keep the state being replaced, so a restore can be undone
+        await this.createVersion(note);
+
         return this.update(noteId, userId, {
             title: version.title,
             content: version.content,
@@ -227,16 +504,196 @@ export class NotesService {
         const note = await this.findById(id, userId);
         await this.checkAccess(note, userId, 'WRITE');
 
-        // Remove all existing tags and add new ones
-        await this.prisma.noteTag.deleteMany({ where: { noteId: id } });
+        await this.prisma.$transaction(async (tx) => {
+            // Remove all existing tags and add new ones
+            await tx.noteTag.deleteMany({ where: { noteId: id } });
+
+            if (tagIds.length > 0) {
+                await tx.noteTag.createMany({
+                    data: tagIds.map((tagId) => ({ noteId: id, tagId })),
+                });
+            }
+
+            await this.searchOutbox.enqueue([id], tx);
+        });
 
-        if (tagIds.length > 0) {
-            await this.prisma.noteTag.createMany({
-                data: tagIds.map((tagId) => ({ noteId: id, tagId })),
+        return this.findById(id, userId);
+    }
+
+    private async trashOrigins(
+        where: Prisma.NoteWhereInput,
+        client: Prisma.TransactionClient,
+    ): Promise<Map<string, TrashOrigin>> {
+        const notes = await client.note.findMany({
+            where,
+            select: {
+                id: true,
+                notebook: { select: { id: true, name: true, color: true, parentId: true, stack: true } },
+                tags: { select: { tag: { select: { id: true, name: true, color: true } } } },
+            },
+        });
+
+        return new Map(notes.map((note) => [note.id, { notebook: note.notebook, tags: note.tags.map(({ tag }) => tag) }]));
+    }
+
+    private async restoreNote(note: Note, fallbackNotebookId: string | undefined, tx: Prisma.TransactionClient) {
+        // Notes trashed before origins were recorded stay where they are
+        const origin = note.trashOrigin as TrashOrigin | null;
+
+        const notebookId = origin?.notebook
+            ? await this.restoreNotebook(note.authorId, origin.notebook, fallbackNotebookId, tx)
+            : note.notebookId;
+
+        if (origin?.tags.length) {
+            const tagIds: string[] = [];
+            for (const tag of origin.tags) {
+                const existing = await tx.tag.findFirst({ where: { id: tag.id, userId: note.authorId } });
+                const restored = existing ?? await tx.tag.upsert({
+                    where: { userId_name: { userId: note.authorId, name: tag.name } },
+                    create: { name: tag.name, color: tag.color, userId: note.authorId },
+                    update: {},
+                });
+                tagIds.push(restored.id);
+            }
+
+            await tx.noteTag.createMany({
+                data: tagIds.map((tagId) => ({ noteId: note.id, tagId })),
+                skipDuplicates: true,
             });
         }
 
-        return this.findById(id, userId);
+        await tx.note.update({
+            where: { id: note.id },
+            data: {
+                isTrashed: false,
+                trashedAt: null,
+                trashOrigin: Prisma.DbNull,
+                notebookId,
+            },
+        });
+
+        await this.searchOutbox.enqueue([note.id], tx);
+    }
+
+    /**
+     * The original notebook, else the chosen destination, else one of the
+     * same name, else one recreated where the original was in the tree.
+     */
+    private async restoreNotebook(
+        ownerId: string,
+        original: NonNullable<TrashOrigin['notebook']>,
+        fallbackNotebookId: string | undefined,
+        tx: Prisma.TransactionClient,
+    ): Promise<string> {
+        const existing = await tx.notebook.findFirst({ where: { id: original.id, ownerId } });
+        if (existing) return existing.id;
+
+        if (fallbackNotebookId) {
+            const fallback = await tx.notebook.findFirst({ where: { id: fallbackNotebookId, ownerId } });
+            if (!fallback) {
+                throw new BadRequestException('Notebook not found');
+            }
+            return fallback.id;
+        }
+
+        const sameName = await tx.notebook.findUnique({ where: { ownerId_name: { ownerId, name: original.name } } });
+        if (sameName) return sameName.id;
+
+        // Under its parent if that still exists, else at the top level; only top-level notebooks are stacked
+        const parent = original.parentId
+            ? await tx.notebook.findFirst({ where: { id: original.parentId, ownerId } })
+            : null;
+        const parentId = parent?.id ?? null;
+        const stack = parentId ? null : original.stack ?? null;
+
+        const recreated = await tx.notebook.create({
+            data: {
+                name: original.name,
+                color: original.color ?? undefined,
+                ownerId,
+                parentId,
+                stack,
+                position: await tx.notebook.count({ where: { ownerId, parentId, ...(!parentId && { stack }) } }),
+            },
+        });
+        return recreated.id;
+    }
+
+    /**
+     * Replace the note's outgoing links with the [[links]] in its content.
+     * Links point at note ids, so renaming the target keeps them intact;
+     * ids of notes that don't exist (anymore) or that the note's author
+     * cannot read are dropped.
+     */
+    private async syncLinks(
+        noteId: string,
+        authorId: string,
+        content: unknown,
+        tx: Prisma.TransactionClient,
+    ): Promise<void> {
+        const targetIds = noteLinkTargets(content as TiptapNode).filter((targetId) => targetId !== noteId);
+
+        await tx.noteLink.deleteMany({ where: { sourceId: noteId } });
+        if (targetIds.length === 0) return;
+
+        const targets = await tx.note.findMany({
+            where: {
+                id: { in: targetIds },
+                OR: [
+                    { authorId },
+                    { shares: { some: { userId: authorId } } },
+                ],
+            },
+            select: { id: true },
+        });
+
+        await tx.noteLink.createMany({
+            data: targets.map((target) => ({ sourceId: noteId, targetId: target.id })),
+            skipDuplicates: true,
+        });
+    }
+
+    /**
+     * Snapshot the state before an edit. Metadata-only changes (pin, trash,
+     * notebook) are skipped, and edits are coalesced so an editing session
+     * produces one version instead of one per autosave.
+     */
+    private async snapshotVersion(note: Note, changes: { title?: string; content?: any }): Promise<void> {
+        const titleChanged = changes.title !== undefined && changes.title !== note.title;
+        const contentChanged = changes.content !== undefined && !isDeepStrictEqual(changes.content, note.content);
+        if (!titleChanged && !contentChanged) return;
+
+        const latest = await this.prisma.noteVersion.findFirst({
+            where: { noteId: note.id },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+
+        if (latest && Date.now() - latest.createdAt.getTime() < this.versionCoalesceMs) return;
+
+        await this.createVersion(note);
+    }
+
+    private async createVersion(note: Note): Promise<void> {
+        if (!note.content) return;
+
+        await this.prisma.noteVersion.create({
+            data: {
+                noteId: note.id,
+                title: note.title,
+                content: note.content,
+            },
+        });
+    }
+
+    // 409 carrying the current server copy, so the client can resolve the conflict
+    private revisionConflict(current: Note): ConflictException {
+        return new ConflictException({
+            statusCode: 409,
+            error: 'Conflict',
+            message: 'Note was modified since it was loaded',
+            note: current,
+        });
     }
 
     private async checkAccess(
@@ -0,0 +1,181 @@
+import { Inject, Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import { PrismaService } from '../prisma/prisma.service';
+import { REDIS_CLIENT } from '../redis/redis.module';
+import { cosineSimilarity, tfidfVectors } from './related-notes';
+
+// Boost for sharing tags (scaled by their overlap) and for being in the same notebook
+const TAG_WEIGHT = 0.5;
+const NOTEBOOK_WEIGHT = 0.2;
+// Below this the notes only share a word or two
+const MIN_SIMILARITY = 0.05;
+const SNIPPET_LENGTH = 160;
+
+export interface RelatedNote {
+    id: string;
+    title: string;
+    snippet: string;
+    notebookId: string | null;
+    updatedAt: Date;
+    score: number;
+}
+
+/**
+ * "Related notes" for the editor: the user's notes most similar in content
+ * to a given note, ranked higher when they share its tags or notebook.
+ *
+ * Results are cached per note state (revision, notebook and tags), so any
+ * change to the note recomputes them; changes to other notes show up when
+ * the entry expires after RELATED_NOTES_CACHE_TTL seconds. Access is
+ * re-checked on every read, so a revoked share drops out right away.
+ */
+@Injectable()
+export class RelatedNotesService {
+    private readonly cacheTtl: number;
+    private readonly maxCandidates: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    ) {
+        this.cacheTtl = parseInt(configService.get<string>('RELATED_NOTES_CACHE_TTL') || '3600', 10);
+        this.maxCandidates = parseInt(configService.get<string>('RELATED_NOTES_MAX_CANDIDATES') || '2000', 10);
+    }
+
+    async findRelated(noteId: string, userId: string, limit = 5): Promise<RelatedNote[]> {
+        const note = await this.prisma.note.findUnique({
+            where: { id: noteId },
+            select: {
+                id: true,
+                title: true,
+                plainText: true,
+                notebookId: true,
+                revision: true,
+                authorId: true,
+                shares: { select: { userId: true } },
+                tags: { select: { tagId: true } },
+            },
+        });
+
+        if (!note) {
+            throw new NotFoundException('Note not found');
+        }
+        if (note.authorId !== userId && !note.shares.some((s) => s.userId === userId)) {
+            throw new ForbiddenException('You do not have access to this note');
+        }
+
+        const tagIds = note.tags.map((t) => t.tagId).sort();
+        const cacheKey = this.cacheKey(userId, note.id, `${note.revision}:${note.notebookId}:${tagIds.join(',')}`);
+
+        const cached = await this.readCache(cacheKey);
+        if (cached) {
+            return (await this.stillVisible(cached, userId)).slice(0, limit);
+        }
+
+        const related = await this.compute({ ...note, tagIds }, userId);
+        await this.writeCache(cacheKey, related);
+
+        return related.slice(0, limit);
+    }
+
+    // Cached results minus notes unshared, trashed or deleted since they were computed
+    private async stillVisible(related: RelatedNote[], userId: string): Promise<RelatedNote[]> {
+        if (related.length === 0) return related;
+
+        const visible = await this.prisma.note.findMany({
+            where: {
+                id: { in: related.map((r) => r.id) },
+                OR: [{ authorId: userId }, { shares: { some: { userId } } }],
+                isTrashed: false,
+            },
+            select: { id: true },
+        });
+        const visibleIds = new Set(visible.map((n) => n.id));
+
+        return related.filter((r) => visibleIds.has(r.id));
+    }
+
+    private async compute(
+        note: { id: string; title: string; plainText: string | null; notebookId: string | null; tagIds: string[] },
+        userId: string,
+    ): Promise<RelatedNote[]> {
+        // Same visibility as the note list; the most recently edited notes when there are many
+        const candidates = await this.prisma.note.findMany({
+            where: {
+                OR: [{ authorId: userId }, { shares: { some: { userId } } }],
+                isTrashed: false,
+                id: { not: note.id },
+            },
+            select: {
+                id: true,
+                title: true,
+                plainText: true,
+                notebookId: true,
+                updatedAt: true,
+                tags: { select: { tagId: true } },
+            },
+            orderBy: { updatedAt: 'desc' },
+            take: this.maxCandidates,
+        });
+
+        const vectors = tfidfVectors([note, ...candidates]);
+        const noteVector = vectors.get(note.id)!;
+        if (noteVector.size === 0) return [];
+
+        const noteTags = new Set(note.tagIds);
+        const related: RelatedNote[] = [];
+
+        for (const candidate of candidates) {
+            const similarity = cosineSimilarity(noteVector, vectors.get(candidate.id)!);
+            if (similarity < MIN_SIMILARITY) continue;
+
+            // Jaccard overlap of the tag sets
+            const candidateTags = candidate.tags.map((t) => t.tagId);
+            const shared = candidateTags.filter((tagId) => noteTags.has(tagId)).length;
+            const union = noteTags.size + candidateTags.length - shared;
+            const tagOverlap = union > 0 ? shared / union : 0;
+
+            const sameNotebook = !!note.notebookId && candidate.notebookId === note.notebookId;
+            const score = similarity * (1 + TAG_WEIGHT * tagOverlap + (sameNotebook ? NOTEBOOK_WEIGHT : 0));
+
+            related.push({
+                id: candidate.id,
+                title: candidate.title,
+                snippet: (candidate.plainText || '').slice(0, SNIPPET_LENGTH),
+                notebookId: candidate.notebookId,
+                updatedAt: candidate.updatedAt,
+                score: Math.round(score * 1000) / 1000,
+            });
+        }
+
+        // Cache enough for any reasonable panel size
+        return related.sort((a, b) => b.score - a.score).slice(0, 20);
+    }
+
+    private cacheKey(userId: string, noteId: string, state: string): string {
+        const fingerprint = createHash('sha1').update(state).digest('hex').slice(0, 16);
+        return `related-notes:${userId}:${noteId}:${fingerprint}`;
+    }
+
+    // The cache is an optimization: without Redis, compute every time
+    private async readCache(key: string): Promise<RelatedNote[] | null> {
+        try {
+            const cached = await this.redis.get(key);
+            return cached ? JSON.parse(cached) : null;
+        } catch (error) {
+            console.warn('Related notes cache unavailable:', error.message);
+            return null;
+        }
+    }
+
+    private async writeCache(key: string, related: RelatedNote[]): Promise<void> {
+        try {
+            await this.redis.set(key, JSON.stringify(related), 'EX', this.cacheTtl);
+        } catch (error) {
+            console.warn('Related notes cache unavailable:', error.message);
+        }
+    }
+}
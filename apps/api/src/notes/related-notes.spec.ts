@@ -0,0 +1,48 @@
+import { cosineSimilarity, tfidfVectors, tokenize } from './related-notes';
+
+describe('tokenize', () => {
+    it('lowercases, strips accents and drops stop words, short words and numbers', () => {
+        expect(tokenize('The Reunião de orçamento for 2026 é às 10h')).toEqual(['reuniao', 'orcamento', '10h']);
+    });
+
+    it('splits on punctuation', () => {
+        expect(tokenize('budget-plan, q3/review')).toEqual(['budget', 'plan', 'review']);
+    });
+});
+
+describe('tfidfVectors', () => {
+    const docs = [
+        { id: 'a', title: 'Budget planning', plainText: 'quarterly budget review' },
+        { id: 'b', title: 'Budget', plainText: 'budget numbers for marketing' },
+        { id: 'c', title: 'Holiday', plainText: 'beach trip packing list' },
+        { id: 'empty', title: '', plainText: null },
+    ];
+    const vectors = tfidfVectors(docs);
+
+    it('normalizes every non-empty vector', () => {
+        for (const id of ['a', 'b', 'c']) {
+            const norm = Math.sqrt([...vectors.get(id)!.values()].reduce((sum, w) => sum + w * w, 0));
+            expect(norm).toBeCloseTo(1);
+        }
+        expect(vectors.get('empty')!.size).toBe(0);
+    });
+
+    it('weighs rare terms above common ones, and title words above body words', () => {
+        const weights = tfidfVectors([
+            { id: 'x', title: 'alpha', plainText: 'shared rare' },
+            { id: 'y', title: '', plainText: 'shared other' },
+        ]).get('x')!;
+
+        expect(weights.get('rare')!).toBeGreaterThan(weights.get('shared')!);
+        expect(weights.get('alpha')!).toBeGreaterThan(weights.get('rare')!);
+    });
+
+    it('ranks notes on the same topic as more similar', () => {
+        const a = vectors.get('a')!;
+
+        expect(cosineSimilarity(a, vectors.get('b')!)).toBeGreaterThan(cosineSimilarity(a, vectors.get('c')!));
+        expect(cosineSimilarity(a, vectors.get('c')!)).toBe(0);
+        expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+        expect(cosineSimilarity(a, vectors.get('empty')!)).toBe(0);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Content similarity between notes: TF-IDF term vectors over title and
+ * plain text, compared by cosine similarity. Everything is computed
+ * in-process from the notes the user can see.
+ */
+
+// Common English and Portuguese words that say nothing about a note's topic
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+    'out', 'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who', 'did', 'get',
+    'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about', 'which',
+    'when', 'make', 'like', 'just', 'into', 'than', 'then', 'them', 'these', 'some', 'could', 'other',
+    'were', 'been', 'being', 'also', 'more', 'only', 'over', 'such', 'your', 'each', 'should', 'where',
+    'para', 'com', 'uma', 'por', 'mais', 'como', 'mas', 'foi', 'ele', 'ela', 'das', 'dos', 'nao', 'sim',
+    'sao', 'ser', 'tem', 'seu', 'sua', 'isso', 'esta', 'este', 'essa', 'esse', 'pelo', 'pela', 'nos',
+    'nas', 'num', 'numa', 'quando', 'muito', 'tambem', 'entre', 'depois', 'sem', 'mesmo', 'aos', 'ter',
+    'seus', 'suas', 'quem', 'onde', 'qual', 'voce', 'eles', 'elas', 'estao', 'era', 'ate', 'isto', 'aqui',
+]);
+
+const MIN_TERM_LENGTH = 3;
+
+// Lowercased, accent-free words worth comparing
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(term) && !/^\d+$/.test(term));
+}
+
+export interface TermDocument {
+    id: string;
+    title: string;
+    plainText: string | null;
+}
+
+export type TermVector = Map<string, number>;
+
+// Title words count twice: they usually name the topic
+function termCounts(doc: TermDocument): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (terms: string[], weight: number) => {
+        for (const term of terms) counts.set(term, (counts.get(term) || 0) + weight);
+    };
+
+    add(tokenize(doc.title), 2);
+    add(tokenize(doc.plainText || ''), 1);
+
+    return counts;
+}
+
+/**
+ * Normalized TF-IDF vectors for a set of documents. Term frequency is
+ * sublinear (1 + log tf) so a word repeated many times doesn't dominate.
+ */
+export function tfidfVectors(docs: TermDocument[]): Map<string, TermVector> {
+    const counts = docs.map((doc) => ({ id: doc.id, terms: termCounts(doc) }));
+
+    const documentFrequency = new Map<string, number>();
+    for (const { terms } of counts) {
+        for (const term of terms.keys()) {
+            documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+    }
+
+    const vectors = new Map<string, TermVector>();
+    for (const { id, terms } of counts) {
+        const vector: TermVector = new Map();
+        let norm = 0;
+
+        for (const [term, count] of terms) {
+            const idf = Math.log((docs.length + 1) / (documentFrequency.get(term)! + 1)) + 1;
+            const weight = (1 + Math.log(count)) * idf;
+            vector.set(term, weight);
+            norm += weight * weight;
+        }
+
+        norm = Math.sqrt(norm);
+        for (const [term, weight] of vector) vector.set(term, weight / norm);
+
+        vectors.set(id, vector);
+    }
+
+    return vectors;
+}
+
+// Cosine similarity of two normalized vectors
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+
+    for (const [term, weight] of small) {
+        const other = large.get(term);
+        if (other) dot += weight * other;
+    }
+
+    return dot;
+}
@@ -0,0 +1,116 @@
+import { diffDocuments, diffText } from './tiptap-diff';
+import { TiptapNode } from './tiptap.utils';
+
+const paragraph = (text: string): TiptapNode => ({ type: 'paragraph', content: [{ type: 'text', text }] });
+const heading = (text: string): TiptapNode => ({ type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text }] });
+const doc = (...content: TiptapNode[]): TiptapNode => ({ type: 'doc', content });
+
+describe('diffText', () => {
+    it('diffs by word, merging runs of the same kind', () => {
+        expect(diffText('the quick brown fox', 'the slow brown dog')).toEqual([
+            { kind: 'equal', text: 'the ' },
+            { kind: 'delete', text: 'quick' },
+            { kind: 'insert', text: 'slow' },
+            { kind: 'equal', text: ' brown ' },
+            { kind: 'delete', text: 'fox' },
+            { kind: 'insert', text: 'dog' },
+        ]);
+    });
+
+    it('handles empty sides', () => {
+        expect(diffText('', 'new text')).toEqual([{ kind: 'insert', text: 'new text' }]);
+        expect(diffText('old text', '')).toEqual([{ kind: 'delete', text: 'old text' }]);
+        expect(diffText('', '')).toEqual([]);
+    });
+
+    it('replaces the whole text when it is too long to diff', () => {
+        const before = 'a '.repeat(1500);
+        const after = 'b '.repeat(1500);
+
+        expect(diffText(before, after)).toEqual([
+            { kind: 'delete', text: before },
+            { kind: 'insert', text: after },
+        ]);
+    });
+});
+
+describe('diffDocuments', () => {
+    it('reports unchanged documents as equal blocks', () => {
+        const document = doc(heading('Title'), paragraph('Body'));
+
+        expect(diffDocuments(document, document)).toEqual({
+            blocks: [
+                { kind: 'equal', type: 'heading', text: 'Title' },
+                { kind: 'equal', type: 'paragraph', text: 'Body' },
+            ],
+            stats: { inserted: 0, deleted: 0, modified: 0 },
+        });
+    });
+
+    it('ignores attribute key order', () => {
+        const before = doc({ type: 'heading', attrs: { level: 1, id: 'a' }, content: [{ type: 'text', text: 'T' }] });
+        const after = doc({ type: 'heading', attrs: { id: 'a', level: 1 }, content: [{ type: 'text', text: 'T' }] });
+
+        expect(diffDocuments(before, after).stats).toEqual({ inserted: 0, deleted: 0, modified: 0 });
+    });
+
+    it('pairs a changed block of the same type as a modification', () => {
+        const diff = diffDocuments(
+            doc(paragraph('one'), paragraph('hello world')),
+            doc(paragraph('one'), paragraph('hello there')),
+        );
+
+        expect(diff.blocks[1]).toEqual({
+            kind: 'modify',
+            type: 'paragraph',
+            before: 'hello world',
+            after: 'hello there',
+            inline: [
+                { kind: 'equal', text: 'hello ' },
+                { kind: 'delete', text: 'world' },
+                { kind: 'insert', text: 'there' },
+            ],
+        });
+        expect(diff.stats).toEqual({ inserted: 0, deleted: 0, modified: 1 });
+    });
+
+    it('does not pair blocks of different types', () => {
+        const diff = diffDocuments(doc(paragraph('text')), doc(heading('text')));
+
+        expect(diff.blocks).toEqual([
+            { kind: 'delete', type: 'paragraph', text: 'text' },
+            { kind: 'insert', type: 'heading', text: 'text' },
+        ]);
+        expect(diff.stats).toEqual({ inserted: 1, deleted: 1, modified: 0 });
+    });
+
+    it('reports added and removed blocks', () => {
+        const diff = diffDocuments(doc(paragraph('a'), paragraph('b')), doc(paragraph('b'), paragraph('c')));
+
+        expect(diff.blocks).toEqual([
+            { kind: 'delete', type: 'paragraph', text: 'a' },
+            { kind: 'equal', type: 'paragraph', text: 'b' },
+            { kind: 'insert', type: 'paragraph', text: 'c' },
+        ]);
+        expect(diff.stats).toEqual({ inserted: 1, deleted: 1, modified: 0 });
+    });
+
+    it('treats a missing document as empty', () => {
+        expect(diffDocuments(null, doc(paragraph('new')))).toEqual({
+            blocks: [{ kind: 'insert', type: 'paragraph', text: 'new' }],
+            stats: { inserted: 1, deleted: 0, modified: 0 },
+        });
+        expect(diffDocuments(null, null)).toEqual({ blocks: [], stats: { inserted: 0, deleted: 0, modified: 0 } });
+    });
+
+    it('replaces the whole document when it is too large to match block by block', () => {
+        const before = doc(...Array.from({ length: 1001 }, (_, i) => paragraph(`before ${i}`)));
+        const after = doc(...Array.from({ length: 1001 }, (_, i) => paragraph(`after ${i}`)));
+
+        const diff = diffDocuments(before, after);
+
+        expect(diff.stats).toEqual({ inserted: 1001, deleted: 1001, modified: 0 });
+        expect(diff.blocks[0]).toEqual({ kind: 'delete', type: 'paragraph', text: 'before 0' });
+        expect(diff.blocks[1001]).toEqual({ kind: 'insert', type: 'paragraph', text: 'after 0' });
+    });
+});
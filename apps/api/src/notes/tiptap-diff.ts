@@ -0,0 +1,170 @@
+import { isDeepStrictEqual } from 'util';
+import { TiptapNode, tiptapToPlainText } from './tiptap.utils';
+
+export interface InlineChange {
+    kind: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+export type BlockChange =
+    | { kind: 'equal' | 'insert' | 'delete'; type: string; text: string }
+    | { kind: 'modify'; type: string; before: string; after: string; inline: InlineChange[] };
+
+export interface DocumentDiff {
+    blocks: BlockChange[];
+    stats: { inserted: number; deleted: number; modified: number };
+}
+
+// Above this many LCS cells a block (or the whole document) is shown as a replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+type Op<T> = { kind: 'equal' | 'insert' | 'delete'; item: T };
+
+// Longest-common-subsequence diff of two sequences
+function diffSequences<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean): Op<T>[] {
+    const n = before.length;
+    const m = after.length;
+    const width = m + 1;
+
+    // lengths[i * width + j] = LCS length of before[i..] and after[j..];
+    // same[i * m + j] records equals(before[i], after[j]) for the walk below
+    const lengths = new Uint32Array((n + 1) * width);
+    const same = new Uint8Array(n * m);
+    const afterEntries = [...after.entries()].reverse();
+    for (const [i, x] of [...before.entries()].reverse()) {
+        for (const [j, y] of afterEntries) {
+            const cell = i * width + j;
+            if (equals(x, y)) {
+                same[i * m + j] = 1;
+                lengths[cell] = lengths[cell + width + 1] + 1;
+            } else {
+                lengths[cell] = Math.max(lengths[cell + width], lengths[cell + 1]);
+            }
+        }
+    }
+
+    // Each item of `before` is kept or deleted, after inserting the items of `after` that come first
+    const ops: Op<T>[] = [];
+    const rest = after.entries();
+    let next = rest.next();
+    for (const [i, x] of before.entries()) {
+        let kept = false;
+        while (!next.done) {
+            const [j, y] = next.value;
+            if (same[i * m + j]) {
+                ops.push({ kind: 'equal', item: y });
+                next = rest.next();
+                kept = true;
+                break;
+            }
+            if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) break;
+
+            ops.push({ kind: 'insert', item: y });
+            next = rest.next();
+        }
+        if (!kept) ops.push({ kind: 'delete', item: x });
+    }
+    for (; !next.done; next = rest.next()) {
+        ops.push({ kind: 'insert', item: next.value[1] });
+    }
+
+    return ops;
+}
+
+// Word-level diff, merging consecutive tokens of the same kind
+export function diffText(before: string, after: string): InlineChange[] {
+    const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            { kind: 'delete' as const, text: before },
+            { kind: 'insert' as const, text: after },
+        ].filter((change) => change.text);
+    }
+
+    const changes: InlineChange[] = [];
+    for (const op of diffSequences(a, b, (x, y) => x === y)) {
+        const last = changes[changes.length - 1];
+        if (last && last.kind === op.kind) {
+            last.text += op.item;
+        } else {
+            changes.push({ kind: op.kind, text: op.item });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Structural diff of two TipTap documents: top-level blocks are matched
+ * first, then deleted/inserted blocks of the same type that sit in the
+ * same place are paired up as modifications with an inline text diff.
+ * Documents too large to match block by block show as a whole replacement.
+ */
+export function diffDocuments(before: TiptapNode | null, after: TiptapNode | null): DocumentDiff {
+    const beforeBlocks = before?.content || [];
+    const afterBlocks = after?.content || [];
+    const blocks: BlockChange[] = [];
+    const stats = { inserted: 0, deleted: 0, modified: 0 };
+
+    if (beforeBlocks.length * afterBlocks.length > MAX_DIFF_CELLS) {
+        for (const block of beforeBlocks) {
+            blocks.push({ kind: 'delete', type: block.type, text: tiptapToPlainText(block) });
+        }
+        for (const block of afterBlocks) {
+            blocks.push({ kind: 'insert', type: block.type, text: tiptapToPlainText(block) });
+        }
+        return { blocks, stats: { inserted: afterBlocks.length, deleted: beforeBlocks.length, modified: 0 } };
+    }
+
+    // A run of changes between two unchanged blocks
+    let deleted: TiptapNode[] = [];
+    let inserted: TiptapNode[] = [];
+
+    const flushChanges = () => {
+        const paired = Math.min(deleted.length, inserted.length);
+        for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+            const from = deleted[k];
+            const to = inserted[k];
+
+            if (k < paired && from && to && from.type === to.type) {
+                const beforeText = tiptapToPlainText(from);
+                const afterText = tiptapToPlainText(to);
+                blocks.push({
+                    kind: 'modify',
+                    type: to.type,
+                    before: beforeText,
+                    after: afterText,
+                    inline: diffText(beforeText, afterText),
+                });
+                stats.modified++;
+                continue;
+            }
+
+            if (from) {
+                blocks.push({ kind: 'delete', type: from.type, text: tiptapToPlainText(from) });
+                stats.deleted++;
+            }
+            if (to) {
+                blocks.push({ kind: 'insert', type: to.type, text: tiptapToPlainText(to) });
+                stats.inserted++;
+            }
+        }
+
+        deleted = [];
+        inserted = [];
+    };
+
+    for (const op of diffSequences(beforeBlocks, afterBlocks, (a, b) => isDeepStrictEqual(a, b))) {
+        if (op.kind === 'equal') {
+            flushChanges();
+            blocks.push({ kind: 'equal', type: op.item.type, text: tiptapToPlainText(op.item) });
+        } else {
+            (op.kind === 'delete' ? deleted : inserted).push(op.item);
+        }
+    }
+    flushChanges();
+
+    return { blocks, stats };
+}
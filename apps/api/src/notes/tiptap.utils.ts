@@ -0,0 +1,54 @@
+// Minimal shape of a TipTap / ProseMirror JSON node
+export interface TiptapNode {
+    type: string;
+    attrs?: Record<string, any>;
+    content?: TiptapNode[];
+    marks?: { type: string; attrs?: Record<string, any> }[];
+    text?: string;
+}
+
+// Plain text for search indexing, matching the editor's getText() output
+export function tiptapToPlainText(node: TiptapNode | null | undefined): string {
+    if (!node) return '';
+    if (node.type === 'text') return node.text || '';
+    if (node.type === 'hardBreak') return '\n';
+    if (node.type === 'noteLink') return node.attrs?.title || '';
+
+    const children = node.content || [];
+    const isTextblock = children.some((child) => child.type === 'text');
+
+    return children
+        .map((child) => tiptapToPlainText(child))
+        .join(isTextblock ? '' : '\n\n');
+}
+
+// Whether a document has checked and/or unchecked task items
+export function taskItemStates(node: TiptapNode | null | undefined): { checked: boolean; unchecked: boolean } {
+    const states = { checked: false, unchecked: false };
+
+    const visit = (current: TiptapNode) => {
+        if (current.type === 'taskItem') {
+            if (current.attrs?.checked) states.checked = true;
+            else states.unchecked = true;
+        }
+        current.content?.forEach(visit);
+    };
+
+    if (node) visit(node);
+    return states;
+}
+
+// Ids of the notes a document links to with [[wiki links]]
+export function noteLinkTargets(node: TiptapNode | null | undefined): string[] {
+    const targets = new Set<string>();
+
+    const visit = (current: TiptapNode) => {
+        if (current.type === 'noteLink' && typeof current.attrs?.noteId === 'string') {
+            targets.add(current.attrs.noteId);
+        }
+        current.content?.forEach(visit);
+    };
+
+    if (node) visit(node);
+    return [...targets];
+}
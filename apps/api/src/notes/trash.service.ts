@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { StorageService } from '../storage/storage.service';
+import { TrashSettingsDto } from './dto/notes.dto';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const BATCH_SIZE = 100;
+
+export interface TrashSettings {
+    trashRetentionDays: number;
+}
+
+/**
+ * Empties the trash automatically: notes trashed longer than their author's
+ * retention period are deleted for good, along with their search index
+ * entries and attachment objects.
+ */
+@Injectable()
+export class TrashService implements OnModuleInit {
+    private readonly intervalMs: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly searchOutbox: SearchOutboxService,
+        private readonly storageService: StorageService,
+        private readonly jobs: JobsService,
+    ) {
+        this.intervalMs = parseInt(configService.get<string>('TRASH_PURGE_INTERVAL_MS') || String(HOUR), 10);
+    }
+
+    onModuleInit() {
+        this.jobs.repeat('trash', 'purge', this.intervalMs, () => this.purgeExpired());
+    }
+
+    async getSettings(userId: string): Promise<TrashSettings> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: { trashRetentionDays: true },
+        });
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return user;
+    }
+
+    async updateSettings(userId: string, dto: TrashSettingsDto): Promise<TrashSettings> {
+        return this.prisma.user.update({
+            where: { id: userId },
+            data: { trashRetentionDays: dto.trashRetentionDays },
+            select: { trashRetentionDays: true },
+        });
+    }
+
+    async purgeExpired(): Promise<number> {
+        // Notes trashed before trashedAt was recorded start their retention period now
+        await this.prisma.note.updateMany({
+            where: { isTrashed: true, trashedAt: null },
+            data: { trashedAt: new Date() },
+        });
+
+        const users = await this.prisma.user.findMany({
+            where: { trashRetentionDays: { gt: 0 }, notes: { some: { isTrashed: true } } },
+            select: { id: true, trashRetentionDays: true },
+        });
+
+        let purged = 0;
+        for (const user of users) {
+            const cutoff = new Date(Date.now() - user.trashRetentionDays * DAY);
+
+            for (;;) {
+                const count = await this.purgeBatch(user.id, cutoff);
+                if (count === 0) break;
+                purged += count;
+            }
+        }
+
+        if (purged > 0) {
+            console.log(`🗑️ Purged ${purged} notes from the trash`);
+        }
+
+        return purged;
+    }
+
+    private async purgeBatch(authorId: string, cutoff: Date): Promise<number> {
+        const expired = { authorId, isTrashed: true, trashedAt: { lte: cutoff } };
+
+        const notes = await this.prisma.$transaction(async (tx) => {
+            const batch = await tx.note.findMany({
+                where: expired,
+                select: { id: true, attachments: { select: { key: true } } },
+                take: BATCH_SIZE,
+            });
+            if (batch.length === 0) return batch;
+
+            const ids = batch.map((note) => note.id);
+            await tx.note.deleteMany({ where: { id: { in: ids } } });
+            await this.searchOutbox.enqueue(ids, tx);
+            // Committed with the deletion, so the files are removed exactly when the notes are
+            await this.storageService.deleteObjectsLater(
+                batch.flatMap((note) => note.attachments.map((attachment) => attachment.key)),
+                tx,
+            );
+
+            return batch;
+        });
+
+        return notes.length;
+    }
+}
@@ -0,0 +1,73 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { RetentionPolicy, selectPrunableVersions } from './version-retention';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Background job thinning out version history: hourly versions for a day,
+ * daily versions for a month, weekly versions forever (configurable).
+ * Named checkpoints are left alone.
+ */
+@Injectable()
+export class VersionRetentionService implements OnModuleInit {
+    private readonly policy: RetentionPolicy;
+    private readonly intervalMs: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly jobs: JobsService,
+    ) {
+        this.policy = {
+            hourlyForMs: parseInt(configService.get<string>('VERSION_RETENTION_HOURLY_DAYS') || '1', 10) * DAY,
+            dailyForMs: parseInt(configService.get<string>('VERSION_RETENTION_DAILY_DAYS') || '30', 10) * DAY,
+        };
+        this.intervalMs = parseInt(configService.get<string>('VERSION_RETENTION_INTERVAL_MS') || String(HOUR), 10);
+    }
+
+    onModuleInit() {
+        this.jobs.repeat('versions', 'prune', this.intervalMs, () => this.pruneAll());
+    }
+
+    async pruneAll(): Promise<number> {
+        // Only notes with more than one automatic version can have anything to prune
+        const groups = await this.prisma.noteVersion.groupBy({
+            by: ['noteId'],
+            where: { label: null },
+            _count: { _all: true },
+            having: { noteId: { _count: { gt: 1 } } },
+        });
+
+        let pruned = 0;
+        for (const { noteId } of groups) {
+            pruned += await this.pruneNote(noteId);
+        }
+
+        if (pruned > 0) {
+            console.log(`🧹 Pruned ${pruned} note versions`);
+        }
+
+        return pruned;
+    }
+
+    async pruneNote(noteId: string): Promise<number> {
+        // Named checkpoints are never pruned
+        const versions = await this.prisma.noteVersion.findMany({
+            where: { noteId, label: null },
+            select: { id: true, createdAt: true },
+        });
+
+        const prunable = selectPrunableVersions(versions, this.policy);
+        if (prunable.length === 0) return 0;
+
+        const { count } = await this.prisma.noteVersion.deleteMany({
+            where: { id: { in: prunable }, label: null },
+        });
+
+        return count;
+    }
+}
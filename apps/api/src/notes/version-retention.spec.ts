@@ -0,0 +1,54 @@
+import { RetentionPolicy, selectPrunableVersions } from './version-retention';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const NOW = Date.UTC(2026, 2, 18, 12, 30);
+const POLICY: RetentionPolicy = { hourlyForMs: DAY, dailyForMs: 30 * DAY };
+
+const version = (id: string, ageMs: number) => ({ id, createdAt: new Date(NOW - ageMs) });
+
+describe('selectPrunableVersions', () => {
+    it('keeps the newest version of each hour while recent', () => {
+        const versions = [
+            version('12:25', 5 * 60 * 1000),
+            version('12:10', 20 * 60 * 1000),
+            version('12:05', 25 * 60 * 1000),
+            version('11:50', 40 * 60 * 1000),
+        ];
+
+        expect(selectPrunableVersions(versions, POLICY, NOW).sort()).toEqual(['12:05', '12:10']);
+    });
+
+    it('keeps one version per day after the hourly period', () => {
+        const versions = [
+            version('2 days, 9h', 2 * DAY + 3 * HOUR + 30 * 60 * 1000),
+            version('2 days, 6h', 2 * DAY + 6 * HOUR + 30 * 60 * 1000),
+            version('3 days', 3 * DAY),
+        ];
+
+        expect(selectPrunableVersions(versions, POLICY, NOW)).toEqual(['2 days, 6h']);
+    });
+
+    it('keeps one version per week after the daily period', () => {
+        // 2026-01-08 and 2026-01-10 fall in the same week bucket, 2026-01-02 in an earlier one
+        const at = (date: number) => ({ id: new Date(date).toISOString().slice(0, 10), createdAt: new Date(date) });
+        const versions = [at(Date.UTC(2026, 0, 10)), at(Date.UTC(2026, 0, 8)), at(Date.UTC(2026, 0, 2))];
+
+        expect(selectPrunableVersions(versions, POLICY, NOW)).toEqual(['2026-01-08']);
+    });
+
+    it('does not depend on input order', () => {
+        const versions = [version('old', 30 * 60 * 1000), version('new', 10 * 60 * 1000)];
+
+        expect(selectPrunableVersions(versions, POLICY, NOW)).toEqual(['old']);
+        expect(selectPrunableVersions([...versions].reverse(), POLICY, NOW)).toEqual(['old']);
+    });
+
+    it('keeps everything when each version is alone in its bucket', () => {
+        const versions = [version('a', HOUR), version('b', 2 * DAY), version('c', 60 * DAY)];
+
+        expect(selectPrunableVersions(versions, POLICY, NOW)).toEqual([]);
+        expect(selectPrunableVersions([], POLICY, NOW)).toEqual([]);
+    });
+});
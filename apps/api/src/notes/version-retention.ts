@@ -0,0 +1,48 @@
+/**
+ * Retention policy for automatic note versions: the newest version of each
+ * hour, then day, then week is kept, depending on its age.
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+export interface RetentionPolicy {
+    hourlyForMs: number; // keep one version per hour while younger than this
+    dailyForMs: number; // then one per day while younger than this, then one per week
+}
+
+/**
+ * Pick the versions a retention policy drops: within each hour/day/week
+ * bucket (depending on age) only the newest version is kept.
+ */
+export function selectPrunableVersions(
+    versions: { id: string; createdAt: Date }[],
+    policy: RetentionPolicy,
+    now = Date.now(),
+): string[] {
+    const keptBuckets = new Set<string>();
+    const prunable: string[] = [];
+
+    const newestFirst = [...versions].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    for (const version of newestFirst) {
+        const time = version.createdAt.getTime();
+        const age = now - time;
+
+        const bucket =
+            age < policy.hourlyForMs
+                ? `h${Math.floor(time / HOUR)}`
+                : age < policy.dailyForMs
+                    ? `d${Math.floor(time / DAY)}`
+                    : `w${Math.floor(time / WEEK)}`;
+
+        if (keptBuckets.has(bucket)) {
+            prunable.push(version.id);
+        } else {
+            keptBuckets.add(bucket);
+        }
+    }
+
+    return prunable;
+}
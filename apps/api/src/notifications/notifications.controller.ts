@@ -0,0 +1,51 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Param,
+    Query,
+    UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators';
+import { NotificationsService } from './notifications.service';
+import { User } from '@evernote-clone/database';
+
+@ApiTags('notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+    constructor(private readonly notificationsService: NotificationsService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get the notification feed and unread count' })
+    @ApiQuery({ name: 'unread', required: false, type: Boolean })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    async findAll(
+        @CurrentUser() user: User,
+        @Query('unread') unread?: string,
+        @Query('limit') limit?: string,
+    ) {
+        return this.notificationsService.findAll(user.id, {
+            unreadOnly: unread === 'true',
+            limit: limit ? parseInt(limit, 10) : undefined,
+        });
+    }
+
+    // Static route before :id
+    @Post('read-all')
+    @ApiOperation({ summary: 'Mark all notifications as read' })
+    async markAllRead(@CurrentUser() user: User) {
+        const count = await this.notificationsService.markAllRead(user.id);
+        return { success: true, count };
+    }
+
+    @Patch(':id/read')
+    @ApiOperation({ summary: 'Mark a notification as read' })
+    async markRead(@CurrentUser() user: User, @Param('id') id: string) {
+        return this.notificationsService.markRead(id, user.id);
+    }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+
+@Module({
+    providers: [NotificationsService],
+    controllers: [NotificationsController],
+    exports: [NotificationsService],
+})
+export class NotificationsModule { }
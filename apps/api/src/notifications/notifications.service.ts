@@ -0,0 +1,69 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Notification, Prisma } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface NotificationInput {
+    type: 'reminder';
+    title: string;
+    body?: string | null;
+    noteId?: string | null;
+}
+
+@Injectable()
+export class NotificationsService {
+    constructor(private readonly prisma: PrismaService) { }
+
+    // Newest first, with the unread count for the badge
+    async findAll(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+        const [notifications, unreadCount] = await Promise.all([
+            this.prisma.notification.findMany({
+                where: { userId, ...(options.unreadOnly && { readAt: null }) },
+                orderBy: { createdAt: 'desc' },
+                take: Math.min(options.limit || 50, 100),
+            }),
+            this.prisma.notification.count({ where: { userId, readAt: null } }),
+        ]);
+
+        return { notifications, unreadCount };
+    }
+
+    // Pass the transaction client to notify together with another write
+    async create(
+        userId: string,
+        input: NotificationInput,
+        client: Prisma.TransactionClient = this.prisma,
+    ): Promise<Notification> {
+        return client.notification.create({
+            data: {
+                userId,
+                type: input.type,
+                title: input.title,
+                body: input.body ?? null,
+                noteId: input.noteId ?? null,
+            },
+        });
+    }
+
+    async markRead(id: string, userId: string): Promise<Notification> {
+        const notification = await this.prisma.notification.findUnique({ where: { id } });
+
+        if (!notification || notification.userId !== userId) {
+            throw new NotFoundException('Notification not found');
+        }
+        if (notification.readAt) return notification;
+
+        return this.prisma.notification.update({
+            where: { id },
+            data: { readAt: new Date() },
+        });
+    }
+
+    async markAllRead(userId: string): Promise<number> {
+        const { count } = await this.prisma.notification.updateMany({
+            where: { userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+
+        return count;
+    }
+}
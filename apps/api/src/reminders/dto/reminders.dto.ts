@@ -0,0 +1,17 @@
+import { IsOptional, IsBoolean, IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateReminderDto {
+    @ApiProperty({ required: false, description: 'ISO 8601 date-time to be reminded at' })
+    @IsOptional()
+    @IsDateString()
+    reminderAt?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    done?: boolean;
+}
+
+export const REMINDER_STATUSES = ['upcoming', 'done', 'all'] as const;
+export type ReminderStatus = (typeof REMINDER_STATUSES)[number];
@@ -0,0 +1,146 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ReminderSchedulerService } from './reminder-scheduler.service';
+
+type NoteRow = {
+    id: string;
+    title: string;
+    authorId: string;
+    isTrashed: boolean;
+    reminderAt: Date | null;
+    reminderDone: boolean;
+    reminderFiredAt: Date | null;
+};
+
+describe('ReminderSchedulerService', () => {
+    let redis: Redis;
+    let note: NoteRow;
+    let prisma: Record<string, any>;
+    let notifications: { create: jest.Mock };
+    let scheduler: ReminderSchedulerService;
+
+    const createScheduler = () =>
+        new ReminderSchedulerService(
+            new ConfigService({}),
+            prisma as unknown as PrismaService,
+            notifications as unknown as NotificationsService,
+            redis,
+            {} as JobsService,
+        );
+    const scheduled = () => redis.zrange('reminders:schedule', 0, -1);
+
+    beforeEach(async () => {
+        redis = new RedisMock() as unknown as Redis;
+        await redis.flushall();
+        jest.spyOn(console, 'log').mockImplementation();
+
+        note = {
+            id: 'note',
+            title: 'Call the bank',
+            authorId: 'author',
+            isTrashed: false,
+            reminderAt: new Date(Date.now() - 60 * 1000),
+            reminderDone: false,
+            reminderFiredAt: null,
+        };
+
+        // The single note, matched against the fields the scheduler filters on
+        const matches = (where: Record<string, any>) =>
+            (!where.id?.in || where.id.in.includes(note.id)) &&
+            (typeof where.id !== 'string' || where.id === note.id) &&
+            (where.isTrashed === undefined || where.isTrashed === note.isTrashed) &&
+            (where.reminderFiredAt !== null || note.reminderFiredAt === null) &&
+            (where.reminderDone === undefined || where.reminderDone === note.reminderDone);
+
+        prisma = {
+            note: {
+                findMany: jest.fn(async ({ where }) => (matches(where) && note.reminderAt ? [{ ...note }] : [])),
+                findUnique: jest.fn(async () => ({ ...note })),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    if (!matches(where) || where.reminderAt.getTime() !== note.reminderAt?.getTime()) {
+                        return { count: 0 };
+                    }
+                    Object.assign(note, data);
+                    return { count: 1 };
+                }),
+            },
+        };
+        prisma.$transaction = jest.fn((run) => run(prisma));
+        notifications = { create: jest.fn() };
+
+        scheduler = createScheduler();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('notifies the author of a due reminder once', async () => {
+        await scheduler.schedule(note.id, note.reminderAt!);
+
+        expect(await scheduler.fireDue()).toBe(1);
+        expect(notifications.create).toHaveBeenCalledWith(
+            'author',
+            { type: 'reminder', title: 'Call the bank', noteId: 'note' },
+            prisma,
+        );
+        expect(note.reminderFiredAt).toBeInstanceOf(Date);
+        expect(await scheduled()).toEqual([]);
+
+        // A stale entry, e.g. from a resync that raced the firing
+        await scheduler.schedule(note.id, note.reminderAt!);
+        expect(await scheduler.fireDue()).toBe(0);
+        expect(notifications.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies once when two instances poll at the same time', async () => {
+        await scheduler.schedule(note.id, note.reminderAt!);
+
+        const fired = await Promise.all([scheduler.fireDue(), createScheduler().fireDue()]);
+
+        expect(fired.sort()).toEqual([0, 1]);
+        expect(notifications.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not notify when the reminder was fired between the read and the write', async () => {
+        await scheduler.schedule(note.id, note.reminderAt!);
+        prisma.note.findUnique.mockImplementationOnce(async () => {
+            const snapshot = { ...note };
+            note.reminderFiredAt = new Date();
+            return snapshot;
+        });
+
+        expect(await scheduler.fireDue()).toBe(0);
+        expect(prisma.note.updateMany).toHaveBeenCalledWith(
+            expect.objectContaining({ where: expect.objectContaining({ reminderFiredAt: null }) }),
+        );
+        expect(notifications.create).not.toHaveBeenCalled();
+    });
+
+    it('reschedules a reminder that came due while the note was in the trash', async () => {
+        note.isTrashed = true;
+        await scheduler.schedule(note.id, note.reminderAt!);
+
+        // Dropped from the schedule while trashed
+        expect(await scheduler.fireDue()).toBe(0);
+        expect(await scheduled()).toEqual([]);
+
+        note.isTrashed = false;
+        await scheduler.reschedule([note.id]);
+
+        expect(await scheduled()).toEqual(['note']);
+        expect(await scheduler.fireDue()).toBe(1);
+    });
+
+    it('does not reschedule a reminder that already went out', async () => {
+        note.reminderFiredAt = new Date();
+
+        await scheduler.reschedule([note.id]);
+
+        expect(await scheduled()).toEqual([]);
+    });
+});
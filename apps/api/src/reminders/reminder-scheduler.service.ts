@@ -0,0 +1,168 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Prisma } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { REDIS_CLIENT } from '../redis/redis.module';
+import { JobsService } from '../jobs/jobs.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Sorted set of note ids scored by their reminder time (ms)
+const SCHEDULE_KEY = 'reminders:schedule';
+const BATCH_SIZE = 100;
+// A reminder that failed to fire is tried again after this long
+const RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Fires due reminders into the author's notification feed.
+ *
+ * Pending reminders live in a Redis sorted set so polling only looks at
+ * what is due. The database stays the source of truth: the set is rebuilt
+ * from it on startup (and for notes taken out of the trash, whose due
+ * reminders were dropped), and a reminder is only notified once, guarded by
+ * `reminderFiredAt`. With several API instances, the one whose ZREM
+ * removes the entry fires it.
+ */
+@Injectable()
+export class ReminderSchedulerService implements OnModuleInit {
+    private readonly intervalMs: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly notificationsService: NotificationsService,
+        @Inject(REDIS_CLIENT) private readonly redis: Redis,
+        private readonly jobs: JobsService,
+    ) {
+        this.intervalMs = parseInt(configService.get<string>('REMINDER_POLL_INTERVAL_MS') || '30000', 10);
+    }
+
+    onModuleInit() {
+        // Not awaited: startup shouldn't wait on Redis
+        this.resync();
+        this.jobs.repeat('reminders', 'fire-due', this.intervalMs, () => this.fireDue());
+    }
+
+    async schedule(noteId: string, at: Date): Promise<void> {
+        try {
+            await this.redis.zadd(SCHEDULE_KEY, at.getTime(), noteId);
+        } catch (error) {
+            // The schedule is rebuilt from the database on the next startup
+            console.warn(`Failed to schedule reminder for note ${noteId}:`, error.message);
+        }
+    }
+
+    async unschedule(noteId: string): Promise<void> {
+        try {
+            await this.redis.zrem(SCHEDULE_KEY, noteId);
+        } catch (error) {
+            // Firing re-checks the note, so a stale entry is harmless
+            console.warn(`Failed to unschedule reminder for note ${noteId}:`, error.message);
+        }
+    }
+
+    // Put every pending reminder from the database back in the schedule
+    async resync(): Promise<number> {
+        try {
+            return await this.schedulePending({});
+        } catch (error) {
+            console.warn('Reminder resync failed:', error.message);
+            return 0;
+        }
+    }
+
+    // Notes out of the trash again: a reminder that came due while trashed was dropped from the schedule
+    async reschedule(noteIds: string[]): Promise<void> {
+        try {
+            await this.schedulePending({ id: { in: noteIds } });
+        } catch (error) {
+            console.warn('Failed to reschedule reminders:', error.message);
+        }
+    }
+
+    private async schedulePending(where: Prisma.NoteWhereInput): Promise<number> {
+        const pending = await this.prisma.note.findMany({
+            where: {
+                ...where,
+                reminderAt: { not: null },
+                reminderDone: false,
+                reminderFiredAt: null,
+                isTrashed: false,
+            },
+            select: { id: true, reminderAt: true },
+        });
+
+        for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+            const args = pending
+                .slice(i, i + BATCH_SIZE)
+                .flatMap((note) => [note.reminderAt!.getTime(), note.id]);
+            await this.redis.zadd(SCHEDULE_KEY, ...args);
+        }
+
+        return pending.length;
+    }
+
+    async fireDue(): Promise<number> {
+        const due = await this.redis.zrangebyscore(SCHEDULE_KEY, 0, Date.now(), 'LIMIT', 0, BATCH_SIZE);
+
+        let fired = 0;
+        for (const noteId of due) {
+            // Claim the entry; another instance may have taken it already
+            if ((await this.redis.zrem(SCHEDULE_KEY, noteId)) === 0) continue;
+
+            try {
+                if (await this.fire(noteId)) fired++;
+            } catch (error) {
+                console.warn(`Failed to fire reminder for note ${noteId}:`, error.message);
+                await this.schedule(noteId, new Date(Date.now() + RETRY_DELAY_MS));
+            }
+        }
+
+        if (fired > 0) {
+            console.log(`⏰ Fired ${fired} reminders`);
+        }
+
+        return fired;
+    }
+
+    private async fire(noteId: string): Promise<boolean> {
+        const note = await this.prisma.note.findUnique({
+            where: { id: noteId },
+            select: {
+                id: true,
+                title: true,
+                authorId: true,
+                isTrashed: true,
+                reminderAt: true,
+                reminderDone: true,
+                reminderFiredAt: true,
+            },
+        });
+
+        // Cleared, completed or already notified since it was scheduled
+        if (!note?.reminderAt || note.reminderDone || note.reminderFiredAt || note.isTrashed) {
+            return false;
+        }
+
+        // Moved to later in the meantime
+        if (note.reminderAt.getTime() > Date.now()) {
+            await this.schedule(note.id, note.reminderAt);
+            return false;
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            const { count } = await tx.note.updateMany({
+                where: { id: note.id, reminderAt: note.reminderAt, reminderFiredAt: null },
+                data: { reminderFiredAt: new Date() },
+            });
+            if (count === 0) return false;
+
+            await this.notificationsService.create(
+                note.authorId,
+                { type: 'reminder', title: note.title, noteId: note.id },
+                tx,
+            );
+            return true;
+        });
+    }
+}
@@ -0,0 +1,52 @@
+import {
+    Controller,
+    Get,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+    BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators';
+import { RemindersService } from './reminders.service';
+import { REMINDER_STATUSES, ReminderStatus, UpdateReminderDto } from './dto/reminders.dto';
+import { User } from '@evernote-clone/database';
+
+@ApiTags('reminders')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('reminders')
+export class RemindersController {
+    constructor(private readonly remindersService: RemindersService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List notes with reminders' })
+    @ApiQuery({ name: 'status', required: false, enum: REMINDER_STATUSES })
+    async findAll(@CurrentUser() user: User, @Query('status') status?: string) {
+        if (status && !REMINDER_STATUSES.includes(status as ReminderStatus)) {
+            throw new BadRequestException(`status must be one of: ${REMINDER_STATUSES.join(', ')}`);
+        }
+        return this.remindersService.findAll(user.id, status as ReminderStatus | undefined);
+    }
+
+    @Patch(':noteId')
+    @ApiOperation({ summary: "Set a note's reminder time or mark it done" })
+    async update(
+        @CurrentUser() user: User,
+        @Param('noteId') noteId: string,
+        @Body() dto: UpdateReminderDto,
+    ) {
+        return this.remindersService.update(noteId, user.id, dto);
+    }
+
+    @Delete(':noteId')
+    @ApiOperation({ summary: "Remove a note's reminder" })
+    async clear(@CurrentUser() user: User, @Param('noteId') noteId: string) {
+        await this.remindersService.clear(noteId, user.id);
+        return { success: true };
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RemindersService } from './reminders.service';
+import { ReminderSchedulerService } from './reminder-scheduler.service';
+import { RemindersController } from './reminders.controller';
+
+@Module({
+    imports: [NotificationsModule],
+    providers: [RemindersService, ReminderSchedulerService],
+    controllers: [RemindersController],
+    exports: [ReminderSchedulerService],
+})
+export class RemindersModule { }
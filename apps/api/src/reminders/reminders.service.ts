@@ -0,0 +1,96 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReminderSchedulerService } from './reminder-scheduler.service';
+import { ReminderStatus, UpdateReminderDto } from './dto/reminders.dto';
+
+const reminderSelect = {
+    id: true,
+    title: true,
+    notebookId: true,
+    reminderAt: true,
+    reminderDone: true,
+    reminderFiredAt: true,
+} as const;
+
+/**
+ * Reminders are set on notes by their author, who gets the notification
+ * when one comes due.
+ */
+@Injectable()
+export class RemindersService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly scheduler: ReminderSchedulerService,
+    ) { }
+
+    // Upcoming reminders soonest first; completed ones most recent first
+    async findAll(userId: string, status: ReminderStatus = 'upcoming') {
+        return this.prisma.note.findMany({
+            where: {
+                authorId: userId,
+                isTrashed: false,
+                reminderAt: { not: null },
+                ...(status !== 'all' && { reminderDone: status === 'done' }),
+            },
+            select: reminderSelect,
+            orderBy: { reminderAt: status === 'upcoming' ? 'asc' : 'desc' },
+        });
+    }
+
+    async update(noteId: string, userId: string, dto: UpdateReminderDto) {
+        const note = await this.findOwnNote(noteId, userId);
+
+        if (dto.reminderAt === undefined && !note.reminderAt) {
+            throw new BadRequestException('The note has no reminder');
+        }
+
+        // A new time starts the reminder over
+        const rescheduled = dto.reminderAt !== undefined;
+        const updated = await this.prisma.note.update({
+            where: { id: noteId },
+            data: {
+                ...(rescheduled && {
+                    reminderAt: new Date(dto.reminderAt!),
+                    reminderFiredAt: null,
+                    reminderDone: false,
+                }),
+                ...(dto.done !== undefined && { reminderDone: dto.done }),
+            },
+            select: reminderSelect,
+        });
+
+        if (updated.reminderDone || updated.reminderFiredAt) {
+            await this.scheduler.unschedule(noteId);
+        } else {
+            await this.scheduler.schedule(noteId, updated.reminderAt!);
+        }
+
+        return updated;
+    }
+
+    async clear(noteId: string, userId: string): Promise<void> {
+        await this.findOwnNote(noteId, userId);
+
+        await this.prisma.note.update({
+            where: { id: noteId },
+            data: { reminderAt: null, reminderDone: false, reminderFiredAt: null },
+        });
+        await this.scheduler.unschedule(noteId);
+    }
+
+    private async findOwnNote(noteId: string, userId: string) {
+        const note = await this.prisma.note.findUnique({
+            where: { id: noteId },
+            select: { authorId: true, reminderAt: true },
+        });
+
+        if (!note) {
+            throw new NotFoundException('Note not found');
+        }
+        if (note.authorId !== userId) {
+            throw new ForbiddenException('Only the author can set reminders on this note');
+        }
+
+        return note;
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Rebuild or verify the Meilisearch notes index from the database.
+ *
+ *   pnpm search:reindex            # repair missing/stale documents, drop orphans
+ *   pnpm search:reindex --check    # report only
+ *   pnpm search:reindex --full     # rewrite every document
+ *   pnpm search:reindex --batch-size=1000
+ */
+import { NestFactory } from '@nestjs/core';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ReindexMode, ReindexProgress, SearchService } from '../search/search.service';
+
+// Only the search service itself: SearchModule would also start the outbox worker
+@Module({
+    imports: [
+        ConfigModule.forRoot({
+            isGlobal: true,
+            envFilePath: ['.env', '../../.env', '../../../.env', '../.env'],
+        }),
+        PrismaModule,
+    ],
+    providers: [SearchService],
+})
+class ReindexModule { }
+
+function parseArgs(args: string[]): { mode: ReindexMode; batchSize?: number } {
+    const mode: ReindexMode = args.includes('--full') ? 'full' : args.includes('--check') ? 'check' : 'repair';
+    const batchArg = args.find((arg) => arg.startsWith('--batch-size='));
+    const batchSize = batchArg ? parseInt(batchArg.split('=')[1]!, 10) : undefined;
+
+    if (batchSize !== undefined && !(batchSize > 0)) {
+        throw new Error('--batch-size must be a positive number');
+    }
+
+    return { mode, batchSize };
+}
+
+function printProgress({ phase, processed, total }: ReindexProgress) {
+    const percent = total > 0 ? Math.round((processed / total) * 100) : 100;
+    const label = phase === 'notes' ? 'Notes' : 'Orphan scan';
+    process.stdout.write(`\r${label}: ${processed}/${total} (${percent}%)   `);
+    if (processed >= total) process.stdout.write('\n');
+}
+
+async function main() {
+    const { mode, batchSize } = parseArgs(process.argv.slice(2));
+    const app = await NestFactory.createApplicationContext(ReindexModule, { logger: ['error', 'warn'] });
+
+    try {
+        console.log(`🔎 Search reindex (${mode})`);
+        const report = await app.get(SearchService).reindex(mode, { batchSize, onProgress: printProgress });
+
+        console.log(`Database notes:   ${report.databaseCount}`);
+        console.log(`Index documents:  ${report.indexCount}`);
+        console.log(`Missing:          ${report.missing}`);
+        console.log(`Stale:            ${report.stale}`);
+        console.log(`Orphaned:         ${report.orphaned}`);
+        console.log(`Indexed:          ${report.indexed}`);
+        console.log(`Deleted:          ${report.deleted}`);
+        console.log(`Took ${(report.durationMs / 1000).toFixed(1)}s`);
+
+        // A check that found drift exits non-zero, for use in scripts
+        if (mode === 'check' && report.missing + report.stale + report.orphaned > 0) {
+            process.exitCode = 1;
+        }
+    } finally {
+        await app.close();
+    }
+}
+
+main().catch((error) => {
+    console.error('❌ Reindex failed:', error.message);
+    process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { IsString, IsOptional, IsBoolean, IsArray, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateSavedSearchDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ description: 'Search query, e.g. `tag:urgent -tag:done`' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(2000)
+    query: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    notebookId?: string | null;
+
+    @ApiProperty({ required: false, type: [String] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    tagIds?: string[];
+
+    @ApiProperty({ required: false, description: 'Show the live match count' })
+    @IsOptional()
+    @IsBoolean()
+    showCount?: boolean;
+}
+
+export class UpdateSavedSearchDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(2000)
+    query?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    notebookId?: string | null;
+
+    @ApiProperty({ required: false, type: [String] })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    tagIds?: string[];
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    showCount?: boolean;
+}
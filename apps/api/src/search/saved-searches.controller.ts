@@ -0,0 +1,73 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    Query,
+    UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators';
+import { SavedSearchesService } from './saved-searches.service';
+import { CreateSavedSearchDto, UpdateSavedSearchDto } from './dto/saved-search.dto';
+import { User } from '@evernote-clone/database';
+
+@ApiTags('search')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('search/saved')
+export class SavedSearchesController {
+    constructor(private readonly savedSearchesService: SavedSearchesService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get all saved searches (with match counts where enabled)' })
+    async findAll(@CurrentUser() user: User) {
+        return this.savedSearchesService.findAll(user.id);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a saved search by ID' })
+    async findById(@CurrentUser() user: User, @Param('id') id: string) {
+        return this.savedSearchesService.findById(id, user.id);
+    }
+
+    @Get(':id/results')
+    @ApiOperation({ summary: 'Run a saved search' })
+    @ApiQuery({ name: 'limit', required: false, type: Number })
+    @ApiQuery({ name: 'offset', required: false, type: Number })
+    async run(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Query('limit') limit?: number,
+        @Query('offset') offset?: number,
+    ) {
+        return this.savedSearchesService.run(id, user.id, { limit, offset });
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Save a search' })
+    async create(@CurrentUser() user: User, @Body() dto: CreateSavedSearchDto) {
+        return this.savedSearchesService.create(user.id, dto);
+    }
+
+    @Patch(':id')
+    @ApiOperation({ summary: 'Update a saved search' })
+    async update(
+        @CurrentUser() user: User,
+        @Param('id') id: string,
+        @Body() dto: UpdateSavedSearchDto,
+    ) {
+        return this.savedSearchesService.update(id, user.id, dto);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete a saved search' })
+    async delete(@CurrentUser() user: User, @Param('id') id: string) {
+        await this.savedSearchesService.delete(id, user.id);
+        return { success: true };
+    }
+}
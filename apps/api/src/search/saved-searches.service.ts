@@ -0,0 +1,137 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Prisma, SavedSearch } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchService } from './search.service';
+import { parseSearchQuery } from './search-query';
+import { CreateSavedSearchDto, UpdateSavedSearchDto } from './dto/saved-search.dto';
+
+@Injectable()
+export class SavedSearchesService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly searchService: SearchService,
+    ) { }
+
+    // Saved searches with `count` filled in for those showing a live match count
+    async findAll(userId: string) {
+        const savedSearches = await this.prisma.savedSearch.findMany({
+            where: { userId },
+            orderBy: { name: 'asc' },
+        });
+
+        return Promise.all(
+            savedSearches.map(async (savedSearch) => ({
+                ...savedSearch,
+                count: savedSearch.showCount ? await this.count(savedSearch) : null,
+            })),
+        );
+    }
+
+    async findById(id: string, userId: string): Promise<SavedSearch> {
+        const savedSearch = await this.prisma.savedSearch.findUnique({ where: { id } });
+
+        if (!savedSearch || savedSearch.userId !== userId) {
+            throw new NotFoundException('Saved search not found');
+        }
+
+        return savedSearch;
+    }
+
+    async create(userId: string, dto: CreateSavedSearchDto): Promise<SavedSearch> {
+        await this.validate(userId, dto);
+
+        try {
+            return await this.prisma.savedSearch.create({
+                data: {
+                    name: dto.name.trim(),
+                    query: dto.query.trim(),
+                    notebookId: dto.notebookId || null,
+                    tagIds: dto.tagIds?.length ? dto.tagIds : Prisma.DbNull,
+                    showCount: dto.showCount ?? false,
+                    userId,
+                },
+            });
+        } catch (error) {
+            throw this.duplicateName(error);
+        }
+    }
+
+    async update(id: string, userId: string, dto: UpdateSavedSearchDto): Promise<SavedSearch> {
+        await this.findById(id, userId);
+        await this.validate(userId, dto);
+
+        try {
+            return await this.prisma.savedSearch.update({
+                where: { id },
+                data: {
+                    name: dto.name?.trim(),
+                    query: dto.query?.trim(),
+                    notebookId: dto.notebookId === undefined ? undefined : dto.notebookId || null,
+                    tagIds: dto.tagIds === undefined ? undefined : dto.tagIds.length ? dto.tagIds : Prisma.DbNull,
+                    showCount: dto.showCount,
+                },
+            });
+        } catch (error) {
+            throw this.duplicateName(error);
+        }
+    }
+
+    async delete(id: string, userId: string): Promise<void> {
+        await this.findById(id, userId);
+        await this.prisma.savedSearch.delete({ where: { id } });
+    }
+
+    async run(id: string, userId: string, options?: { limit?: number; offset?: number }) {
+        const savedSearch = await this.findById(id, userId);
+        return this.searchService.search(userId, savedSearch.query, { ...this.scope(savedSearch), ...options });
+    }
+
+    private async count(savedSearch: SavedSearch): Promise<number | null> {
+        try {
+            const result = await this.searchService.search(savedSearch.userId, savedSearch.query, {
+                ...this.scope(savedSearch),
+                limit: 1,
+            });
+            return result.total;
+        } catch (error) {
+            // e.g. a relative date that no longer parses; the list itself should still load
+            return null;
+        }
+    }
+
+    private scope(savedSearch: SavedSearch) {
+        return {
+            notebookId: savedSearch.notebookId || undefined,
+            tagIds: (savedSearch.tagIds as string[] | null) || undefined,
+        };
+    }
+
+    // Reject queries the search would reject, and scopes outside the user's notebooks and tags
+    private async validate(userId: string, dto: UpdateSavedSearchDto) {
+        if (dto.query !== undefined) {
+            parseSearchQuery(dto.query);
+        }
+
+        if (dto.notebookId) {
+            const notebook = await this.prisma.notebook.findUnique({ where: { id: dto.notebookId } });
+            if (!notebook || notebook.ownerId !== userId) {
+                throw new BadRequestException('Notebook not found');
+            }
+        }
+
+        if (dto.tagIds?.length) {
+            const tagIds = [...new Set(dto.tagIds)];
+            const owned = await this.prisma.tag.count({ where: { id: { in: tagIds }, userId } });
+            if (owned !== tagIds.length) {
+                throw new BadRequestException('Tag not found');
+            }
+        }
+    }
+
+    private duplicateName(error: unknown) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return new ConflictException('A saved search with this name already exists');
+        }
+        return error;
+    }
+}
@@ -0,0 +1,58 @@
+import { Controller, Get, HttpCode, Post, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { ReindexMode, SearchService } from './search.service';
+import { SearchOutboxService } from './search-outbox.service';
+
+const REINDEX_MODES: ReindexMode[] = ['check', 'repair', 'full'];
+
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, AdminGuard)
+@Controller('admin/search')
+export class SearchAdminController {
+    constructor(
+        private readonly searchService: SearchService,
+        private readonly searchOutbox: SearchOutboxService,
+    ) { }
+
+    // Counts only, so it can be polled; POST reindex?mode=check compares every document
+    @Get('health')
+    @ApiOperation({ summary: 'Search index and outbox counts, with the result of the last reindex' })
+    async health() {
+        const [index, outbox] = await Promise.all([
+            this.searchService.getIndexStats(),
+            this.searchOutbox.getStats(),
+        ]);
+
+        return {
+            // The counts differ until the outbox catches up
+            healthy:
+                index.available &&
+                outbox.failed === 0 &&
+                (outbox.pending > 0 || index.databaseCount === index.indexCount),
+            ...index,
+            outbox,
+            lastReindex: this.searchService.getReindexRun(),
+        };
+    }
+
+    @Post('reindex')
+    @HttpCode(202)
+    @ApiOperation({ summary: 'Start a background reindex' })
+    @ApiQuery({ name: 'mode', required: false, enum: REINDEX_MODES, description: 'Defaults to repair' })
+    @ApiQuery({ name: 'batchSize', required: false, type: Number })
+    startReindex(@Query('mode') mode: ReindexMode = 'repair', @Query('batchSize') batchSize?: string) {
+        if (!REINDEX_MODES.includes(mode)) {
+            throw new BadRequestException(`mode must be one of: ${REINDEX_MODES.join(', ')}`);
+        }
+        return this.searchService.startReindex(mode, batchSize ? parseInt(batchSize, 10) : undefined);
+    }
+
+    @Get('reindex')
+    @ApiOperation({ summary: 'Progress of the current or last reindex' })
+    getReindex() {
+        return this.searchService.getReindexRun() ?? { status: 'idle' };
+    }
+}
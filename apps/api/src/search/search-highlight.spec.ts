@@ -0,0 +1,45 @@
+import { cropAndHighlight, hasMatch, highlightMatches } from './search-highlight';
+
+describe('highlightMatches', () => {
+    it('marks every match, ignoring case and accents', () => {
+        expect(highlightMatches('Reunião com a reuniao team', ['REUNIAO'])).toBe(
+            '<mark>Reunião</mark> com a <mark>reuniao</mark> team',
+        );
+    });
+
+    it('merges overlapping matches', () => {
+        expect(highlightMatches('notebook', ['note', 'book', 'tebo'])).toBe('<mark>notebook</mark>');
+    });
+
+    it('leaves text without matches unchanged', () => {
+        expect(highlightMatches('nothing here', ['missing', ''])).toBe('nothing here');
+    });
+});
+
+describe('cropAndHighlight', () => {
+    const words = Array.from({ length: 50 }, (_, i) => `w${i}`);
+    const text = words.join(' ');
+
+    it('keeps short text whole', () => {
+        expect(cropAndHighlight('  short text  ', ['text'])).toBe('short <mark>text</mark>');
+    });
+
+    it('centres the window on the first match', () => {
+        expect(cropAndHighlight(text, ['w25'], 5)).toBe('…w23 w24 <mark>w25</mark> w26 w27…');
+    });
+
+    it('starts at the beginning when nothing matches', () => {
+        expect(cropAndHighlight(text, ['missing'], 3)).toBe('w0 w1 w2…');
+    });
+
+    it('does not run past the end of the text', () => {
+        expect(cropAndHighlight(text, ['w49'], 3)).toBe('…w47 w48 <mark>w49</mark>');
+    });
+});
+
+describe('hasMatch', () => {
+    it('tells whether any word occurs', () => {
+        expect(hasMatch('Café au lait', ['cafe'])).toBe(true);
+        expect(hasMatch('Café au lait', ['tea'])).toBe(false);
+    });
+});
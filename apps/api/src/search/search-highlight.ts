@@ -0,0 +1,104 @@
+/**
+ * Meilisearch-style formatting for results that don't come from the index
+ * (database fallback, attachment snippets): `<mark>` around matches and
+ * text cropped to a window of words around the first match.
+ *
+ * Matching ignores case and accents, like the MySQL collation the database
+ * search relies on.
+ */
+
+export const HIGHLIGHT_PRE_TAG = '<mark>';
+export const HIGHLIGHT_POST_TAG = '</mark>';
+export const CROP_MARKER = '…';
+export const CROP_LENGTH = 30; // words, as Meilisearch's cropLength
+
+interface Range {
+    start: number;
+    end: number;
+}
+
+// Lowercased, accent-free copy of `text`, with the offset in `text` of every folded character
+function fold(text: string): { folded: string; offsets: number[] } {
+    let folded = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const piece = text[i]!.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+        for (const char of piece) {
+            folded += char;
+            offsets.push(i);
+        }
+    }
+    offsets.push(text.length);
+
+    return { folded, offsets };
+}
+
+// Ranges of `text` matching any of the words, sorted and merged
+function matchRanges(text: string, words: string[]): Range[] {
+    const { folded, offsets } = fold(text);
+    const ranges: Range[] = [];
+
+    for (const word of words) {
+        const needle = fold(word).folded;
+        if (!needle) continue;
+
+        for (let at = folded.indexOf(needle); at >= 0; at = folded.indexOf(needle, at + needle.length)) {
+            ranges.push({ start: offsets[at]!, end: offsets[at + needle.length - 1]! + 1 });
+        }
+    }
+
+    ranges.sort((a, b) => a.start - b.start);
+
+    const merged: Range[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+
+    return merged;
+}
+
+export function highlightMatches(text: string, words: string[]): string {
+    const ranges = matchRanges(text, words);
+    let result = '';
+    let position = 0;
+
+    for (const { start, end } of ranges) {
+        result += text.slice(position, start) + HIGHLIGHT_PRE_TAG + text.slice(start, end) + HIGHLIGHT_POST_TAG;
+        position = end;
+    }
+
+    return result + text.slice(position);
+}
+
+/**
+ * Crop to about `cropLength` words around the first match (the start of
+ * the text when nothing matches) and highlight the matches in the window.
+ */
+export function cropAndHighlight(text: string, words: string[], cropLength = CROP_LENGTH): string {
+    const tokens = [...text.matchAll(/\S+/g)];
+    if (tokens.length <= cropLength) return highlightMatches(text.trim(), words);
+
+    const [firstMatch] = matchRanges(text, words);
+    const matchToken = firstMatch
+        ? Math.max(0, tokens.findIndex((token) => token.index! + token[0].length > firstMatch.start))
+        : 0;
+
+    // Centre the window on the match, like Meilisearch
+    const first = Math.min(Math.max(0, matchToken - Math.floor(cropLength / 2)), tokens.length - cropLength);
+    const last = first + cropLength - 1;
+
+    const excerpt = text.slice(tokens[first]!.index!, tokens[last]!.index! + tokens[last]![0].length);
+
+    return `${first > 0 ? CROP_MARKER : ''}${highlightMatches(excerpt, words)}${last < tokens.length - 1 ? CROP_MARKER : ''}`;
+}
+
+// Whether the text contains any of the words
+export function hasMatch(text: string, words: string[]): boolean {
+    return matchRanges(text, words).length > 0;
+}
@@ -0,0 +1,144 @@
+import { ConfigService } from '@nestjs/config';
+import { SearchOutbox } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchOutboxService } from './search-outbox.service';
+import { SearchService } from './search.service';
+
+const NOW = new Date('2026-03-18T12:00:00Z');
+
+const entry = (id: number, noteId: string, attempts = 0): SearchOutbox => ({
+    id,
+    noteId,
+    attempts,
+    lastError: null,
+    availableAt: NOW,
+    failedAt: null,
+    createdAt: NOW,
+});
+
+describe('SearchOutboxService', () => {
+    let prisma: { searchOutbox: Record<'findMany' | 'deleteMany' | 'updateMany' | 'count' | 'findFirst', jest.Mock> };
+    let searchService: { syncNotes: jest.Mock };
+    let outbox: SearchOutboxService;
+
+    // Entries handed out by the first query of a drain
+    const queue = (...entries: SearchOutbox[]) => prisma.searchOutbox.findMany.mockResolvedValueOnce(entries);
+    const updatesOf = (id: number) =>
+        prisma.searchOutbox.updateMany.mock.calls.filter(([args]) => args.where.id.in.includes(id)).map(([args]) => args.data);
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+        jest.spyOn(console, 'warn').mockImplementation();
+        jest.spyOn(console, 'error').mockImplementation();
+
+        prisma = {
+            searchOutbox: {
+                findMany: jest.fn().mockResolvedValue([]),
+                deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+                updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+                count: jest.fn().mockResolvedValue(0),
+                findFirst: jest.fn().mockResolvedValue(null),
+            },
+        };
+        searchService = { syncNotes: jest.fn().mockResolvedValue(undefined) };
+
+        outbox = new SearchOutboxService(
+            new ConfigService({ SEARCH_OUTBOX_MAX_ATTEMPTS: '4' }),
+            prisma as unknown as PrismaService,
+            searchService as unknown as SearchService,
+        );
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('syncs each note once and removes the processed entries', async () => {
+        queue(entry(1, 'a'), entry(2, 'b'), entry(3, 'a'));
+
+        expect(await outbox.drain()).toBe(3);
+
+        expect(searchService.syncNotes).toHaveBeenCalledWith(['a', 'b']);
+        expect(prisma.searchOutbox.deleteMany).toHaveBeenCalledWith({
+            where: {
+                OR: [
+                    { id: { in: [1, 2, 3] } },
+                    { noteId: { in: ['a', 'b', 'a'] }, failedAt: { not: null } },
+                ],
+            },
+        });
+    });
+
+    it('only picks up due entries that were not set aside', async () => {
+        await outbox.drain();
+
+        expect(prisma.searchOutbox.findMany).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { failedAt: null, availableAt: { lte: NOW } } }),
+        );
+    });
+
+    it('retries a failing note on its own without holding back the others', async () => {
+        queue(entry(1, 'good', 2), entry(2, 'bad'), entry(3, 'other'));
+        searchService.syncNotes.mockImplementation(async (noteIds: string[]) => {
+            if (noteIds.includes('bad')) throw new Error('document too large');
+        });
+
+        expect(await outbox.drain()).toBe(2);
+
+        expect(prisma.searchOutbox.deleteMany.mock.calls[0][0].where.OR[0]).toEqual({ id: { in: [1, 3] } });
+        expect(updatesOf(2)).toEqual([
+            { attempts: 1, lastError: 'document too large', availableAt: new Date(NOW.getTime() + 1000) },
+        ]);
+        // The healthy note's earlier failures don't count against it
+        expect(updatesOf(1)).toEqual([]);
+    });
+
+    it('backs off by the attempts of that note alone', async () => {
+        queue(entry(1, 'a', 2), entry(2, 'a', 1));
+        searchService.syncNotes.mockRejectedValue(new Error('Meilisearch is not available'));
+
+        expect(await outbox.drain()).toBe(0);
+
+        expect(searchService.syncNotes).toHaveBeenCalledTimes(1);
+        expect(prisma.searchOutbox.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: [1, 2] } },
+            data: {
+                attempts: 3,
+                lastError: 'Meilisearch is not available',
+                availableAt: new Date(NOW.getTime() + 4000),
+            },
+        });
+    });
+
+    it('sets the entries of a note aside as failed once out of attempts', async () => {
+        queue(entry(1, 'a', 3));
+        searchService.syncNotes.mockRejectedValue(new Error('invalid document'));
+
+        await outbox.drain();
+
+        expect(prisma.searchOutbox.updateMany).toHaveBeenCalledWith({
+            where: { id: { in: [1] } },
+            data: { attempts: 4, lastError: 'invalid document', failedAt: NOW },
+        });
+    });
+
+    it('stops after a batch with failures and leaves the rest for the next run', async () => {
+        queue(entry(1, 'a'), entry(2, 'b'));
+        queue(entry(3, 'c'));
+        searchService.syncNotes.mockRejectedValue(new Error('Meilisearch is not available'));
+
+        await outbox.drain();
+
+        expect(prisma.searchOutbox.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports failed entries apart from the pending backlog', async () => {
+        prisma.searchOutbox.count.mockImplementation(async ({ where }) =>
+            where.failedAt === null ? (where.attempts ? 1 : 5) : 2,
+        );
+
+        expect(await outbox.getStats()).toEqual({ pending: 5, failing: 1, failed: 2, oldestAt: null });
+        expect(prisma.searchOutbox.count).toHaveBeenCalledWith({ where: { failedAt: { not: null } } });
+    });
+});
@@ -0,0 +1,173 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, SearchOutbox } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchService } from './search.service';
+
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Transactional outbox for the search index. Writers record the ids of
+ * changed notes in the same transaction as the change; a worker syncs those
+ * notes with Meilisearch and retries each note with backoff, setting its
+ * entries aside as failed once out of attempts.
+ */
+@Injectable()
+export class SearchOutboxService implements OnModuleInit, OnModuleDestroy {
+    private timer: NodeJS.Timeout | null = null;
+    private isRunning = false;
+    private readonly intervalMs: number;
+    private readonly batchSize: number;
+    private readonly maxAttempts: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly searchService: SearchService,
+    ) {
+        this.intervalMs = parseInt(configService.get<string>('SEARCH_OUTBOX_INTERVAL_MS') || '1000', 10);
+        this.batchSize = parseInt(configService.get<string>('SEARCH_OUTBOX_BATCH_SIZE') || '100', 10);
+        this.maxAttempts = parseInt(configService.get<string>('SEARCH_OUTBOX_MAX_ATTEMPTS') || '15', 10);
+    }
+
+    onModuleInit() {
+        this.timer = setInterval(() => this.drain(), this.intervalMs);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Pass the transaction client so the entries commit (or roll back) with the note change
+    async enqueue(noteIds: string[], client: Prisma.TransactionClient = this.prisma): Promise<void> {
+        if (noteIds.length === 0) return;
+
+        await client.searchOutbox.createMany({
+            data: [...new Set(noteIds)].map((noteId) => ({ noteId })),
+        });
+    }
+
+    async drain(): Promise<number> {
+        // Skip if the previous run is still going
+        if (this.isRunning) return 0;
+        this.isRunning = true;
+
+        let synced = 0;
+        try {
+            for (;;) {
+                const entries = await this.prisma.searchOutbox.findMany({
+                    where: { failedAt: null, availableAt: { lte: new Date() } },
+                    orderBy: { id: 'asc' },
+                    take: this.batchSize,
+                });
+                if (entries.length === 0) break;
+
+                const byNote = new Map<string, SearchOutbox[]>();
+                for (const entry of entries) {
+                    byNote.set(entry.noteId, [...(byNote.get(entry.noteId) ?? []), entry]);
+                }
+
+                let done = entries;
+                try {
+                    await this.searchService.syncNotes([...byNote.keys()]);
+                } catch (error) {
+                    done = await this.syncEach(byNote, error);
+                }
+
+                if (done.length > 0) {
+                    // Only the processed entries: changes recorded meanwhile get their own pass.
+                    // A successful sync also supersedes the note's earlier failed entries.
+                    await this.prisma.searchOutbox.deleteMany({
+                        where: {
+                            OR: [
+                                { id: { in: done.map((entry) => entry.id) } },
+                                { noteId: { in: done.map((entry) => entry.noteId) }, failedAt: { not: null } },
+                            ],
+                        },
+                    });
+                    synced += done.length;
+                }
+
+                // Leave the rest for the next run, in case Meilisearch is down
+                if (done.length < entries.length) break;
+            }
+        } catch (error) {
+            console.warn('Search outbox failed:', error.message);
+        } finally {
+            this.isRunning = false;
+        }
+
+        return synced;
+    }
+
+    // Backlog size, for the health endpoint
+    async getStats() {
+        const [pending, failing, failed, oldest] = await Promise.all([
+            this.prisma.searchOutbox.count({ where: { failedAt: null } }),
+            this.prisma.searchOutbox.count({ where: { failedAt: null, attempts: { gt: 0 } } }),
+            this.prisma.searchOutbox.count({ where: { failedAt: { not: null } } }),
+            this.prisma.searchOutbox.findFirst({
+                where: { failedAt: null },
+                orderBy: { id: 'asc' },
+                select: { createdAt: true },
+            }),
+        ]);
+
+        return { pending, failing, failed, oldestAt: oldest?.createdAt ?? null };
+    }
+
+    // After a failed batch, so a note that cannot be indexed doesn't hold back the others
+    private async syncEach(byNote: Map<string, SearchOutbox[]>, batchError: Error): Promise<SearchOutbox[]> {
+        if (byNote.size === 1) {
+            await this.retryLater([...byNote.values()][0], batchError);
+            return [];
+        }
+
+        const done: SearchOutbox[] = [];
+        for (const [noteId, entries] of byNote) {
+            try {
+                await this.searchService.syncNotes([noteId]);
+                done.push(...entries);
+            } catch (error) {
+                await this.retryLater(entries, error);
+            }
+        }
+
+        return done;
+    }
+
+    // Entries of one note, which share its attempt count
+    private async retryLater(entries: SearchOutbox[], error: Error) {
+        const noteId = entries[0].noteId;
+        const attempts = Math.max(...entries.map((entry) => entry.attempts)) + 1;
+        const where = { id: { in: entries.map((entry) => entry.id) } };
+
+        if (attempts >= this.maxAttempts) {
+            await this.prisma.searchOutbox.updateMany({
+                where,
+                data: { attempts, lastError: error.message, failedAt: new Date() },
+            });
+
+            console.error(`Search indexing of note ${noteId} failed after ${attempts} attempts, giving up:`, error.message);
+            return;
+        }
+
+        const backoffMs = Math.min(1000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+        await this.prisma.searchOutbox.updateMany({
+            where,
+            data: {
+                attempts,
+                lastError: error.message,
+                availableAt: new Date(Date.now() + backoffMs),
+            },
+        });
+
+        console.warn(
+            `Search indexing of note ${noteId} failed (attempt ${attempts}), retrying in ${backoffMs / 1000}s:`,
+            error.message,
+        );
+    }
+}
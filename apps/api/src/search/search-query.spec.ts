@@ -0,0 +1,182 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+    ResolvedSearchNames,
+    inList,
+    isRecordId,
+    parseSearchDate,
+    parseSearchQuery,
+    quote,
+    searchWords,
+    toMeilisearchQuery,
+} from './search-query';
+
+// Wednesday, 2026-03-18 14:30 local time
+const NOW = new Date(2026, 2, 18, 14, 30);
+
+const noNames = (): ResolvedSearchNames => ({ notebooks: new Map(), tags: new Map() });
+
+describe('parseSearchQuery', () => {
+    it('splits words, phrases and operators', () => {
+        const { terms, matchAny } = parseSearchQuery('report "exact phrase" notebook:"My Work" tag:urgent', NOW);
+
+        expect(matchAny).toBe(false);
+        expect(terms).toEqual([
+            { field: 'text', value: 'report', negated: false },
+            { field: 'text', value: 'exact phrase', negated: false },
+            { field: 'notebook', value: 'My Work', negated: false },
+            { field: 'tag', value: 'urgent', negated: false },
+        ]);
+    });
+
+    it('negates terms with a leading dash', () => {
+        const { terms } = parseSearchQuery('-tag:done -draft -', NOW);
+
+        expect(terms).toEqual([
+            { field: 'tag', value: 'done', negated: true },
+            { field: 'text', value: 'draft', negated: true },
+            { field: 'text', value: '-', negated: false },
+        ]);
+    });
+
+    it('switches to matching any term with any:', () => {
+        expect(parseSearchQuery('any: tag:a tag:b', NOW).matchAny).toBe(true);
+    });
+
+    it('treats unknown operators as text and skips incomplete ones', () => {
+        const { terms } = parseSearchQuery('http://example.com tag: intitle:', NOW);
+
+        expect(terms).toEqual([{ field: 'text', value: 'http://example.com', negated: false }]);
+    });
+
+    it('is case-insensitive for operators and normalizes values', () => {
+        const { terms } = parseSearchQuery('TAG:Urgent todo:TRUE resource:Image/*', NOW);
+
+        expect(terms).toEqual([
+            { field: 'tag', value: 'Urgent', negated: false },
+            { field: 'todo', value: 'true', negated: false },
+            { field: 'resource', value: 'image/*', negated: false },
+        ]);
+    });
+
+    it('resolves dates of created: and updated:', () => {
+        const [term] = parseSearchQuery('created:day-7', NOW).terms;
+
+        expect(term!.date).toEqual(new Date(2026, 2, 11));
+    });
+
+    it('rejects invalid todo values', () => {
+        expect(() => parseSearchQuery('todo:maybe', NOW)).toThrow(BadRequestException);
+    });
+});
+
+describe('parseSearchDate', () => {
+    it('resolves relative dates to the start of the period', () => {
+        expect(parseSearchDate('day', NOW)).toEqual(new Date(2026, 2, 18));
+        expect(parseSearchDate('week', NOW)).toEqual(new Date(2026, 2, 15)); // Sunday
+        expect(parseSearchDate('week-1', NOW)).toEqual(new Date(2026, 2, 8));
+        expect(parseSearchDate('month-2', NOW)).toEqual(new Date(2026, 0, 1));
+        expect(parseSearchDate('year', NOW)).toEqual(new Date(2026, 0, 1));
+    });
+
+    it('parses absolute dates with an optional time', () => {
+        expect(parseSearchDate('20260101', NOW)).toEqual(new Date(2026, 0, 1));
+        expect(parseSearchDate('20260101T093000', NOW)).toEqual(new Date(2026, 0, 1, 9, 30));
+    });
+
+    it('rejects impossible or unknown dates', () => {
+        expect(() => parseSearchDate('20260231', NOW)).toThrow(BadRequestException);
+        expect(() => parseSearchDate('yesterday', NOW)).toThrow(BadRequestException);
+    });
+});
+
+describe('quote and inList', () => {
+    it('escapes quotes and backslashes', () => {
+        expect(quote('say "hi"')).toBe('"say \\"hi\\""');
+        expect(quote('back\\slash')).toBe('"back\\\\slash"');
+        expect(inList('tagIds', ['a', 'b"c'])).toBe('tagIds IN ["a", "b\\"c"]');
+    });
+
+    it('keeps an injected id inside a single string value', () => {
+        const injected = 'x"] OR isTrashed = true OR tagIds IN ["y';
+        const filter = inList('tagIds', [injected]);
+
+        // Every quote from the input is escaped, so only the two delimiting ones remain
+        expect(filter.match(/(?<!\\)"/g)).toHaveLength(2);
+        expect(filter).toBe('tagIds IN ["x\\"] OR isTrashed = true OR tagIds IN [\\"y"]');
+    });
+});
+
+describe('isRecordId', () => {
+    it('accepts cuids only', () => {
+        expect(isRecordId('clx2k9q8a0000abcd1234efgh')).toBe(true);
+        expect(isRecordId('x"] OR isTrashed = true')).toBe(false);
+        expect(isRecordId('CLX2K9Q8A0000ABCD1234EFGH')).toBe(false);
+        expect(isRecordId('')).toBe(false);
+    });
+});
+
+describe('toMeilisearchQuery', () => {
+    it('turns words into the query and operators into filters', () => {
+        const resolved = noNames();
+        resolved.notebooks.set('Work', ['nb1', 'nb2']);
+
+        const compiled = toMeilisearchQuery(parseSearchQuery('budget notebook:Work -tag:Done', NOW), resolved);
+
+        expect(compiled).toEqual({
+            q: 'budget',
+            filter: '(notebookId IN ["nb1", "nb2"]) AND (NOT (tagNames IN ["done"]))',
+            matchesNothing: false,
+            matchingStrategy: 'all',
+            attributesToSearchOn: undefined,
+        });
+    });
+
+    it('escapes operator values in the filter', () => {
+        const compiled = toMeilisearchQuery(parseSearchQuery('tag:a"]OR(x', NOW), noNames());
+
+        expect(compiled!.filter).toBe('(tagNames IN ["a\\"]or(x"])');
+    });
+
+    it('matches nothing when a notebook does not exist', () => {
+        const compiled = toMeilisearchQuery(parseSearchQuery('notebook:Missing', NOW), noNames());
+
+        expect(compiled!.matchesNothing).toBe(true);
+        expect(compiled!.filter).toBeNull();
+    });
+
+    it('matches everything when a negated notebook does not exist', () => {
+        const compiled = toMeilisearchQuery(parseSearchQuery('-notebook:Missing', NOW), noNames());
+
+        expect(compiled!.matchesNothing).toBe(false);
+        expect(compiled!.filter).toBeNull();
+    });
+
+    it('ORs filters with any:', () => {
+        const compiled = toMeilisearchQuery(parseSearchQuery('any: tag:a todo:false', NOW), noNames());
+
+        expect(compiled!.filter).toBe('(tagNames IN ["a"]) OR (todoStates = "unchecked")');
+        expect(compiled!.matchingStrategy).toBe('last');
+    });
+
+    it('searches titles only for intitle:', () => {
+        const compiled = toMeilisearchQuery(parseSearchQuery('intitle:"q3 plan"', NOW), noNames());
+
+        expect(compiled!.q).toBe('"q3 plan"');
+        expect(compiled!.attributesToSearchOn).toEqual(['title']);
+    });
+
+    it('leaves queries the index cannot express to the database', () => {
+        expect(toMeilisearchQuery(parseSearchQuery('-draft', NOW), noNames())).toBeNull();
+        expect(toMeilisearchQuery(parseSearchQuery('budget intitle:plan', NOW), noNames())).toBeNull();
+        expect(toMeilisearchQuery(parseSearchQuery('any: budget tag:a', NOW), noNames())).toBeNull();
+    });
+});
+
+describe('searchWords', () => {
+    it('returns positive words, with intitle: terms for titles', () => {
+        const parsed = parseSearchQuery('budget -draft intitle:plan tag:a', NOW);
+
+        expect(searchWords(parsed)).toEqual(['budget']);
+        expect(searchWords(parsed, 'intitle')).toEqual(['budget', 'plan']);
+    });
+});
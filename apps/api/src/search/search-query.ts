@@ -0,0 +1,317 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@evernote-clone/database';
+
+/**
+ * Evernote-style search grammar:
+ *
+ *   notebook:"Work"   tag:urgent   -tag:done   intitle:report
+ *   created:day-7     updated:20260101         todo:false
+ *   resource:image/*  any:         "exact phrase"   -word
+ *
+ * Terms are ANDed unless the query contains `any:`. Any term can be negated
+ * with a leading `-`. Dates are inclusive lower bounds (negated: upper bounds).
+ */
+
+export type SearchField =
+    | 'text'
+    | 'intitle'
+    | 'notebook'
+    | 'tag'
+    | 'created'
+    | 'updated'
+    | 'todo'
+    | 'resource';
+
+export interface SearchTerm {
+    field: SearchField;
+    value: string;
+    negated: boolean;
+    date?: Date; // created/updated only
+}
+
+export interface ParsedSearchQuery {
+    terms: SearchTerm[];
+    matchAny: boolean;
+}
+
+const OPERATORS = new Set<string>(['intitle', 'notebook', 'tag', 'created', 'updated', 'todo', 'resource']);
+const TODO_VALUES = new Set(['true', 'false', '*']);
+
+// Split on whitespace, keeping quoted sections together
+function tokenize(input: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (const char of input) {
+        if (char === '"') inQuotes = !inQuotes;
+        if (/\s/.test(char) && !inQuotes) {
+            if (current) tokens.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current) tokens.push(current);
+
+    return tokens;
+}
+
+const unquote = (value: string) => value.replace(/^"(.*?)"?$/, '$1');
+
+// `day`, `week-2`, `month`, `year-1`, `20260101`, `20260101T093000`
+export function parseSearchDate(value: string, now = new Date()): Date {
+    const relative = /^(day|week|month|year)(?:-(\d+))?$/i.exec(value);
+    if (relative) {
+        const unit = relative[1]!.toLowerCase();
+        const amount = parseInt(relative[2] || '0', 10);
+        const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        if (unit === 'day') date.setDate(date.getDate() - amount);
+        if (unit === 'week') date.setDate(date.getDate() - date.getDay() - 7 * amount);
+        if (unit === 'month') date.setMonth(date.getMonth() - amount, 1);
+        if (unit === 'year') date.setFullYear(date.getFullYear() - amount, 0, 1);
+
+        return date;
+    }
+
+    const absolute = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/i.exec(value);
+    if (absolute) {
+        const [year, month, day, hours, minutes, seconds] = absolute.slice(1).map((part) => parseInt(part || '0', 10));
+        const date = new Date(year!, month! - 1, day!, hours, minutes, seconds);
+        if (date.getMonth() === month! - 1 && date.getDate() === day) return date;
+    }
+
+    throw new BadRequestException(`Invalid search date "${value}"`);
+}
+
+export function parseSearchQuery(input: string, now = new Date()): ParsedSearchQuery {
+    const terms: SearchTerm[] = [];
+    let matchAny = false;
+
+    for (const token of tokenize(input)) {
+        const negated = token.length > 1 && token.startsWith('-');
+        const body = negated ? token.slice(1) : token;
+
+        if (body.toLowerCase() === 'any:') {
+            matchAny = true;
+            continue;
+        }
+
+        const operator = /^([a-z]+):(.*)$/i.exec(body);
+        const field = operator?.[1]!.toLowerCase();
+
+        if (!operator || !field || !OPERATORS.has(field)) {
+            const value = unquote(body).trim();
+            if (value) terms.push({ field: 'text', value, negated });
+            continue;
+        }
+
+        const value = unquote(operator[2]!).trim();
+        if (!value) continue; // Incomplete operator, e.g. while typing
+
+        if (field === 'created' || field === 'updated') {
+            terms.push({ field, value, negated, date: parseSearchDate(value, now) });
+        } else if (field === 'todo') {
+            if (!TODO_VALUES.has(value.toLowerCase())) {
+                throw new BadRequestException(`Invalid todo value "${value}" (expected true, false or *)`);
+            }
+            terms.push({ field, value: value.toLowerCase(), negated });
+        } else if (field === 'resource') {
+            terms.push({ field, value: value.toLowerCase(), negated });
+        } else {
+            terms.push({ field: field as SearchField, value, negated });
+        }
+    }
+
+    return { terms, matchAny };
+}
+
+// ============================================
+// Meilisearch
+// ============================================
+
+// Notebook ids for each `notebook:` value and tag names for each `tag:` wildcard (as written in the query)
+export interface ResolvedSearchNames {
+    notebooks: Map<string, string[]>;
+    tags: Map<string, string[]>;
+}
+
+export interface MeilisearchQuery {
+    q: string;
+    filter: string | null; // null: no restriction
+    matchesNothing: boolean; // e.g. `notebook:` naming a notebook that doesn't exist
+    matchingStrategy: 'all' | 'last';
+    attributesToSearchOn?: string[];
+}
+
+// A filter condition, or a constant when a term can't match / always matches
+type Condition = string | boolean;
+
+// Filter values are always quoted, so ids and names can't break out of the expression
+export const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+export const inList = (attribute: string, values: string[]) => `${attribute} IN [${values.map(quote).join(', ')}]`;
+
+// Record ids are Prisma cuids
+export const isRecordId = (value: string) => /^c[a-z0-9]{24}$/.test(value);
+
+function combine(conditions: Condition[], operator: 'AND' | 'OR'): Condition {
+    const absorbing = operator === 'OR';
+    if (conditions.includes(absorbing)) return absorbing;
+
+    const filters = conditions.filter((condition): condition is string => typeof condition === 'string');
+    if (filters.length === 0) return !absorbing;
+    return filters.map((filter) => `(${filter})`).join(` ${operator} `);
+}
+
+function meilisearchCondition(term: SearchTerm, resolved: ResolvedSearchNames): Condition {
+    let condition: Condition;
+
+    switch (term.field) {
+        case 'notebook': {
+            const ids = resolved.notebooks.get(term.value) || [];
+            condition = ids.length > 0 && inList('notebookId', ids);
+            break;
+        }
+        case 'tag': {
+            // Tag names are stored lowercase
+            const names = term.value.endsWith('*')
+                ? resolved.tags.get(term.value) || []
+                : [term.value.toLowerCase()];
+            condition = names.length > 0 && inList('tagNames', names);
+            break;
+        }
+        case 'created':
+        case 'updated':
+            condition = `${term.field}At >= ${term.date!.getTime()}`;
+            break;
+        case 'todo':
+            condition =
+                term.value === '*'
+                    ? inList('todoStates', ['checked', 'unchecked'])
+                    : `todoStates = ${quote(term.value === 'true' ? 'checked' : 'unchecked')}`;
+            break;
+        case 'resource':
+            condition =
+                term.value === '*' ? 'resourceTypes IS NOT EMPTY' : `resourceTypes = ${quote(term.value)}`;
+            break;
+        default:
+            throw new Error(`Not a filter term: ${term.field}`);
+    }
+
+    if (!term.negated) return condition;
+    return typeof condition === 'boolean' ? !condition : `NOT (${condition})`;
+}
+
+/**
+ * Compile a parsed query for the notes index. Returns null when the query
+ * uses something the index can't express (negated words, title-only words
+ * mixed with full-text words, `any:` across words and filters), in which
+ * case the database search handles it.
+ */
+export function toMeilisearchQuery(
+    parsed: ParsedSearchQuery,
+    resolved: ResolvedSearchNames,
+): MeilisearchQuery | null {
+    const text = parsed.terms.filter((term) => term.field === 'text');
+    const title = parsed.terms.filter((term) => term.field === 'intitle');
+    const filters = parsed.terms.filter((term) => term.field !== 'text' && term.field !== 'intitle');
+    const words = text.length > 0 ? text : title;
+
+    if (words.some((term) => term.negated)) return null;
+    if (text.length > 0 && title.length > 0) return null;
+    if (parsed.matchAny && words.length > 0 && filters.length > 0) return null;
+
+    const condition = combine(
+        filters.map((term) => meilisearchCondition(term, resolved)),
+        parsed.matchAny ? 'OR' : 'AND',
+    );
+
+    return {
+        q: words.map((term) => (/\s/.test(term.value) ? quote(term.value) : term.value)).join(' '),
+        filter: typeof condition === 'string' ? condition : null,
+        matchesNothing: condition === false,
+        matchingStrategy: parsed.matchAny ? 'last' : 'all',
+        attributesToSearchOn: title.length > 0 ? ['title'] : undefined,
+    };
+}
+
+// ============================================
+// Database
+// ============================================
+
+// `Work*` matches names starting with "Work"
+function nameFilter(value: string): Prisma.StringFilter {
+    return value.endsWith('*') ? { startsWith: value.slice(0, -1) } : { equals: value };
+}
+
+function prismaCondition(term: SearchTerm): Prisma.NoteWhereInput {
+    switch (term.field) {
+        case 'text':
+            return {
+                OR: [
+                    { title: { contains: term.value } },
+                    { plainText: { contains: term.value } },
+                    { tags: { some: { tag: { name: { contains: term.value } } } } },
+                    {
+                        attachments: {
+                            some: {
+                                OR: [
+                                    { filename: { contains: term.value } },
+                                    { extractedText: { contains: term.value } },
+                                ],
+                            },
+                        },
+                    },
+                ],
+            };
+        case 'intitle':
+            return { title: { contains: term.value } };
+        case 'notebook':
+            return { notebook: { name: nameFilter(term.value) } };
+        case 'tag':
+            return { tags: { some: { tag: { name: nameFilter(term.value) } } } };
+        case 'created':
+            return { createdAt: { gte: term.date } };
+        case 'updated':
+            return { updatedAt: { gte: term.date } };
+        case 'todo': {
+            // Every `checked` attribute in the document belongs to a task item
+            const checked = (value: boolean): Prisma.NoteWhereInput => ({
+                content: { path: '$**.checked', array_contains: [value] },
+            });
+            if (term.value === '*') return { OR: [checked(true), checked(false)] };
+            return checked(term.value === 'true');
+        }
+        case 'resource':
+            if (term.value === '*') return { attachments: { some: {} } };
+            return {
+                attachments: {
+                    some: {
+                        mimeType: term.value.endsWith('/*')
+                            ? { startsWith: term.value.slice(0, -1) }
+                            : { equals: term.value },
+                    },
+                },
+            };
+    }
+}
+
+// Compile a parsed query into a Prisma filter (MySQL collations are case-insensitive)
+export function toPrismaWhere(parsed: ParsedSearchQuery): Prisma.NoteWhereInput {
+    if (parsed.terms.length === 0) return {};
+
+    const conditions = parsed.terms.map((term) => {
+        const condition = prismaCondition(term);
+        return term.negated ? { NOT: condition } : condition;
+    });
+
+    return parsed.matchAny ? { OR: conditions } : { AND: conditions };
+}
+
+// Words to look for in matched text (positive full-text terms, plus `intitle:` terms for titles)
+export function searchWords(parsed: ParsedSearchQuery, field: 'text' | 'intitle' = 'text'): string[] {
+    return parsed.terms
+        .filter((term) => (term.field === 'text' || term.field === field) && !term.negated)
+        .map((term) => term.value);
+}
@@ -1,8 +1,9 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators';
 import { SearchService } from './search.service';
+import { isRecordId } from './search-query';
 import { User } from '@evernote-clone/database';
 
 @ApiTags('search')
@@ -14,19 +15,35 @@ export class SearchController {
 
     @Get()
     @ApiOperation({ summary: 'Search notes' })
-    @ApiQuery({ name: 'q', required: true })
+    @ApiQuery({
+        name: 'q',
+        required: true,
+        description: 'Free text plus Evernote-style operators: notebook:, tag:, -tag:, intitle:, created:, updated:, todo:, resource:, any:',
+    })
     @ApiQuery({ name: 'notebookId', required: false })
+    @ApiQuery({ name: 'tagIds', required: false, description: 'Comma-separated tag ids (any of)' })
     @ApiQuery({ name: 'limit', required: false, type: Number })
     @ApiQuery({ name: 'offset', required: false, type: Number })
     async search(
         @CurrentUser() user: User,
         @Query('q') query: string,
         @Query('notebookId') notebookId?: string,
+        @Query('tagIds') tagIds?: string,
         @Query('limit') limit?: number,
         @Query('offset') offset?: number,
     ): Promise<{ hits: any[]; total: number; processingTimeMs: number }> {
+        const tagIdList = tagIds ? tagIds.split(',').filter(Boolean) : undefined;
+
+        if (notebookId && !isRecordId(notebookId)) {
+            throw new BadRequestException('Invalid notebookId');
+        }
+        if (tagIdList?.some((id) => !isRecordId(id))) {
+            throw new BadRequestException('Invalid tagIds');
+        }
+
         return this.searchService.search(user.id, query, {
             notebookId,
+            tagIds: tagIdList,
             limit,
             offset,
         });
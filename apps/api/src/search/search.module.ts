@@ -1,12 +1,16 @@
 import { Module } from '@nestjs/common';
 import { SearchService } from './search.service';
+import { SearchOutboxService } from './search-outbox.service';
 import { SearchController } from './search.controller';
+import { SavedSearchesService } from './saved-searches.service';
+import { SavedSearchesController } from './saved-searches.controller';
+import { SearchAdminController } from './search-admin.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
     imports: [PrismaModule],
-    providers: [SearchService],
-    controllers: [SearchController],
-    exports: [SearchService],
+    providers: [SearchService, SearchOutboxService, SavedSearchesService],
+    controllers: [SearchController, SavedSearchesController, SearchAdminController],
+    exports: [SearchService, SearchOutboxService],
 })
 export class SearchModule { }
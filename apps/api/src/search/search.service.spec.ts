@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchService } from './search.service';
+
+const NOW = new Date('2026-03-18T12:00:00Z');
+
+describe('SearchService index maintenance', () => {
+    let tags: { tag: { id: string; name: string } }[];
+    let documents: Map<string, Record<string, unknown>>;
+    let prisma: Record<string, any>;
+    let index: Record<string, jest.Mock>;
+    let search: SearchService;
+
+    beforeEach(() => {
+        tags = [{ tag: { id: 'tag-1', name: 'work' } }];
+        documents = new Map();
+
+        const note = {
+            id: 'note',
+            title: 'Plan',
+            plainText: 'draft',
+            content: null,
+            authorId: 'author',
+            notebookId: null,
+            isTrashed: false,
+            createdAt: NOW,
+            updatedAt: NOW,
+        };
+        prisma = {
+            note: {
+                count: jest.fn(async () => 1),
+                findMany: jest.fn(async ({ cursor }) => (cursor ? [] : [note])),
+            },
+            noteTag: { findMany: jest.fn(async () => tags) },
+            noteShare: { findMany: jest.fn(async () => []) },
+            attachment: { findMany: jest.fn(async () => []) },
+        };
+        index = {
+            getStats: jest.fn(async () => ({ numberOfDocuments: documents.size, isIndexing: false })),
+            getDocuments: jest.fn(async () => ({ results: [...documents.values()] })),
+            addDocuments: jest.fn(async (added: Record<string, unknown>[]) => {
+                for (const document of added) documents.set(document.id as string, document);
+                return { taskUid: 1 };
+            }),
+            waitForTask: jest.fn(),
+        };
+
+        search = new SearchService(new ConfigService({}), prisma as unknown as PrismaService);
+        Object.assign(search, { notesIndex: index, meiliSearchAvailable: true });
+    });
+
+    it('reports a document as stale when only the tags of its note changed', async () => {
+        await search.reindex('repair');
+        expect(await search.reindex('check')).toMatchObject({ missing: 0, stale: 0 });
+
+        tags = [{ tag: { id: 'tag-2', name: 'home' } }];
+
+        expect(await search.reindex('check')).toMatchObject({ missing: 0, stale: 1, indexed: 0 });
+        expect(await search.reindex('repair')).toMatchObject({ stale: 1, indexed: 1 });
+        expect(documents.get('note')).toMatchObject({ tagNames: ['home'] });
+    });
+
+    it('reports counts without reading the documents', async () => {
+        documents.set('note', { id: 'note' });
+
+        expect(await search.getIndexStats()).toEqual({
+            available: true,
+            databaseCount: 1,
+            indexCount: 1,
+            isIndexing: false,
+        });
+        expect(index.getDocuments).not.toHaveBeenCalled();
+    });
+});
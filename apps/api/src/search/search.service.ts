@@ -1,8 +1,28 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ConflictException, Injectable, OnModuleInit, ServiceUnavailableException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { MeiliSearch, Index } from 'meilisearch';
-import { Note } from '@evernote-clone/database';
+import { Note, Prisma } from '@evernote-clone/database';
 import { PrismaService } from '../prisma/prisma.service';
+import { taskItemStates } from '../notes/tiptap.utils';
+import {
+    ParsedSearchQuery,
+    ResolvedSearchNames,
+    inList,
+    parseSearchQuery,
+    quote,
+    searchWords,
+    toMeilisearchQuery,
+    toPrismaWhere,
+} from './search-query';
+import {
+    CROP_LENGTH,
+    CROP_MARKER,
+    HIGHLIGHT_POST_TAG,
+    HIGHLIGHT_PRE_TAG,
+    cropAndHighlight,
+    highlightMatches,
+} from './search-highlight';
 
 interface NoteDocument {
     id: string;
@@ -10,8 +30,70 @@ interface NoteDocument {
     plainText: string;
     authorId: string;
     notebookId: string | null;
+    tagIds: string[];
+    tagNames: string[];
+    accessUserIds: string[]; // author and everyone the note is shared with
+    isTrashed: boolean;
+    todoStates: ('checked' | 'unchecked')[];
+    resourceTypes: string[]; // e.g. "image/png" and "image/*"
+    attachmentNames: string[];
+    attachmentText: string[]; // extracted text, one entry per attachment
     createdAt: number;
     updatedAt: number;
+    digest: string; // hash of the fields above, to spot documents that differ from their note
+}
+
+// check: report only; repair: write missing/stale documents and drop orphans; full: rewrite everything
+export type ReindexMode = 'check' | 'repair' | 'full';
+
+export interface IndexReport {
+    mode: ReindexMode;
+    databaseCount: number;
+    indexCount: number;
+    missing: number; // notes with no document
+    stale: number; // documents that differ from their note (content, tags, shares, attachments)
+    orphaned: number; // documents whose note no longer exists
+    indexed: number; // documents written
+    deleted: number; // orphans removed
+    durationMs: number;
+}
+
+// Cheap to compute, for the health endpoint; reindex('check') compares every document
+export interface IndexStats {
+    available: boolean;
+    databaseCount: number;
+    indexCount: number | null;
+    isIndexing: boolean;
+}
+
+export interface ReindexProgress {
+    phase: 'notes' | 'orphans';
+    processed: number;
+    total: number;
+}
+
+export interface ReindexRun {
+    mode: ReindexMode;
+    status: 'running' | 'completed' | 'failed';
+    startedAt: Date;
+    finishedAt: Date | null;
+    progress: ReindexProgress | null;
+    report: IndexReport | null;
+    error: string | null;
+}
+
+// The attachment whose name or text matched, shown with the hit
+export interface MatchedAttachment {
+    id: string;
+    filename: string;
+    snippet: string | null;
+}
+
+export interface SearchOptions {
+    notebookId?: string;
+    tagIds?: string[];
+    limit?: number;
+    offset?: number;
 }
 
 @Injectable()
@@ -19,6 +101,7 @@ export class SearchService implements OnModuleInit {
     private client: MeiliSearch;
     private notesIndex: Index<NoteDocument>;
     private meiliSearchAvailable = false;
+    private reindexRun: ReindexRun | null = null;
 
     constructor(
         private readonly configService: ConfigService,
@@ -31,14 +114,31 @@ export class SearchService implements OnModuleInit {
     }
 
     async onModuleInit() {
+        await this.connect();
+    }
+
+    // Set up the index; retried by syncNotes() while Meilisearch is down
+    private async connect(): Promise<boolean> {
         try {
             // Initialize notes index
             this.notesIndex = this.client.index('notes');
 
             // Configure searchable and filterable attributes
             await this.notesIndex.updateSettings({
-                searchableAttributes: ['title', 'plainText'],
-                filterableAttributes: ['authorId', 'notebookId'],
+                searchableAttributes: ['title', 'plainText', 'tagNames', 'attachmentNames', 'attachmentText'],
+                filterableAttributes: [
+                    'id',
+                    'authorId',
+                    'accessUserIds',
+                    'isTrashed',
+                    'notebookId',
+                    'tagIds',
+                    'tagNames',
+                    'todoStates',
+                    'resourceTypes',
+                    'createdAt',
+                    'updatedAt',
+                ],
                 sortableAttributes: ['createdAt', 'updatedAt'],
             });
 
@@ -48,90 +148,193 @@ export class SearchService implements OnModuleInit {
             this.meiliSearchAvailable = false;
             console.warn('⚠️ Meilisearch not available, using database search fallback:', error.message);
         }
+
+        return this.meiliSearchAvailable;
     }
 
-    async indexNote(note: Note & { tags?: any[] }): Promise<void> {
-        if (!this.meiliSearchAvailable) return;
+    /**
+     * Bring the documents of these notes in line with the database: notes
+     * that exist are (re)indexed, the others removed. Throws on failure so
+     * the outbox worker can retry.
+     */
+    async syncNotes(noteIds: string[]): Promise<void> {
+        if (!this.meiliSearchAvailable && !(await this.connect())) {
+            throw new ServiceUnavailableException('Meilisearch is not available');
+        }
+
+        const notes = await this.prisma.note.findMany({ where: { id: { in: noteIds } } });
+        const existing = new Set(notes.map((note) => note.id));
+        const removed = noteIds.filter((id) => !existing.has(id));
 
-        try {
-            const document: NoteDocument = {
-                id: note.id,
-                title: note.title,
-                plainText: note.plainText || '',
-                authorId: note.authorId,
-                notebookId: note.notebookId,
-                createdAt: note.createdAt.getTime(),
-                updatedAt: note.updatedAt.getTime(),
-            };
+        const taskUids: number[] = [];
+        if (notes.length > 0) {
+            const documents = await Promise.all(notes.map((note) => this.toDocument(note)));
+            taskUids.push((await this.notesIndex.addDocuments(documents, { primaryKey: 'id' })).taskUid);
+        }
+        if (removed.length > 0) {
+            taskUids.push((await this.notesIndex.deleteDocuments(removed)).taskUid);
+        }
 
-            await this.notesIndex.addDocuments([document]);
-        } catch (error) {
-            console.warn('Failed to index note:', error.message);
+        const tasks = await this.notesIndex.waitForTasks(taskUids, { timeOutMs: 60_000 });
+        const failed = tasks.find((task) => task.status === 'failed');
+        if (failed) {
+            throw new Error(failed.error?.message || `Indexing task ${failed.uid} failed`);
         }
     }
 
-    async deleteNote(noteId: string): Promise<void> {
-        if (!this.meiliSearchAvailable) return;
+    private async toDocument(note: Note): Promise<NoteDocument> {
+        const [tags, shares, attachments] = await Promise.all([
+            this.prisma.noteTag.findMany({
+                where: { noteId: note.id },
+                select: { tag: { select: { id: true, name: true } } },
+            }),
+            this.prisma.noteShare.findMany({ where: { noteId: note.id }, select: { userId: true } }),
+            this.prisma.attachment.findMany({
+                where: { noteId: note.id },
+                select: { filename: true, mimeType: true, extractedText: true },
+            }),
+        ]);
 
-        try {
-            await this.notesIndex.deleteDocument(noteId);
-        } catch (error) {
-            console.warn('Failed to delete note from index:', error.message);
+        const todos = taskItemStates(note.content as any);
+        const resourceTypes = new Set<string>();
+        for (const { mimeType } of attachments) {
+            const type = mimeType.toLowerCase();
+            resourceTypes.add(type);
+            resourceTypes.add(`${type.split('/')[0]}/*`);
         }
+
+        const document: Omit<NoteDocument, 'digest'> = {
+            id: note.id,
+            title: note.title,
+            plainText: note.plainText || '',
+            authorId: note.authorId,
+            notebookId: note.notebookId,
+            tagIds: tags.map(({ tag }) => tag.id),
+            tagNames: tags.map(({ tag }) => tag.name),
+            accessUserIds: [note.authorId, ...shares.map((share) => share.userId)],
+            isTrashed: note.isTrashed,
+            todoStates: [
+                ...(todos.checked ? ['checked' as const] : []),
+                ...(todos.unchecked ? ['unchecked' as const] : []),
+            ],
+            resourceTypes: [...resourceTypes],
+            attachmentNames: attachments.map((attachment) => attachment.filename),
+            attachmentText: attachments.map((attachment) => attachment.extractedText || ''),
+            createdAt: note.createdAt.getTime(),
+            updatedAt: note.updatedAt.getTime(),
+        };
+
+        // Tag, share and attachment changes don't touch the note's updatedAt
+        return { ...document, digest: createHash('sha1').update(JSON.stringify(document)).digest('hex') };
     }
 
     async search(
         userId: string,
         query: string,
-        options?: {
-            notebookId?: string;
-            limit?: number;
-            offset?: number;
-        },
+        options?: SearchOptions,
     ) {
         const startTime = Date.now();
+        const parsed = parseSearchQuery(query || '');
 
         // Try MeiliSearch first if available
         if (this.meiliSearchAvailable) {
             try {
-                const filters: string[] = [`authorId = "${userId}"`];
+                const compiled = toMeilisearchQuery(parsed, await this.resolveNames(userId, parsed));
 
-                if (options?.notebookId) {
-                    filters.push(`notebookId = "${options.notebookId}"`);
+                if (compiled?.matchesNothing) {
+                    return { hits: [], total: 0, processingTimeMs: Date.now() - startTime };
                 }
 
-                const result = await this.notesIndex.search(query, {
-                    filter: filters.join(' AND '),
-                    limit: options?.limit || 20,
-                    offset: options?.offset || 0,
-                    attributesToRetrieve: ['id', 'title', 'plainText', 'notebookId', 'updatedAt'],
-                    attributesToHighlight: ['title', 'plainText'],
-                    highlightPreTag: '<mark>',
-                    highlightPostTag: '</mark>',
-                });
+                // null: the query needs the database search
+                if (compiled) {
+                    // Same scope as the database search: own and shared notes, not trashed
+                    const filters: string[] = [`accessUserIds = ${quote(userId)}`, 'isTrashed = false'];
+
+                    if (options?.notebookId) {
+                        filters.push(`notebookId = ${quote(options.notebookId)}`);
+                    }
 
-                return {
-                    hits: result.hits,
-                    total: result.estimatedTotalHits,
-                    processingTimeMs: result.processingTimeMs,
-                };
+                    if (options?.tagIds?.length) {
+                        filters.push(inList('tagIds', options.tagIds));
+                    }
+
+                    if (compiled.filter) {
+                        filters.push(`(${compiled.filter})`);
+                    }
+
+                    const result = await this.notesIndex.search(compiled.q, {
+                        filter: filters.join(' AND '),
+                        matchingStrategy: compiled.matchingStrategy,
+                        attributesToSearchOn: compiled.attributesToSearchOn,
+                        limit: options?.limit || 20,
+                        offset: options?.offset || 0,
+                        attributesToRetrieve: ['id', 'title', 'plainText', 'notebookId', 'createdAt', 'updatedAt'],
+                        attributesToHighlight: ['title', 'plainText'],
+                        attributesToCrop: ['plainText'],
+                        cropLength: CROP_LENGTH,
+                        cropMarker: CROP_MARKER,
+                        highlightPreTag: HIGHLIGHT_PRE_TAG,
+                        highlightPostTag: HIGHLIGHT_POST_TAG,
+                    });
+
+                    return {
+                        hits: await this.withMatchedAttachments(result.hits, parsed),
+                        total: result.estimatedTotalHits,
+                        processingTimeMs: result.processingTimeMs,
+                    };
+                }
             } catch (error) {
                 console.warn('MeiliSearch query failed, falling back to database:', error.message);
             }
         }
 
         // Database fallback search using Prisma
-        return this.searchInDatabase(userId, query, options, startTime);
+        return this.searchInDatabase(userId, parsed, options, startTime);
+    }
+
+    /**
+     * Notebook ids named by `notebook:` terms and tag names matched by `tag:`
+     * wildcards. Shared notes live in other users' notebooks and carry their
+     * tags, so both are looked up among the notes the user can access.
+     */
+    private async resolveNames(userId: string, parsed: ParsedSearchQuery): Promise<ResolvedSearchNames> {
+        const resolved: ResolvedSearchNames = { notebooks: new Map(), tags: new Map() };
+        const nameFilter = (value: string) =>
+            value.endsWith('*') ? { startsWith: value.slice(0, -1) } : value;
+        const sharedWithUser = { some: { shares: { some: { userId } } } };
+
+        for (const term of parsed.terms) {
+            if (term.field === 'notebook' && !resolved.notebooks.has(term.value)) {
+                const notebooks = await this.prisma.notebook.findMany({
+                    where: {
+                        name: nameFilter(term.value),
+                        OR: [{ ownerId: userId }, { notes: sharedWithUser }],
+                    },
+                    select: { id: true },
+                });
+                resolved.notebooks.set(term.value, notebooks.map((notebook) => notebook.id));
+            }
+
+            if (term.field === 'tag' && term.value.endsWith('*') && !resolved.tags.has(term.value)) {
+                const tags = await this.prisma.tag.findMany({
+                    where: {
+                        name: nameFilter(term.value),
+                        OR: [{ userId }, { notes: { some: { note: { shares: { some: { userId } } } } } }],
+                    },
+                    select: { name: true },
+                    distinct: ['name'],
+                });
+                resolved.tags.set(term.value, tags.map((tag) => tag.name));
+            }
+        }
+
+        return resolved;
     }
 
     private async searchInDatabase(
         userId: string,
-        query: string,
-        options?: {
-            notebookId?: string;
-            limit?: number;
-            offset?: number;
-        },
+        parsed: ParsedSearchQuery,
+        options?: SearchOptions,
         startTime?: number,
     ) {
         const searchStartTime = startTime || Date.now();
@@ -145,69 +348,297 @@ export class SearchService implements OnModuleInit {
                 { shares: { some: { userId } } },
             ],
             isTrashed: false,
-            AND: [
-                {
-                    OR: [
-                        { title: { contains: query, mode: 'insensitive' } },
-                        { plainText: { contains: query, mode: 'insensitive' } },
-                    ],
-                },
-            ],
+            AND: [toPrismaWhere(parsed)],
         };
 
         if (options?.notebookId) {
             where.notebookId = options.notebookId;
         }
 
-        // Get matching notes
-        const [notes, total] = await Promise.all([
+        if (options?.tagIds?.length) {
+            where.tags = { some: { tagId: { in: options.tagIds } } };
+        }
+
+        // Same attributes as the index returns
+        const findNotes = (filter: Prisma.NoteWhereInput, skip: number, take: number) =>
             this.prisma.note.findMany({
-                where,
+                where: filter,
                 select: {
                     id: true,
                     title: true,
                     plainText: true,
                     notebookId: true,
-                    updatedAt: true,
                     createdAt: true,
-                    notebook: { select: { id: true, name: true, color: true } },
+                    updatedAt: true,
                 },
                 orderBy: { updatedAt: 'desc' },
-                take: limit,
-                skip: offset,
-            }),
-            this.prisma.note.count({ where }),
-        ]);
+                skip,
+                take,
+            });
 
-        const processingTimeMs = Date.now() - searchStartTime;
+        // Rank like the index: notes matching in the title before notes matching only in the body
+        const titleWords = searchWords(parsed, 'intitle');
+        const bodyWords = searchWords(parsed);
+        let notes: Awaited<ReturnType<typeof findNotes>>;
+        let total: number;
 
-        return {
-            hits: notes.map(note => ({
-                ...note,
-                updatedAt: note.updatedAt.getTime(),
-            })),
-            total,
-            processingTimeMs,
-        };
-    }
+        if (titleWords.length === 0) {
+            [notes, total] = await Promise.all([findNotes(where, offset, limit), this.prisma.note.count({ where })]);
+        } else {
+            const titleMatch: Prisma.NoteWhereInput = {
+                OR: titleWords.map((word) => ({ title: { contains: word } })),
+            };
+            const inTitle = { AND: [where, titleMatch] };
 
-    async reindexAll(notes: Note[]): Promise<void> {
-        if (!this.meiliSearchAvailable) return;
+            let titleTotal: number;
+            [titleTotal, total] = await Promise.all([
+                this.prisma.note.count({ where: inTitle }),
+                this.prisma.note.count({ where }),
+            ]);
 
-        try {
-            const documents: NoteDocument[] = notes.map((note) => ({
+            notes = offset < titleTotal ? await findNotes(inTitle, offset, limit) : [];
+            if (notes.length < limit) {
+                notes.push(
+                    ...(await findNotes(
+                        { AND: [where, { NOT: titleMatch }] },
+                        Math.max(0, offset - titleTotal),
+                        limit - notes.length,
+                    )),
+                );
+            }
+        }
+
+        const processingTimeMs = Date.now() - searchStartTime;
+
+        const hits = notes.map((note) => {
+            const hit = {
                 id: note.id,
                 title: note.title,
                 plainText: note.plainText || '',
-                authorId: note.authorId,
                 notebookId: note.notebookId,
                 createdAt: note.createdAt.getTime(),
                 updatedAt: note.updatedAt.getTime(),
-            }));
+            };
+
+            return {
+                ...hit,
+                _formatted: {
+                    ...hit,
+                    title: highlightMatches(hit.title, titleWords),
+                    plainText: cropAndHighlight(hit.plainText, bodyWords),
+                },
+            };
+        });
+
+        return {
+            hits: await this.withMatchedAttachments(hits, parsed),
+            total,
+            processingTimeMs,
+        };
+    }
+
+    /**
+     * Point out the attachment a hit was found in, when its name or
+     * extracted text contains a search word.
+     */
+    private async withMatchedAttachments<T extends { id: string }>(
+        hits: T[],
+        parsed: ParsedSearchQuery,
+    ): Promise<(T & { matchedAttachment?: MatchedAttachment })[]> {
+        const words = searchWords(parsed);
+        if (hits.length === 0 || words.length === 0) return hits;
+
+        const attachments = await this.prisma.attachment.findMany({
+            where: {
+                noteId: { in: hits.map((hit) => hit.id) },
+                OR: words.flatMap((word) => [
+                    { filename: { contains: word } },
+                    { extractedText: { contains: word } },
+                ]),
+            },
+            select: { id: true, noteId: true, filename: true, extractedText: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return hits.map((hit) => {
+            const attachment = attachments.find((candidate) => candidate.noteId === hit.id);
+            if (!attachment) return hit;
+
+            return {
+                ...hit,
+                matchedAttachment: {
+                    id: attachment.id,
+                    filename: attachment.filename,
+                    snippet: attachment.extractedText ? cropAndHighlight(attachment.extractedText, words, 20) : null,
+                },
+            };
+        });
+    }
+
+    // ============================================
+    // Index maintenance
+    // ============================================
+
+    /**
+     * Walk every note in batches and compare it with its search document.
+     * Depending on the mode, missing/stale documents are written and
+     * documents of deleted notes removed.
+     */
+    async reindex(
+        mode: ReindexMode,
+        options: { batchSize?: number; onProgress?: (progress: ReindexProgress) => void } = {},
+    ): Promise<IndexReport> {
+        if (!this.meiliSearchAvailable) {
+            throw new ServiceUnavailableException('Meilisearch is not available');
+        }
+
+        const startTime = Date.now();
+        const batchSize = options.batchSize || 500;
+        const report: IndexReport = {
+            mode,
+            databaseCount: await this.prisma.note.count(),
+            indexCount: (await this.notesIndex.getStats()).numberOfDocuments,
+            missing: 0,
+            stale: 0,
+            orphaned: 0,
+            indexed: 0,
+            deleted: 0,
+            durationMs: 0,
+        };
+
+        // Database -> index: build each document and compare it with the indexed one
+        let cursor: string | undefined;
+        let processed = 0;
+        for (;;) {
+            const batch = await this.prisma.note.findMany({
+                orderBy: { id: 'asc' },
+                take: batchSize,
+                ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+            });
+            if (batch.length === 0) break;
+            cursor = batch[batch.length - 1]!.id;
 
-            await this.notesIndex.addDocuments(documents, { primaryKey: 'id' });
+            const documents = await Promise.all(batch.map((note) => this.toDocument(note)));
+            const indexed = await this.getIndexedDigests(batch.map((note) => note.id));
+            const outdated = documents.filter((document) => {
+                const digest = indexed.get(document.id);
+                if (digest === undefined) report.missing++;
+                else if (digest !== document.digest) report.stale++;
+                else return false;
+                return true;
+            });
+
+            const toWrite = mode === 'full' ? documents : mode === 'repair' ? outdated : [];
+            if (toWrite.length > 0) {
+                const task = await this.notesIndex.addDocuments(toWrite, { primaryKey: 'id' });
+                await this.notesIndex.waitForTask(task.taskUid, { timeOutMs: 60_000 });
+                report.indexed += toWrite.length;
+            }
+
+            processed += batch.length;
+            options.onProgress?.({ phase: 'notes', processed, total: report.databaseCount });
+        }
+
+        // Index -> database: documents whose note is gone
+        const orphans: string[] = [];
+        for (let offset = 0; offset < report.indexCount; offset += batchSize) {
+            const { results } = await this.notesIndex.getDocuments({ fields: ['id'], limit: batchSize, offset });
+            if (results.length === 0) break;
+
+            const ids = results.map((document) => document.id);
+            const existing = await this.prisma.note.findMany({
+                where: { id: { in: ids } },
+                select: { id: true },
+            });
+            const existingIds = new Set(existing.map((note) => note.id));
+            orphans.push(...ids.filter((id) => !existingIds.has(id)));
+
+            options.onProgress?.({
+                phase: 'orphans',
+                processed: Math.min(offset + batchSize, report.indexCount),
+                total: report.indexCount,
+            });
+        }
+        report.orphaned = orphans.length;
+
+        if (mode !== 'check' && orphans.length > 0) {
+            for (let i = 0; i < orphans.length; i += batchSize) {
+                const task = await this.notesIndex.deleteDocuments(orphans.slice(i, i + batchSize));
+                await this.notesIndex.waitForTask(task.taskUid, { timeOutMs: 60_000 });
+            }
+            report.deleted = orphans.length;
+        }
+
+        report.durationMs = Date.now() - startTime;
+        return report;
+    }
+
+    // Start a reindex in the background; progress is available from getReindexRun()
+    startReindex(mode: ReindexMode, batchSize?: number): ReindexRun {
+        if (this.reindexRun?.status === 'running') {
+            throw new ConflictException('A reindex is already running');
+        }
+        if (!this.meiliSearchAvailable) {
+            throw new ServiceUnavailableException('Meilisearch is not available');
+        }
+
+        const run: ReindexRun = {
+            mode,
+            status: 'running',
+            startedAt: new Date(),
+            finishedAt: null,
+            progress: null,
+            report: null,
+            error: null,
+        };
+        this.reindexRun = run;
+
+        this.reindex(mode, { batchSize, onProgress: (progress) => (run.progress = progress) })
+            .then((report) => {
+                run.status = 'completed';
+                run.report = report;
+                console.log(`🔎 Search reindex (${mode}) finished: ${report.indexed} indexed, ${report.deleted} deleted`);
+            })
+            .catch((error) => {
+                run.status = 'failed';
+                run.error = error.message;
+                console.warn('Search reindex failed:', error.message);
+            })
+            .finally(() => {
+                run.finishedAt = new Date();
+            });
+
+        return run;
+    }
+
+    getReindexRun(): ReindexRun | null {
+        return this.reindexRun;
+    }
+
+    // Document counts only; run a 'check' reindex to compare the documents themselves
+    async getIndexStats(): Promise<IndexStats> {
+        const databaseCount = await this.prisma.note.count();
+        if (!this.meiliSearchAvailable) {
+            return { available: false, databaseCount, indexCount: null, isIndexing: false };
+        }
+
+        try {
+            const { numberOfDocuments, isIndexing } = await this.notesIndex.getStats();
+            return { available: true, databaseCount, indexCount: numberOfDocuments, isIndexing };
         } catch (error) {
-            console.warn('Failed to reindex notes:', error.message);
+            console.warn('Could not read search index stats:', error.message);
+            return { available: false, databaseCount, indexCount: null, isIndexing: false };
         }
     }
+
+    // Digests of the indexed documents for these note ids; older documents have none
+    private async getIndexedDigests(noteIds: string[]): Promise<Map<string, string | null>> {
+        const { results } = await this.notesIndex.getDocuments({
+            filter: inList('id', noteIds),
+            fields: ['id', 'digest'],
+            limit: noteIds.length,
+        });
+
+        return new Map(results.map((document) => [document.id, document.digest ?? null]));
+    }
 }
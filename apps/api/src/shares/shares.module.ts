@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { SharesService } from './shares.service';
 import { SharesController } from './shares.controller';
+import { SearchModule } from '../search/search.module';
 
 @Module({
+    imports: [SearchModule],
     providers: [SharesService],
     controllers: [SharesController],
     exports: [SharesService],
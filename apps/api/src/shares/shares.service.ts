@@ -6,11 +6,15 @@ import {
     BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
 import { NoteShare, SharePermission } from '@evernote-clone/database';
 
 @Injectable()
 export class SharesService {
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly searchOutbox: SearchOutboxService,
+    ) { }
 
     async shareNote(
         noteId: string,
@@ -60,15 +64,22 @@ export class SharesService {
             throw new ConflictException('Note is already shared with this user');
         }
 
-        return this.prisma.noteShare.create({
-            data: {
-                noteId,
-                userId: targetUser.id,
-                permission,
-            },
-            include: {
-                user: { select: { id: true, email: true, name: true, avatar: true } },
-            },
+        return this.prisma.$transaction(async (tx) => {
+            const share = await tx.noteShare.create({
+                data: {
+                    noteId,
+                    userId: targetUser.id,
+                    permission,
+                },
+                include: {
+                    user: { select: { id: true, email: true, name: true, avatar: true } },
+                },
+            });
+
+            // The new user can now find the note
+            await this.searchOutbox.enqueue([noteId], tx);
+
+            return share;
         });
     }
 
@@ -114,7 +125,10 @@ export class SharesService {
             throw new ForbiddenException('You cannot remove this share');
         }
 
-        await this.prisma.noteShare.delete({ where: { id: shareId } });
+        await this.prisma.$transaction(async (tx) => {
+            await tx.noteShare.delete({ where: { id: shareId } });
+            await this.searchOutbox.enqueue([share.noteId], tx);
+        });
     }
 
     async getSharesForNote(noteId: string, userId: string): Promise<NoteShare[]> {
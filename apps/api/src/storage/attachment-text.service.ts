@@ -0,0 +1,152 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { Job, JobsService } from '../jobs/jobs.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { StorageService } from './storage.service';
+import { OcrService, TextRegion } from './ocr.service';
+import { extractableKind, extractText, normalizeText } from './text-extraction';
+
+const QUEUE = 'attachments';
+// Fetching the file or starting OCR can fail for a while (e.g. storage unreachable)
+const EXTRACT_ATTEMPTS = 5;
+const EXTRACT_BACKOFF_MS = 30 * 1000;
+
+interface ExtractJob {
+    attachmentId: string;
+}
+
+/**
+ * Background jobs extracting the text of uploaded attachments so their
+ * contents are searchable: documents are parsed, images go through OCR.
+ * Attachments still PENDING (new uploads, and existing ones after the
+ * upgrade) get a job each, which reindexes their note. Files that can't be
+ * parsed are marked FAILED; storage and OCR errors are retried by the queue.
+ */
+@Injectable()
+export class AttachmentTextService implements OnModuleInit {
+    private readonly intervalMs: number;
+    private readonly maxFileSize: number;
+    private readonly maxTextLength: number;
+
+    constructor(
+        configService: ConfigService,
+        private readonly prisma: PrismaService,
+        private readonly storageService: StorageService,
+        private readonly ocrService: OcrService,
+        private readonly searchOutbox: SearchOutboxService,
+        private readonly jobs: JobsService,
+    ) {
+        this.intervalMs = parseInt(configService.get<string>('ATTACHMENT_TEXT_INTERVAL_MS') || '5000', 10);
+        this.maxFileSize = parseInt(configService.get<string>('ATTACHMENT_TEXT_MAX_FILE_MB') || '25', 10) * 1024 * 1024;
+        this.maxTextLength = parseInt(configService.get<string>('ATTACHMENT_TEXT_MAX_CHARS') || '200000', 10);
+    }
+
+    onModuleInit() {
+        this.jobs.process<ExtractJob>(QUEUE, 'extract', (job) => this.extract(job));
+        this.jobs.repeat(QUEUE, 'extract-text', this.intervalMs, () => this.enqueuePending());
+    }
+
+    // A job per PENDING attachment; one already queued or retrying isn't added again
+    async enqueuePending(batchSize = 100): Promise<number> {
+        const attachments = await this.prisma.attachment.findMany({
+            where: { textStatus: 'PENDING' },
+            orderBy: { createdAt: 'asc' },
+            take: batchSize,
+            select: { id: true },
+        });
+
+        let queued = 0;
+        for (const attachment of attachments) {
+            const id = await this.jobs.enqueue<ExtractJob>(
+                QUEUE,
+                'extract',
+                { attachmentId: attachment.id },
+                { jobId: `extract:${attachment.id}`, attempts: EXTRACT_ATTEMPTS, backoffMs: EXTRACT_BACKOFF_MS },
+            );
+            if (id) queued++;
+        }
+
+        return queued;
+    }
+
+    private async extract(job: Job<ExtractJob>) {
+        const attachment = await this.prisma.attachment.findUnique({
+            where: { id: job.data.attachmentId },
+            select: { id: true, noteId: true, filename: true, mimeType: true, size: true, key: true, textStatus: true },
+        });
+
+        // Deleted meanwhile, or done by an earlier delivery of this job
+        if (!attachment || attachment.textStatus === 'DONE') return;
+
+        try {
+            await this.process(attachment);
+        } catch (error) {
+            // Out of attempts: stop queueing it; retrying the dead job runs it again
+            if (job.attempts + 1 >= job.maxAttempts) {
+                await this.prisma.attachment.updateMany({
+                    where: { id: attachment.id },
+                    data: { textStatus: 'FAILED', extractionError: error.message, extractedAt: new Date() },
+                });
+            }
+            throw error;
+        }
+    }
+
+    private async process(attachment: {
+        id: string;
+        noteId: string;
+        filename: string;
+        mimeType: string;
+        size: number;
+        key: string;
+    }) {
+        const kind = extractableKind(attachment.mimeType, attachment.filename);
+        let data: {
+            textStatus: 'DONE' | 'FAILED' | 'UNSUPPORTED';
+            extractedText?: string;
+            textRegions?: TextRegion[];
+            extractionError?: string;
+        };
+
+        if (!kind) {
+            data = { textStatus: 'UNSUPPORTED' };
+        } else if (attachment.size > this.maxFileSize) {
+            data = { textStatus: 'UNSUPPORTED', extractionError: 'File too large for text extraction' };
+        } else {
+            // Not caught: these fail for reasons unrelated to the file, so the job retries
+            const buffer = await this.storageService.getObject(attachment.key);
+            if (kind === 'image') await this.ocrService.start();
+
+            try {
+                if (kind === 'image') {
+                    const { text, regions } = await this.ocrService.recognize(buffer);
+                    data = {
+                        textStatus: 'DONE',
+                        extractedText: normalizeText(text, this.maxTextLength),
+                        textRegions: regions,
+                    };
+                } else {
+                    const text = normalizeText(await extractText(buffer, kind), this.maxTextLength);
+                    data = { textStatus: 'DONE', extractedText: text };
+                }
+            } catch (error) {
+                // Broken or encrypted files: retrying won't help
+                data = { textStatus: 'FAILED', extractionError: error.message };
+                console.warn(`Could not extract text from ${attachment.filename}:`, error.message);
+            }
+        }
+
+        await this.prisma.$transaction(async (tx) => {
+            // The attachment may have been deleted meanwhile
+            const { count } = await tx.attachment.updateMany({
+                where: { id: attachment.id },
+                data: { ...data, extractedAt: new Date() },
+            });
+
+            if (count > 0 && data.extractedText) {
+                await this.searchOutbox.enqueue([attachment.noteId], tx);
+            }
+        });
+    }
+}
@@ -0,0 +1,81 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createWorker, Worker } from 'tesseract.js';
+
+// A recognized word and its bounding box, in pixels of the original image
+// (a type alias, so it can be stored in a JSON column)
+export type TextRegion = {
+    text: string;
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+};
+
+export interface OcrResult {
+    text: string;
+    regions: TextRegion[];
+}
+
+/**
+ * Local OCR with Tesseract. The worker is started on first use and reused;
+ * language data is downloaded once into the cache directory unless
+ * OCR_LANG_PATH points to local traineddata files.
+ */
+@Injectable()
+export class OcrService implements OnModuleDestroy {
+    private worker: Promise<Worker> | null = null;
+    private readonly languages: string[];
+    private readonly minConfidence: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.languages = (configService.get<string>('OCR_LANGUAGES') || 'eng')
+            .split('+')
+            .map((language) => language.trim())
+            .filter(Boolean);
+        this.minConfidence = parseInt(configService.get<string>('OCR_MIN_CONFIDENCE') || '60', 10);
+    }
+
+    async onModuleDestroy() {
+        if (this.worker) {
+            await (await this.worker).terminate().catch(() => undefined);
+            this.worker = null;
+        }
+    }
+
+    // Start the worker (fetching language data if needed), so setup errors can be told apart from unreadable images
+    async start(): Promise<void> {
+        await this.getWorker();
+    }
+
+    async recognize(image: Buffer): Promise<OcrResult> {
+        const worker = await this.getWorker();
+        const { data } = await worker.recognize(image);
+
+        // Low-confidence words are mostly noise from textures and drawings
+        const regions = data.words
+            .filter((word) => word.confidence >= this.minConfidence && word.text.trim())
+            .map(({ text, bbox }) => ({ text: text.trim(), x0: bbox.x0, y0: bbox.y0, x1: bbox.x1, y1: bbox.y1 }));
+
+        return { text: data.text, regions };
+    }
+
+    private getWorker(): Promise<Worker> {
+        if (!this.worker) {
+            const langPath = this.configService.get<string>('OCR_LANG_PATH');
+            const cachePath = this.configService.get<string>('OCR_CACHE_PATH');
+
+            this.worker = createWorker(this.languages, undefined, {
+                ...(langPath && { langPath }),
+                ...(cachePath && { cachePath }),
+            });
+
+            // Let the next call try again, e.g. after the language data could not be fetched
+            this.worker.catch(() => {
+                this.worker = null;
+            });
+        }
+
+        return this.worker;
+    }
+}
@@ -4,13 +4,14 @@ import {
     Delete,
     Get,
     Param,
+    Query,
     UseGuards,
     UseInterceptors,
     UploadedFile,
     BadRequestException,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiBody, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators';
 import { StorageService } from './storage.service';
@@ -32,6 +33,17 @@ export class StorageController {
         return this.storageService.getAttachmentsByNote(noteId, user.id);
     }
 
+    @Get('note/:noteId/text-matches')
+    @ApiOperation({ summary: 'Image regions whose recognized text matches a search' })
+    @ApiQuery({ name: 'q', required: true })
+    async getImageTextMatches(
+        @CurrentUser() user: User,
+        @Param('noteId') noteId: string,
+        @Query('q') query: string,
+    ) {
+        return this.storageService.getImageTextMatches(noteId, user.id, query || '');
+    }
+
     @Post('upload/:noteId')
     @ApiOperation({ summary: 'Upload a file attachment' })
     @ApiConsumes('multipart/form-data')
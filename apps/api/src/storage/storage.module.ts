@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
 import { StorageService } from './storage.service';
+import { AttachmentTextService } from './attachment-text.service';
+import { OcrService } from './ocr.service';
 import { StorageController } from './storage.controller';
+import { SearchModule } from '../search/search.module';
 
 @Module({
-    providers: [StorageService],
+    imports: [SearchModule],
+    providers: [StorageService, AttachmentTextService, OcrService],
     controllers: [StorageController],
     exports: [StorageService],
 })
@@ -1,17 +1,40 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@evernote-clone/database';
 import { PrismaService } from '../prisma/prisma.service';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { JobsService } from '../jobs/jobs.service';
+import { TextRegion } from './ocr.service';
 import * as AWS from 'aws-sdk';
 import { v4 as uuid } from 'uuid';
 
+// Attachment columns sent to clients (the extracted text can be large)
+export const attachmentSelect = {
+    id: true,
+    filename: true,
+    mimeType: true,
+    size: true,
+    url: true,
+    key: true,
+    createdAt: true,
+    textStatus: true,
+    noteId: true,
+} satisfies Prisma.AttachmentSelect;
+
+// S3 accepts at most this many keys per DeleteObjects request
+const DELETE_BATCH_SIZE = 1000;
+const DELETE_INTERVAL_MS = 60 * 1000;
+
 @Injectable()
-export class StorageService {
+export class StorageService implements OnModuleInit {
     private s3: AWS.S3;
     private bucket: string;
 
     constructor(
         private readonly configService: ConfigService,
         private readonly prisma: PrismaService,
+        private readonly searchOutbox: SearchOutboxService,
+        private readonly jobs: JobsService,
     ) {
         this.s3 = new AWS.S3({
             endpoint: this.configService.get<string>('S3_ENDPOINT') || 'http://localhost:9000',
@@ -26,6 +49,10 @@ export class StorageService {
         this.bucket = this.configService.get<string>('S3_BUCKET') || 'evernote-attachments';
     }
 
+    onModuleInit() {
+        this.jobs.repeat('storage', 'delete-objects', DELETE_INTERVAL_MS, () => this.deletePendingObjects());
+    }
+
     async uploadFile(
         noteId: string,
         file: Express.Multer.File,
@@ -65,18 +92,24 @@ export class StorageService {
         // Create attachment record
         const url = `${this.configService.get<string>('S3_ENDPOINT')}/${this.bucket}/${key}`;
 
-        const attachment = await this.prisma.attachment.create({
-            data: {
-                noteId,
-                filename: file.originalname,
-                mimeType: file.mimetype,
-                size: file.size,
-                url,
-                key,
-            },
-        });
+        return this.prisma.$transaction(async (tx) => {
+            const attachment = await tx.attachment.create({
+                data: {
+                    noteId,
+                    filename: file.originalname,
+                    mimeType: file.mimetype,
+                    size: file.size,
+                    url,
+                    key,
+                },
+                select: attachmentSelect,
+            });
 
-        return attachment;
+            // Attachment types are searchable (resource:)
+            await this.searchOutbox.enqueue([noteId], tx);
+
+            return attachment;
+        });
     }
 
     async deleteFile(attachmentId: string, userId: string) {
@@ -110,13 +143,75 @@ export class StorageService {
             .promise();
 
         // Delete from database
-        await this.prisma.attachment.delete({
-            where: { id: attachmentId },
+        await this.prisma.$transaction(async (tx) => {
+            await tx.attachment.delete({
+                where: { id: attachmentId },
+            });
+
+            await this.searchOutbox.enqueue([attachment.noteId], tx);
         });
 
         return { success: true };
     }
 
+    /**
+     * Remove objects in the background. Pass the transaction client that
+     * deletes their attachment rows, so the keys are recorded if and only if
+     * the rows are gone; a repeating job deletes them until storage accepts.
+     */
+    async deleteObjectsLater(keys: string[], client: Prisma.TransactionClient = this.prisma): Promise<void> {
+        if (keys.length === 0) return;
+
+        await client.storageDeletion.createMany({ data: keys.map((key) => ({ key })) });
+    }
+
+    async deletePendingObjects(): Promise<number> {
+        let deleted = 0;
+        for (;;) {
+            const pending = await this.prisma.storageDeletion.findMany({
+                orderBy: { id: 'asc' },
+                take: DELETE_BATCH_SIZE,
+            });
+            if (pending.length === 0) break;
+
+            // Deleting an object that is already gone succeeds, so a rerun after a crash is harmless
+            await this.deleteObjects(pending.map((deletion) => deletion.key));
+            await this.prisma.storageDeletion.deleteMany({ where: { id: { in: pending.map((deletion) => deletion.id) } } });
+            deleted += pending.length;
+        }
+
+        return deleted;
+    }
+
+    async deleteObjects(keys: string[]): Promise<void> {
+        for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+            const result = await this.s3
+                .deleteObjects({
+                    Bucket: this.bucket,
+                    Delete: {
+                        Objects: keys.slice(i, i + DELETE_BATCH_SIZE).map((key) => ({ Key: key })),
+                        Quiet: true,
+                    },
+                })
+                .promise();
+
+            if (result.Errors?.length) {
+                throw new Error(`Failed to delete ${result.Errors.length} objects: ${result.Errors[0].Message}`);
+            }
+        }
+    }
+
+    async getObject(key: string): Promise<Buffer> {
+        const object = await this.s3
+            .getObject({
+                Bucket: this.bucket,
+                Key: key,
+            })
+            .promise();
+
+        return object.Body as Buffer;
+    }
+
     async getPresignedUrl(key: string): Promise<string> {
         return this.s3.getSignedUrlPromise('getObject', {
             Bucket: this.bucket,
@@ -126,7 +221,46 @@ export class StorageService {
     }
 
     async getAttachmentsByNote(noteId: string, userId: string) {
-        // Verify note access
+        await this.assertCanView(noteId, userId);
+
+        return this.prisma.attachment.findMany({
+            where: { noteId },
+            select: attachmentSelect,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Regions of the note's images whose OCR text contains one of the query
+     * words, so the editor can highlight them when opened from a search.
+     */
+    async getImageTextMatches(noteId: string, userId: string, query: string) {
+        await this.assertCanView(noteId, userId);
+
+        const words = query
+            .toLowerCase()
+            .split(/\s+/)
+            .map((word) => word.replace(/^["']+|["']+$/g, ''))
+            .filter(Boolean);
+        if (words.length === 0) return [];
+
+        const images = await this.prisma.attachment.findMany({
+            where: { noteId, textStatus: 'DONE', mimeType: { startsWith: 'image/' } },
+            select: { id: true, url: true, textRegions: true },
+        });
+
+        return images
+            .map((image) => ({
+                attachmentId: image.id,
+                url: image.url,
+                regions: ((image.textRegions as unknown as TextRegion[] | null) || [])
+                    .filter((region) => words.some((word) => region.text.toLowerCase().includes(word)))
+                    .map(({ x0, y0, x1, y1 }) => ({ x0, y0, x1, y1 })),
+            }))
+            .filter((match) => match.regions.length > 0);
+    }
+
+    private async assertCanView(noteId: string, userId: string) {
         const note = await this.prisma.note.findUnique({
             where: { id: noteId },
             include: { shares: true },
@@ -143,10 +277,5 @@ export class StorageService {
         if (!hasAccess) {
             throw new Error('You do not have permission to view attachments for this note');
         }
-
-        return this.prisma.attachment.findMany({
-            where: { noteId },
-            orderBy: { createdAt: 'desc' },
-        });
     }
 }
@@ -0,0 +1,66 @@
+import JSZip from 'jszip';
+import { extractableKind, extractText } from './text-extraction';
+
+const MB = 1024 * 1024;
+
+const zipOf = (files: Record<string, string>) => {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+// Rewrites the uncompressed size recorded for every entry, as a crafted archive could
+const declareSize = (archive: Buffer, size: number) => {
+    for (let at = archive.indexOf('PK\x01\x02'); at >= 0; at = archive.indexOf('PK\x01\x02', at + 4)) {
+        archive.writeUInt32LE(size, at + 24);
+    }
+    for (let at = archive.indexOf('PK\x03\x04'); at >= 0; at = archive.indexOf('PK\x03\x04', at + 4)) {
+        archive.writeUInt32LE(size, at + 22);
+    }
+    return archive;
+};
+
+describe('extractableKind', () => {
+    it('falls back to the extension for generic uploads', () => {
+        expect(extractableKind('application/octet-stream', 'notes.MD')).toBe('text');
+        expect(extractableKind('application/octet-stream', 'report.docx')).toBe('docx');
+        expect(extractableKind('application/zip', 'archive.zip')).toBeNull();
+    });
+});
+
+describe('extractText', () => {
+    it('reads the paragraphs of a Word document', async () => {
+        const docx = await zipOf({
+            'word/document.xml': `<w:body>${paragraph('Quarterly plan')}${paragraph('Fish &amp; chips')}</w:body>`,
+        });
+
+        expect(await extractText(docx, 'docx')).toBe('Quarterly plan\nFish & chips\n');
+    });
+
+    it('rejects an archive with too many entries', async () => {
+        const files = Object.fromEntries(Array.from({ length: 10001 }, (_, i) => [`${i}.txt`, '']));
+
+        await expect(extractText(await zipOf(files), 'docx')).rejects.toThrow('Archive has too many entries (10001)');
+    });
+
+    it('rejects an entry declared larger than the limit without reading it', async () => {
+        const docx = declareSize(await zipOf({ 'word/document.xml': paragraph('a') }), 60 * MB);
+
+        await expect(extractText(docx, 'docx')).rejects.toThrow('Archive is too large once uncompressed');
+    });
+
+    it('rejects entries that add up past the limit', async () => {
+        const slides = Object.fromEntries([1, 2, 3, 4].map((n) => [`ppt/slides/slide${n}.xml`, paragraph('a')]));
+        const pptx = declareSize(await zipOf(slides), 30 * MB);
+
+        await expect(extractText(pptx, 'pptx')).rejects.toThrow('Archive is too large once uncompressed');
+    });
+
+    it('stops inflating an entry whose declared size is a lie', async () => {
+        const docx = declareSize(await zipOf({ 'word/document.xml': paragraph('a'.repeat(60 * MB)) }), 1024);
+
+        await expect(extractText(docx, 'docx')).rejects.toThrow('Archive is too large once uncompressed');
+    }, 30_000);
+});
@@ -0,0 +1,187 @@
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import pdfParse from 'pdf-parse';
+
+/**
+ * Plain-text extraction for searchable attachments: PDFs, text files
+ * (.txt, .md, .csv) and Office Open XML documents (.docx, .xlsx, .pptx).
+ * Images are recognized by OcrService instead.
+ */
+
+const TEXT_TYPES = new Set(['text/plain', 'text/markdown', 'text/x-markdown', 'text/csv']);
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'markdown', 'csv']);
+
+const OFFICE_TYPES: Record<string, 'docx' | 'xlsx' | 'pptx'> = {
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+};
+
+// Formats Tesseract can read
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/bmp']);
+
+export type ExtractableKind = 'pdf' | 'text' | 'docx' | 'xlsx' | 'pptx' | 'image';
+
+const extension = (filename: string) => filename.split('.').pop()?.toLowerCase() || '';
+
+// Browsers often upload .md/.csv as application/octet-stream, so fall back to the extension
+export function extractableKind(mimeType: string, filename: string): ExtractableKind | null {
+    const type = mimeType.toLowerCase();
+    const ext = extension(filename);
+
+    if (type === 'application/pdf' || ext === 'pdf') return 'pdf';
+    if (TEXT_TYPES.has(type) || TEXT_EXTENSIONS.has(ext)) return 'text';
+    if (OFFICE_TYPES[type]) return OFFICE_TYPES[type];
+    if (ext === 'docx' || ext === 'xlsx' || ext === 'pptx') return ext;
+    if (IMAGE_TYPES.has(type)) return 'image';
+
+    return null;
+}
+
+export async function extractText(buffer: Buffer, kind: Exclude<ExtractableKind, 'image'>): Promise<string> {
+    switch (kind) {
+        case 'pdf':
+            return (await pdfParse(buffer)).text;
+        case 'text':
+            return buffer.toString('utf8').replace(/^\uFEFF/, '');
+        default:
+            return extractOfficeText(await openZip(buffer), kind);
+    }
+}
+
+// Collapse runs of blank space left by layout, keeping line breaks
+export function normalizeText(text: string, maxLength: number): string {
+    return text
+        .replace(/\u0000/g, '')
+        .replace(/[ \t\f\v\r]+/g, ' ')
+        .replace(/ *\n\s*/g, '\n')
+        .trim()
+        .slice(0, maxLength);
+}
+
+// ============================================
+// Office Open XML
+// ============================================
+
+// Office files are zip archives, and a small one can inflate to gigabytes
+const MAX_ZIP_ENTRIES = 10000;
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 100 * 1024 * 1024;
+
+// Uncompressed bytes still allowed for the parts read from one archive
+type ReadBudget = { remaining: number };
+
+// JSZip keeps the sizes from the central directory on a private field
+type ZipEntry = JSZip.JSZipObject & { _data?: { uncompressedSize?: number } };
+
+const tooLarge = () => new Error('Archive is too large once uncompressed');
+
+// Rejects archives whose declared sizes exceed the limits, before anything is inflated
+async function openZip(buffer: Buffer): Promise<JSZip> {
+    const zip = await JSZip.loadAsync(buffer);
+    const entries = Object.values(zip.files) as ZipEntry[];
+
+    if (entries.length > MAX_ZIP_ENTRIES) {
+        throw new Error(`Archive has too many entries (${entries.length})`);
+    }
+
+    let total = 0;
+    for (const entry of entries) {
+        const size = entry._data?.uncompressedSize ?? 0;
+        total += size;
+        if (size > MAX_ENTRY_BYTES || total > MAX_TOTAL_BYTES) throw tooLarge();
+    }
+
+    return zip;
+}
+
+// Declared sizes can lie, so stop inflating once the actual data goes over the limit
+function readEntry(entry: JSZip.JSZipObject, budget: ReadBudget): Promise<string> {
+    const limit = Math.min(MAX_ENTRY_BYTES, budget.remaining);
+
+    return new Promise((resolve, reject) => {
+        const stream = entry.nodeStream('nodebuffer') as Readable;
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        stream.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                stream.destroy();
+                reject(tooLarge());
+                return;
+            }
+            chunks.push(chunk);
+        });
+        stream.on('error', reject);
+        stream.on('end', () => {
+            budget.remaining -= size;
+            resolve(Buffer.concat(chunks).toString('utf8'));
+        });
+    });
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1]?.toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return XML_ENTITIES[code] ?? entity;
+    });
+}
+
+// Text of the given run elements (e.g. `w:t`), with a line break after each `paragraph` element
+function xmlText(xml: string, run: string, paragraph: string): string {
+    const pattern = new RegExp(`<${run}(?:\\s[^>]*)?>([^<]*)</${run}>|</${paragraph}>`, 'g');
+    let text = '';
+
+    for (const match of xml.matchAll(pattern)) {
+        text += match[1] !== undefined ? decodeXml(match[1]) : '\n';
+    }
+
+    return text;
+}
+
+// `ppt/slides/slide10.xml` after `slide9.xml`
+const partNumber = (name: string) => parseInt(name.replace(/\D/g, ''), 10) || 0;
+const byNumber = (a: string, b: string) => partNumber(a) - partNumber(b) || a.localeCompare(b);
+
+async function readParts(zip: JSZip, pattern: RegExp, budget: ReadBudget): Promise<string[]> {
+    const entries = Object.values(zip.files)
+        .filter((entry) => !entry.dir && pattern.test(entry.name))
+        .sort((a, b) => byNumber(a.name, b.name));
+
+    // One at a time, so the budget is spent in order
+    const parts: string[] = [];
+    for (const entry of entries) {
+        parts.push(await readEntry(entry, budget));
+    }
+
+    return parts;
+}
+
+async function extractOfficeText(zip: JSZip, kind: 'docx' | 'xlsx' | 'pptx'): Promise<string> {
+    const budget = { remaining: MAX_TOTAL_BYTES };
+
+    if (kind === 'docx') {
+        const parts = await readParts(zip, /^word\/(document|header\d*|footer\d*|footnotes)\.xml$/, budget);
+        return parts.map((xml) => xmlText(xml, 'w:t', 'w:p')).join('\n');
+    }
+
+    if (kind === 'pptx') {
+        const slides = await readParts(zip, /^ppt\/slides\/slide\d+\.xml$/, budget);
+        return slides.map((xml) => xmlText(xml, 'a:t', 'a:p')).join('\n');
+    }
+
+    // Cell text lives in the shared string table, plus inline strings in the sheets
+    const [sharedStrings] = await readParts(zip, /^xl\/sharedStrings\.xml$/, budget);
+    const sheets = await readParts(zip, /^xl\/worksheets\/sheet\d+\.xml$/, budget);
+
+    return [
+        sharedStrings ? xmlText(sharedStrings, 't', 'si') : '',
+        ...sheets.map((xml) => xmlText(xml, 't', 'is')),
+    ].join('\n');
+}
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { TagsService } from './tags.service';
 import { TagsController } from './tags.controller';
+import { SearchModule } from '../search/search.module';
 
 @Module({
+    imports: [SearchModule],
     providers: [TagsService],
     controllers: [TagsController],
     exports: [TagsService],
@@ -4,11 +4,15 @@ import {
     ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Tag } from '@evernote-clone/database';
+import { SearchOutboxService } from '../search/search-outbox.service';
+import { Prisma, Tag } from '@evernote-clone/database';
 
 @Injectable()
 export class TagsService {
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly searchOutbox: SearchOutboxService,
+    ) { }
 
     async findAll(userId: string): Promise<Tag[]> {
         return this.prisma.tag.findMany({
@@ -72,17 +76,39 @@ export class TagsService {
             }
         }
 
-        return this.prisma.tag.update({
-            where: { id },
-            data: {
-                ...(data.name && { name: data.name.toLowerCase() }),
-                ...(data.color && { color: data.color }),
-            },
+        return this.prisma.$transaction(async (tx) => {
+            const tag = await tx.tag.update({
+                where: { id },
+                data: {
+                    ...(data.name && { name: data.name.toLowerCase() }),
+                    ...(data.color && { color: data.color }),
+                },
+            });
+
+            // Tag names are part of the search index
+            if (data.name) {
+                await this.searchOutbox.enqueue(await this.taggedNoteIds(id, tx), tx);
+            }
+
+            return tag;
         });
     }
 
     async delete(id: string, userId: string): Promise<void> {
         await this.findById(id, userId);
-        await this.prisma.tag.delete({ where: { id } });
+
+        await this.prisma.$transaction(async (tx) => {
+            const noteIds = await this.taggedNoteIds(id, tx);
+            await tx.tag.delete({ where: { id } });
+            await this.searchOutbox.enqueue(noteIds, tx);
+        });
+    }
+
+    private async taggedNoteIds(tagId: string, client: Prisma.TransactionClient): Promise<string[]> {
+        const noteTags = await client.noteTag.findMany({
+            where: { tagId },
+            select: { noteId: true },
+        });
+        return noteTags.map((noteTag) => noteTag.noteId);
     }
 }
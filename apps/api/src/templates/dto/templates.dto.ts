@@ -0,0 +1,75 @@
+import { IsString, IsOptional, IsBoolean, IsNotEmpty, IsObject, MaxLength, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTemplateDto {
+    @ApiProperty()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    description?: string;
+
+    @ApiProperty({ required: false, description: 'Title of notes created from it, e.g. "Meeting {{date}}"' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    title?: string;
+
+    @ApiProperty({ description: 'TipTap JSON content' })
+    @IsObject()
+    content: any;
+
+    @ApiProperty({ required: false, description: 'Visible to every user' })
+    @IsOptional()
+    @IsBoolean()
+    isShared?: boolean;
+}
+
+export class UpdateTemplateDto {
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    description?: string;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    title?: string;
+
+    @ApiProperty({ required: false, description: 'TipTap JSON content' })
+    @IsOptional()
+    @IsObject()
+    content?: any;
+
+    @ApiProperty({ required: false })
+    @IsOptional()
+    @IsBoolean()
+    isShared?: boolean;
+}
+
+export class RenderTemplateDto {
+    @ApiProperty({ required: false, description: 'Value of {{title}}; the template name by default' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    title?: string;
+
+    @ApiProperty({ required: false, description: "The user's local date (YYYY-MM-DD) for {{date}}" })
+    @IsOptional()
+    @Matches(/^\d{4}-\d{2}-\d{2}$/)
+    localDate?: string;
+}
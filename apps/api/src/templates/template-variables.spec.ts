@@ -0,0 +1,39 @@
+import { TemplateVariables, renderContent, renderText } from './template-variables';
+
+const variables: TemplateVariables = { date: '2026-03-18', title: 'Weekly sync', 'user.name': 'Ana' };
+
+describe('renderText', () => {
+    it('replaces known variables, with or without spaces', () => {
+        expect(renderText('{{title}} on {{ date }} by {{user.name}}', variables)).toBe('Weekly sync on 2026-03-18 by Ana');
+    });
+
+    it('leaves unknown variables as typed', () => {
+        expect(renderText('{{unknown}} and {single}', variables)).toBe('{{unknown}} and {single}');
+    });
+
+    it('does not substitute inherited object properties', () => {
+        expect(renderText('{{constructor}} {{toString}} {{__proto__}}', variables)).toBe(
+            '{{constructor}} {{toString}} {{__proto__}}',
+        );
+    });
+});
+
+describe('renderContent', () => {
+    it('replaces variables in every text node and leaves the rest alone', () => {
+        const content = {
+            type: 'doc',
+            content: [
+                { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: '{{title}}' }] },
+                { type: 'paragraph', content: [{ type: 'text', text: 'Date: {{date}}' }] },
+            ],
+        };
+
+        expect(renderContent(content, variables)).toEqual({
+            type: 'doc',
+            content: [
+                { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Weekly sync' }] },
+                { type: 'paragraph', content: [{ type: 'text', text: 'Date: 2026-03-18' }] },
+            ],
+        });
+    });
+});
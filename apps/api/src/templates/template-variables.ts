@@ -0,0 +1,37 @@
+import { TiptapNode } from '../notes/tiptap.utils';
+
+/**
+ * `{{variable}}` substitution for note templates. Unknown variables are
+ * left as typed, so a template can still show literal braces.
+ */
+
+export interface TemplateVariables {
+    date: string;
+    title: string;
+    'user.name': string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function renderText(text: string, variables: TemplateVariables): string {
+    // Own keys only: `{{constructor}}` or `{{toString}}` stay as typed
+    return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof TemplateVariables] : match,
+    );
+}
+
+// Copy of the document with variables replaced in its text
+export function renderContent(node: TiptapNode, variables: TemplateVariables): TiptapNode {
+    return {
+        ...node,
+        ...(node.text !== undefined && { text: renderText(node.text, variables) }),
+        ...(node.content && { content: node.content.map((child) => renderContent(child, variables)) }),
+    };
+}
+
+// Today in the server's time zone, when the client didn't send its own date
+export function today(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -0,0 +1,61 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Body,
+    Param,
+    UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators';
+import { TemplatesService } from './templates.service';
+import { CreateTemplateDto, RenderTemplateDto, UpdateTemplateDto } from './dto/templates.dto';
+import { User } from '@evernote-clone/database';
+
+@ApiTags('templates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('templates')
+export class TemplatesController {
+    constructor(private readonly templatesService: TemplatesService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get own and shared note templates' })
+    async findAll(@CurrentUser() user: User) {
+        return this.templatesService.findAll(user.id);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get a note template by ID' })
+    async findById(@CurrentUser() user: User, @Param('id') id: string) {
+        return this.templatesService.findById(id, user.id);
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Create a note template' })
+    async create(@CurrentUser() user: User, @Body() dto: CreateTemplateDto) {
+        return this.templatesService.create(user.id, dto);
+    }
+
+    @Post(':id/render')
+    @ApiOperation({ summary: 'Get the title and content of a template with its variables filled in' })
+    async render(@CurrentUser() user: User, @Param('id') id: string, @Body() dto: RenderTemplateDto) {
+        return this.templatesService.render(id, user.id, dto);
+    }
+
+    @Patch(':id')
+    @ApiOperation({ summary: 'Update a note template' })
+    async update(@CurrentUser() user: User, @Param('id') id: string, @Body() dto: UpdateTemplateDto) {
+        return this.templatesService.update(id, user.id, dto);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete a note template' })
+    async delete(@CurrentUser() user: User, @Param('id') id: string) {
+        await this.templatesService.delete(id, user.id);
+        return { success: true };
+    }
+}
@@ -0,0 +1,99 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { NoteTemplate } from '@evernote-clone/database';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiptapNode } from '../notes/tiptap.utils';
+import { CreateTemplateDto, RenderTemplateDto, UpdateTemplateDto } from './dto/templates.dto';
+import { renderContent, renderText, today } from './template-variables';
+
+@Injectable()
+export class TemplatesService {
+    constructor(private readonly prisma: PrismaService) { }
+
+    // The user's own templates and everyone's shared ones
+    async findAll(userId: string) {
+        return this.prisma.noteTemplate.findMany({
+            where: {
+                OR: [
+                    { authorId: userId },
+                    { isShared: true },
+                ],
+            },
+            include: { author: { select: { id: true, name: true } } },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async findById(id: string, userId: string): Promise<NoteTemplate> {
+        const template = await this.prisma.noteTemplate.findUnique({ where: { id } });
+
+        if (!template || (template.authorId !== userId && !template.isShared)) {
+            throw new NotFoundException('Template not found');
+        }
+
+        return template;
+    }
+
+    async create(userId: string, dto: CreateTemplateDto): Promise<NoteTemplate> {
+        return this.prisma.noteTemplate.create({
+            data: {
+                name: dto.name.trim(),
+                description: dto.description?.trim() || null,
+                title: dto.title ?? '{{title}}',
+                content: dto.content,
+                isShared: dto.isShared ?? false,
+                authorId: userId,
+            },
+        });
+    }
+
+    async update(id: string, userId: string, dto: UpdateTemplateDto): Promise<NoteTemplate> {
+        await this.findOwned(id, userId);
+
+        return this.prisma.noteTemplate.update({
+            where: { id },
+            data: {
+                name: dto.name?.trim(),
+                description: dto.description === undefined ? undefined : dto.description.trim() || null,
+                title: dto.title,
+                content: dto.content,
+                isShared: dto.isShared,
+            },
+        });
+    }
+
+    async delete(id: string, userId: string): Promise<void> {
+        await this.findOwned(id, userId);
+        await this.prisma.noteTemplate.delete({ where: { id } });
+    }
+
+    /**
+     * Title and content of a new note from the template, with {{date}},
+     * {{title}} and {{user.name}} filled in.
+     */
+    async render(id: string, userId: string, dto: RenderTemplateDto = {}): Promise<{ title: string; content: TiptapNode }> {
+        const template = await this.findById(id, userId);
+        const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { name: true, email: true } });
+
+        const variables = {
+            date: dto.localDate || today(),
+            title: dto.title?.trim() || template.name,
+            'user.name': user?.name || user?.email || '',
+        };
+
+        return {
+            title: renderText(template.title, variables).trim() || variables.title,
+            content: renderContent(template.content as unknown as TiptapNode, variables),
+        };
+    }
+
+    // Shared templates are visible to everyone but only their author may change them
+    private async findOwned(id: string, userId: string): Promise<NoteTemplate> {
+        const template = await this.findById(id, userId);
+
+        if (template.authorId !== userId) {
+            throw new ForbiddenException('Only the author can change this template');
+        }
+
+        return template;
+    }
+}
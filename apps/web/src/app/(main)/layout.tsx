@@ -4,11 +4,12 @@ import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuthStore } from '@/store/auth-store';
 import { useNotesStore } from '@/store/notes-store';
-import { notesApi, notebooksApi, tagsApi } from '@/lib/api';
+import { notesApi, notebooksApi, tagsApi, savedSearchesApi, remindersApi } from '@/lib/api';
 import { Sidebar } from '@/components/layout/sidebar';
 import { NoteList } from '@/components/notes/note-list';
 import { NoteEditor } from '@/components/editor/note-editor';
 import { CommandPalette } from '@/components/search/command-palette';
+import { GraphView } from '@/components/graph/graph-view';
 import { Loader2 } from 'lucide-react';
 
 export default function MainLayout({
@@ -18,7 +19,7 @@ export default function MainLayout({
 }) {
     const router = useRouter();
     const { isAuthenticated, token, hasHydrated } = useAuthStore();
-    const { setNotes, setNotebooks, setTags, setIsLoading, selectedNoteId, showTrash, selectedNotebookId, selectedTagId } = useNotesStore();
+    const { setNotes, setNotebooks, setTags, setSavedSearches, setReminders, setIsLoading, selectedNoteId, showTrash, showGraph, selectedNotebookId, selectedTagId } = useNotesStore();
     const [isInitialized, setIsInitialized] = useState(false);
     const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
 
@@ -51,15 +52,20 @@ export default function MainLayout({
 
             setIsLoading(true);
             try {
-                const [notes, notebooks, tags] = await Promise.all([
+                const [notes, notebooks, tags, savedSearches, reminders] = await Promise.all([
                     notesApi.getAll(token, { trashed: showTrash, notebookId: selectedNotebookId || undefined, tagId: selectedTagId || undefined }),
                     notebooksApi.getAll(token),
                     tagsApi.getAll(token),
+                    // Not worth failing the whole page for
+                    savedSearchesApi.getAll(token).catch(() => []),
+                    remindersApi.getAll(token).catch(() => []),
                 ]);
 
                 setNotes(notes);
                 setNotebooks(notebooks);
                 setTags(tags);
+                setSavedSearches(savedSearches);
+                setReminders(reminders);
             } catch (error) {
                 console.error('Failed to fetch data:', error);
             } finally {
@@ -102,19 +108,25 @@ export default function MainLayout({
     return (
         <div className="h-screen flex bg-background overflow-hidden">
             <Sidebar />
-            <NoteList />
-            <main className="flex-1 flex flex-col min-w-0 h-screen">
-                {selectedNoteId ? (
-                    <NoteEditor noteId={selectedNoteId} />
-                ) : (
-                    <div className="flex-1 flex items-center justify-center text-muted-foreground">
-                        <div className="text-center space-y-2">
-                            <p className="text-lg">Select a note to view</p>
-                            <p className="text-sm">or press <kbd className="px-2 py-1 rounded bg-muted border text-xs">Ctrl+K</kbd> to search</p>
-                        </div>
-                    </div>
-                )}
-            </main>
+            {showGraph ? (
+                <GraphView />
+            ) : (
+                <>
+                    <NoteList />
+                    <main className="flex-1 flex flex-col min-w-0 h-screen">
+                        {selectedNoteId ? (
+                            <NoteEditor noteId={selectedNoteId} />
+                        ) : (
+                            <div className="flex-1 flex items-center justify-center text-muted-foreground">
+                                <div className="text-center space-y-2">
+                                    <p className="text-lg">Select a note to view</p>
+                                    <p className="text-sm">or press <kbd className="px-2 py-1 rounded bg-muted border text-xs">Ctrl+K</kbd> to search</p>
+                                </div>
+                            </div>
+                        )}
+                    </main>
+                </>
+            )}
 
             {/* Command Palette */}
             <CommandPalette open={commandPaletteOpen} onOpenChange={setCommandPaletteOpen} />
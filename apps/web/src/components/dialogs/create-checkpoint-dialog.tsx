@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { notesApi } from '@/lib/api';
+import { Bookmark, Loader2, X } from 'lucide-react';
+
+interface CreateCheckpointDialogProps {
+    noteId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Called before the checkpoint is created, e.g. to flush pending edits
+    onBeforeCreate?: () => Promise<boolean>;
+}
+
+export function CreateCheckpointDialog({
+    noteId,
+    open,
+    onOpenChange,
+    onBeforeCreate,
+}: CreateCheckpointDialogProps) {
+    const { token } = useAuthStore();
+    const [label, setLabel] = useState('');
+    const [description, setDescription] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start from an empty form every time
+    useEffect(() => {
+        if (open) {
+            setLabel('');
+            setDescription('');
+        }
+    }, [open]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !label.trim()) return;
+
+        setIsSaving(true);
+        try {
+            if (onBeforeCreate && !(await onBeforeCreate())) return;
+
+            await notesApi.createVersion(token, noteId, {
+                label: label.trim(),
+                description: description.trim() || undefined,
+            });
+            toast.success(`Versão "${label.trim()}" salva`);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error('Falha ao salvar versão');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <Bookmark className="w-5 h-5" />
+                            Salvar versão nomeada
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        Versões nomeadas ficam no histórico permanentemente.
+                    </Dialog.Description>
+
+                    <form onSubmit={handleCreate} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Nome</label>
+                            <input
+                                autoFocus
+                                value={label}
+                                onChange={(e) => setLabel(e.target.value)}
+                                maxLength={255}
+                                placeholder="Ex.: Enviado ao cliente v2"
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Descrição (opcional)</label>
+                            <textarea
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                maxLength={2000}
+                                rows={3}
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+
+                        <div className="flex justify-end gap-3">
+                            <Dialog.Close asChild>
+                                <button
+                                    type="button"
+                                    disabled={isSaving}
+                                    className="px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                                >
+                                    Cancelar
+                                </button>
+                            </Dialog.Close>
+                            <button
+                                type="submit"
+                                disabled={isSaving || !label.trim()}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                                    'bg-primary text-primary-foreground hover:bg-primary/90',
+                                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Salvar
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
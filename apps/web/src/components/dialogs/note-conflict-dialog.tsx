@@ -0,0 +1,127 @@
+'use client';
+
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, Copy, Download, Loader2, Upload } from 'lucide-react';
+
+export interface NoteConflict {
+    // Current copy on the server (from the 409 response)
+    serverNote: {
+        title: string;
+        plainText?: string | null;
+        revision: number;
+        updatedAt: string;
+    };
+    // Local changes that were rejected
+    localChanges: {
+        title?: string;
+        content?: any;
+        plainText?: string;
+    };
+}
+
+interface NoteConflictDialogProps {
+    conflict: NoteConflict;
+    localTitle: string;
+    localText: string;
+    isResolving: boolean;
+    onKeepMine: () => void;
+    onUseServer: () => void;
+    onKeepBoth: () => void;
+}
+
+const preview = (text?: string | null) => {
+    const trimmed = (text || '').trim();
+    return trimmed.length > 280 ? `${trimmed.slice(0, 280)}…` : trimmed || 'Nota vazia';
+};
+
+export function NoteConflictDialog({
+    conflict,
+    localTitle,
+    localText,
+    isResolving,
+    onKeepMine,
+    onUseServer,
+    onKeepBoth,
+}: NoteConflictDialogProps) {
+    const { serverNote } = conflict;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" />
+
+            {/* Dialog */}
+            <div className="relative z-10 w-full max-w-2xl bg-card rounded-xl shadow-xl border p-6 mx-4">
+                {/* Header */}
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 rounded-full bg-amber-500/10 flex items-center justify-center">
+                        <AlertTriangle className="w-5 h-5 text-amber-500" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-semibold">Conflito de edição</h2>
+                        <p className="text-sm text-muted-foreground">
+                            Esta nota foi alterada em outro lugar às {format(new Date(serverNote.updatedAt), 'HH:mm:ss')}.
+                            Suas alterações ainda não foram salvas.
+                        </p>
+                    </div>
+                </div>
+
+                {/* Side-by-side comparison */}
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="p-3 rounded-lg border bg-primary/5">
+                        <p className="text-xs font-medium text-primary mb-1">Sua versão</p>
+                        <p className="font-medium truncate">{localTitle || 'Sem título'}</p>
+                        <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {preview(localText)}
+                        </p>
+                    </div>
+                    <div className="p-3 rounded-lg border">
+                        <p className="text-xs font-medium text-muted-foreground mb-1">Versão do servidor</p>
+                        <p className="font-medium truncate">{serverNote.title || 'Sem título'}</p>
+                        <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                            {preview(serverNote.plainText)}
+                        </p>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 mt-6">
+                    <button
+                        onClick={onKeepBoth}
+                        disabled={isResolving}
+                        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                        title="Salva sua versão como uma nova nota e carrega a do servidor"
+                    >
+                        <Copy className="w-4 h-4" />
+                        <span>Manter ambas</span>
+                    </button>
+                    <button
+                        onClick={onUseServer}
+                        disabled={isResolving}
+                        className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                    >
+                        <Download className="w-4 h-4" />
+                        <span>Usar versão do servidor</span>
+                    </button>
+                    <button
+                        onClick={onKeepMine}
+                        disabled={isResolving}
+                        className={cn(
+                            'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                            'bg-primary text-primary-foreground hover:bg-primary/90',
+                            'disabled:opacity-50 disabled:cursor-not-allowed'
+                        )}
+                    >
+                        {isResolving ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <Upload className="w-4 h-4" />
+                        )}
+                        <span>Manter a minha</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
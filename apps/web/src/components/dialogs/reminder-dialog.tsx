@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { toast } from 'sonner';
+import { addDays, addHours, format, nextMonday, setHours, setMinutes } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { useNotesStore } from '@/store/notes-store';
+import { remindersApi } from '@/lib/api';
+import { AlarmClock, Check, Loader2, Trash2, X } from 'lucide-react';
+
+interface ReminderDialogProps {
+    noteId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// datetime-local inputs work in local time without seconds
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const at = (date: Date, hours: number) => setMinutes(setHours(date, hours), 0);
+
+const PRESETS = [
+    { label: 'Em 1 hora', date: () => addHours(new Date(), 1) },
+    { label: 'Amanhã, 9h', date: () => at(addDays(new Date(), 1), 9) },
+    { label: 'Próxima segunda, 9h', date: () => at(nextMonday(new Date()), 9) },
+];
+
+export function ReminderDialog({ noteId, open, onOpenChange }: ReminderDialogProps) {
+    const { token } = useAuthStore();
+    const { reminders, upsertReminder, removeReminder } = useNotesStore();
+    const reminder = reminders.find((r) => r.id === noteId);
+    const [value, setValue] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setValue(reminder ? toInputValue(new Date(reminder.reminderAt)) : toInputValue(at(addDays(new Date(), 1), 9)));
+        }
+    }, [open, reminder]);
+
+    const run = async (action: () => Promise<void>) => {
+        if (!token) return;
+
+        setIsSaving(true);
+        try {
+            await action();
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao salvar lembrete');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!value) return;
+
+        run(async () => {
+            const updated = await remindersApi.update(token!, noteId, { reminderAt: new Date(value).toISOString() });
+            upsertReminder(updated);
+            toast.success(`Lembrete para ${format(new Date(value), 'dd/MM HH:mm')}`);
+        });
+    };
+
+    const handleDone = () =>
+        run(async () => {
+            await remindersApi.update(token!, noteId, { done: true });
+            removeReminder(noteId);
+            toast.success('Lembrete concluído');
+        });
+
+    const handleClear = () =>
+        run(async () => {
+            await remindersApi.clear(token!, noteId);
+            removeReminder(noteId);
+            toast.success('Lembrete removido');
+        });
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-sm bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <AlarmClock className="w-5 h-5" />
+                            {reminder ? 'Editar lembrete' : 'Adicionar lembrete'}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        Você recebe uma notificação quando o lembrete vencer.
+                    </Dialog.Description>
+
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div className="flex flex-wrap gap-2">
+                            {PRESETS.map((preset) => (
+                                <button
+                                    key={preset.label}
+                                    type="button"
+                                    onClick={() => setValue(toInputValue(preset.date()))}
+                                    className="px-2.5 py-1 text-xs rounded-lg border hover:bg-accent transition-colors"
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <input
+                            type="datetime-local"
+                            value={value}
+                            onChange={(e) => setValue(e.target.value)}
+                            className="w-full px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+
+                        <div className="flex items-center gap-2">
+                            {reminder && (
+                                <>
+                                    <button
+                                        type="button"
+                                        onClick={handleDone}
+                                        disabled={isSaving}
+                                        className="p-2 rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                                        title="Marcar como concluído"
+                                    >
+                                        <Check className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleClear}
+                                        disabled={isSaving}
+                                        className="p-2 rounded-lg border hover:bg-destructive/10 hover:text-destructive transition-colors disabled:opacity-50"
+                                        title="Remover lembrete"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </>
+                            )}
+                            <div className="flex-1" />
+                            <button
+                                type="submit"
+                                disabled={isSaving || !value}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                                    'bg-primary text-primary-foreground hover:bg-primary/90',
+                                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Salvar
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
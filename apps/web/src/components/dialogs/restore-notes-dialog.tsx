@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { Loader2, Undo2, X } from 'lucide-react';
+
+interface RestoreNotesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Names of the deleted notebooks the notes came from
+    missingNotebooks: string[];
+    // notebookId undefined: recreate the original notebooks
+    onConfirm: (notebookId?: string) => Promise<void>;
+}
+
+/**
+ * Asks where to restore notes whose notebook was deleted while they were in
+ * the trash: recreate it, or move them to an existing notebook.
+ */
+export function RestoreNotesDialog({ open, onOpenChange, missingNotebooks, onConfirm }: RestoreNotesDialogProps) {
+    const notebooks = useNotesStore((state) => state.notebooks);
+    const [destination, setDestination] = useState<'recreate' | 'existing'>('recreate');
+    const [notebookId, setNotebookId] = useState('');
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setDestination('recreate');
+            setNotebookId(notebooks.find((n) => n.isDefault)?.id ?? notebooks[0]?.id ?? '');
+        }
+    }, [open, notebooks]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setIsRestoring(true);
+        try {
+            await onConfirm(destination === 'existing' ? notebookId : undefined);
+            onOpenChange(false);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const names = missingNotebooks.map((name) => `"${name}"`).join(', ');
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !isRestoring && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-sm bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <Undo2 className="w-5 h-5" />
+                            Restaurar da lixeira
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        {missingNotebooks.length > 1
+                            ? `Os cadernos ${names} foram excluídos.`
+                            : `O caderno ${names} foi excluído.`}{' '}
+                        Para onde as notas devem voltar?
+                    </Dialog.Description>
+
+                    <form onSubmit={handleSubmit} className="space-y-3">
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="radio"
+                                checked={destination === 'recreate'}
+                                onChange={() => setDestination('recreate')}
+                            />
+                            {missingNotebooks.length > 1 ? 'Recriar os cadernos' : 'Recriar o caderno'}
+                        </label>
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="radio"
+                                checked={destination === 'existing'}
+                                onChange={() => setDestination('existing')}
+                                disabled={notebooks.length === 0}
+                            />
+                            Mover para
+                            <select
+                                value={notebookId}
+                                onChange={(e) => {
+                                    setNotebookId(e.target.value);
+                                    setDestination('existing');
+                                }}
+                                disabled={notebooks.length === 0}
+                                className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border bg-background text-sm"
+                            >
+                                {notebooks.map((notebook) => (
+                                    <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Dialog.Close asChild>
+                                <button
+                                    type="button"
+                                    className="px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                            </Dialog.Close>
+                            <button
+                                type="submit"
+                                disabled={isRestoring || (destination === 'existing' && !notebookId)}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                                    'bg-primary text-primary-foreground hover:bg-primary/90',
+                                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {isRestoring && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Restaurar
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
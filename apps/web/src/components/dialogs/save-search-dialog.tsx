@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { useNotesStore, SavedSearch } from '@/store/notes-store';
+import { savedSearchesApi } from '@/lib/api';
+import { Loader2, Search, X } from 'lucide-react';
+
+interface SaveSearchDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Saved search to edit; a new one is created otherwise
+    savedSearch?: SavedSearch | null;
+    // Defaults for a new saved search, e.g. the query typed in the search box
+    initialQuery?: string;
+    notebookId?: string | null;
+    tagIds?: string[];
+}
+
+export function SaveSearchDialog({
+    open,
+    onOpenChange,
+    savedSearch,
+    initialQuery = '',
+    notebookId = null,
+    tagIds,
+}: SaveSearchDialogProps) {
+    const { token } = useAuthStore();
+    const { notebooks, tags, setSavedSearches } = useNotesStore();
+    const [name, setName] = useState('');
+    const [query, setQuery] = useState('');
+    const [showCount, setShowCount] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const scopeNotebookId = savedSearch ? savedSearch.notebookId : notebookId;
+    const scopeTagIds = savedSearch ? savedSearch.tagIds ?? [] : tagIds ?? [];
+
+    const scopeLabels = [
+        ...notebooks.filter((n) => n.id === scopeNotebookId).map((n) => `Notebook: ${n.name}`),
+        ...tags.filter((t) => scopeTagIds.includes(t.id)).map((t) => `#${t.name}`),
+    ];
+
+    useEffect(() => {
+        if (open) {
+            setName(savedSearch?.name ?? initialQuery.trim());
+            setQuery(savedSearch?.query ?? initialQuery.trim());
+            setShowCount(savedSearch?.showCount ?? false);
+        }
+    }, [open, savedSearch, initialQuery]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !name.trim() || !query.trim()) return;
+
+        setIsSaving(true);
+        try {
+            if (savedSearch) {
+                await savedSearchesApi.update(token, savedSearch.id, {
+                    name: name.trim(),
+                    query: query.trim(),
+                    showCount,
+                });
+            } else {
+                await savedSearchesApi.create(token, {
+                    name: name.trim(),
+                    query: query.trim(),
+                    notebookId: scopeNotebookId,
+                    tagIds: scopeTagIds.length ? scopeTagIds : undefined,
+                    showCount,
+                });
+            }
+
+            // Reload the list for the live counts
+            setSavedSearches(await savedSearchesApi.getAll(token));
+            toast.success(savedSearch ? 'Pesquisa atualizada' : `Pesquisa "${name.trim()}" salva`);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao salvar pesquisa');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <Search className="w-5 h-5" />
+                            {savedSearch ? 'Editar pesquisa salva' : 'Salvar pesquisa'}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        Pesquisas salvas aparecem na barra lateral e sempre mostram os resultados atuais.
+                    </Dialog.Description>
+
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Nome</label>
+                            <input
+                                autoFocus
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                maxLength={100}
+                                placeholder="Ex.: Pendências do projeto"
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Pesquisa</label>
+                            <input
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                maxLength={2000}
+                                placeholder='Ex.: tag:trabalho "reunião" -rascunho'
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                            {scopeLabels.length > 0 && (
+                                <p className="mt-1.5 text-xs text-muted-foreground">
+                                    Limitada a: {scopeLabels.join(', ')}
+                                </p>
+                            )}
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={showCount}
+                                onChange={(e) => setShowCount(e.target.checked)}
+                                className="rounded border"
+                            />
+                            Mostrar número de notas na barra lateral
+                        </label>
+
+                        <div className="flex justify-end gap-3">
+                            <Dialog.Close asChild>
+                                <button
+                                    type="button"
+                                    disabled={isSaving}
+                                    className="px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                                >
+                                    Cancelar
+                                </button>
+                            </Dialog.Close>
+                            <button
+                                type="submit"
+                                disabled={isSaving || !name.trim() || !query.trim()}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                                    'bg-primary text-primary-foreground hover:bg-primary/90',
+                                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Salvar
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { templatesApi } from '@/lib/api';
+import { LayoutTemplate, Loader2, X } from 'lucide-react';
+
+interface SaveTemplateDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    noteTitle: string;
+    // Editor JSON of the note
+    noteContent: any;
+}
+
+export function SaveTemplateDialog({ open, onOpenChange, noteTitle, noteContent }: SaveTemplateDialogProps) {
+    const { token } = useAuthStore();
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [isShared, setIsShared] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setName(noteTitle.trim());
+            setDescription('');
+            setIsShared(false);
+        }
+    }, [open, noteTitle]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !name.trim() || !noteContent) return;
+
+        setIsSaving(true);
+        try {
+            await templatesApi.create(token, {
+                name: name.trim(),
+                description: description.trim() || undefined,
+                content: noteContent,
+                isShared,
+            });
+            toast.success(`Template "${name.trim()}" salvo`);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao salvar template');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <LayoutTemplate className="w-5 h-5" />
+                            Salvar como template
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        O conteúdo atual da nota vira um template. Use {'{{date}}'}, {'{{title}}'} e {'{{user.name}}'} no texto para preenchê-los ao criar notas.
+                    </Dialog.Description>
+
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Nome</label>
+                            <input
+                                autoFocus
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                maxLength={100}
+                                placeholder="Ex.: Ata de reunião"
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Descrição</label>
+                            <textarea
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                maxLength={500}
+                                rows={2}
+                                placeholder="Opcional"
+                                className="w-full px-3 py-2 rounded-lg border bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={isShared}
+                                onChange={(e) => setIsShared(e.target.checked)}
+                                className="rounded border"
+                            />
+                            Compartilhar com todos os usuários
+                        </label>
+
+                        <div className="flex justify-end gap-3">
+                            <Dialog.Close asChild>
+                                <button
+                                    type="button"
+                                    disabled={isSaving}
+                                    className="px-4 py-2 text-sm rounded-lg border hover:bg-accent transition-colors disabled:opacity-50"
+                                >
+                                    Cancelar
+                                </button>
+                            </Dialog.Close>
+                            <button
+                                type="submit"
+                                disabled={isSaving || !name.trim()}
+                                className={cn(
+                                    'flex items-center gap-2 px-4 py-2 text-sm rounded-lg transition-colors',
+                                    'bg-primary text-primary-foreground hover:bg-primary/90',
+                                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                                )}
+                            >
+                                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                Salvar
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { templatesApi, NoteTemplate } from '@/lib/api';
+import { LayoutTemplate, Loader2, Trash2, Users, X } from 'lucide-react';
+
+interface TemplatePickerDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title?: string;
+    // Called with the chosen template; the dialog closes once it resolves
+    onSelect: (template: NoteTemplate) => Promise<void> | void;
+}
+
+export function TemplatePickerDialog({
+    open,
+    onOpenChange,
+    title = 'Escolher template',
+    onSelect,
+}: TemplatePickerDialogProps) {
+    const { token, user } = useAuthStore();
+    const [templates, setTemplates] = useState<NoteTemplate[] | null>(null);
+    const [applyingId, setApplyingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open || !token) return;
+
+        setTemplates(null);
+        templatesApi
+            .getAll(token)
+            .then(setTemplates)
+            .catch(() => {
+                setTemplates([]);
+                toast.error('Falha ao carregar templates');
+            });
+    }, [open, token]);
+
+    const handleSelect = async (template: NoteTemplate) => {
+        setApplyingId(template.id);
+        try {
+            await onSelect(template);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao aplicar template');
+        } finally {
+            setApplyingId(null);
+        }
+    };
+
+    const handleDelete = async (template: NoteTemplate, e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (!token || !window.confirm(`Excluir o template "${template.name}"?`)) return;
+
+        try {
+            await templatesApi.delete(token, template.id);
+            setTemplates((current) => current?.filter((t) => t.id !== template.id) ?? null);
+            toast.success('Template excluído');
+        } catch (error) {
+            toast.error('Falha ao excluir template');
+        }
+    };
+
+    const ownTemplates = templates?.filter((t) => t.authorId === user?.id) ?? [];
+    const sharedTemplates = templates?.filter((t) => t.authorId !== user?.id) ?? [];
+
+    const renderTemplate = (template: NoteTemplate) => {
+        const isOwn = template.authorId === user?.id;
+
+        return (
+            <div
+                key={template.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => !applyingId && handleSelect(template)}
+                onKeyDown={(e) => e.key === 'Enter' && !applyingId && handleSelect(template)}
+                className={cn(
+                    'group flex items-start gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-colors hover:bg-accent',
+                    applyingId && applyingId !== template.id && 'opacity-50 pointer-events-none'
+                )}
+            >
+                {applyingId === template.id ? (
+                    <Loader2 className="w-4 h-4 mt-0.5 animate-spin shrink-0" />
+                ) : (
+                    <LayoutTemplate className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate">{template.name}</span>
+                        {isOwn && template.isShared && (
+                            <Users className="w-3 h-3 text-muted-foreground shrink-0" aria-label="Compartilhado" />
+                        )}
+                    </div>
+                    {template.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{template.description}</p>
+                    )}
+                    {!isOwn && template.author?.name && (
+                        <p className="text-xs text-muted-foreground">por {template.author.name}</p>
+                    )}
+                </div>
+                {isOwn && (
+                    <button
+                        onClick={(e) => handleDelete(template, e)}
+                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background text-muted-foreground hover:text-destructive transition-opacity"
+                        title="Excluir template"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <Dialog.Root open={open} onOpenChange={(o) => !applyingId && onOpenChange(o)}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md bg-card border rounded-xl shadow-xl z-50 p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
+                            <LayoutTemplate className="w-5 h-5" />
+                            {title}
+                        </Dialog.Title>
+                        <Dialog.Close asChild>
+                            <button className="p-1.5 rounded-lg hover:bg-accent transition-colors">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Dialog.Description className="text-sm text-muted-foreground mb-4">
+                        {'{{date}}'}, {'{{title}}'} e {'{{user.name}}'} são preenchidos ao usar o template.
+                    </Dialog.Description>
+
+                    <div className="max-h-96 overflow-y-auto -mx-2 px-2 space-y-4">
+                        {!templates ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : templates.length === 0 ? (
+                            <p className="py-8 text-sm text-muted-foreground text-center">
+                                Nenhum template ainda. Use &quot;Salvar como template&quot; no menu de uma nota.
+                            </p>
+                        ) : (
+                            <>
+                                {ownTemplates.length > 0 && (
+                                    <div>
+                                        <h3 className="px-3 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                            Meus templates
+                                        </h3>
+                                        {ownTemplates.map(renderTemplate)}
+                                    </div>
+                                )}
+                                {sharedTemplates.length > 0 && (
+                                    <div>
+                                        <h3 className="px-3 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                            Compartilhados
+                                        </h3>
+                                        {sharedTemplates.map(renderTemplate)}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { BlockChange, InlineChange, VersionDiff } from '@/lib/api';
+
+export type DiffMode = 'split' | 'inline';
+
+interface VersionDiffViewProps {
+    diff: VersionDiff;
+    mode: DiffMode;
+}
+
+const blockText = (type: string, text: string) => text || `[${type}]`;
+
+const blockClass = (type: string) =>
+    cn('whitespace-pre-wrap break-words text-sm', type === 'heading' && 'font-semibold');
+
+function InlineSpans({ changes, show }: { changes: InlineChange[]; show: InlineChange['kind'][] }) {
+    return (
+        <>
+            {changes
+                .filter((change) => show.includes(change.kind))
+                .map((change, index) => (
+                    <span
+                        key={index}
+                        className={cn(
+                            change.kind === 'insert' && 'bg-green-500/25 rounded-sm',
+                            change.kind === 'delete' && 'bg-red-500/25 line-through rounded-sm'
+                        )}
+                    >
+                        {change.text}
+                    </span>
+                ))}
+        </>
+    );
+}
+
+function InlineBlock({ block }: { block: BlockChange }) {
+    if (block.kind === 'modify') {
+        return (
+            <div className={cn(blockClass(block.type), 'px-3 py-1.5 border-l-2 border-amber-500 bg-amber-500/5')}>
+                <InlineSpans changes={block.inline} show={['equal', 'insert', 'delete']} />
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className={cn(
+                blockClass(block.type),
+                'px-3 py-1.5 border-l-2',
+                block.kind === 'equal' && 'border-transparent text-muted-foreground',
+                block.kind === 'insert' && 'border-green-500 bg-green-500/10',
+                block.kind === 'delete' && 'border-red-500 bg-red-500/10 line-through'
+            )}
+        >
+            {blockText(block.type, block.text)}
+        </div>
+    );
+}
+
+function SplitBlock({ block }: { block: BlockChange }) {
+    const empty = <div className="px-3 py-1.5 bg-muted/30" />;
+
+    if (block.kind === 'modify') {
+        return (
+            <>
+                <div className={cn(blockClass(block.type), 'px-3 py-1.5 bg-red-500/5')}>
+                    <InlineSpans changes={block.inline} show={['equal', 'delete']} />
+                </div>
+                <div className={cn(blockClass(block.type), 'px-3 py-1.5 bg-green-500/5')}>
+                    <InlineSpans changes={block.inline} show={['equal', 'insert']} />
+                </div>
+            </>
+        );
+    }
+
+    if (block.kind === 'equal') {
+        const text = blockText(block.type, block.text);
+        return (
+            <>
+                <div className={cn(blockClass(block.type), 'px-3 py-1.5 text-muted-foreground')}>{text}</div>
+                <div className={cn(blockClass(block.type), 'px-3 py-1.5 text-muted-foreground')}>{text}</div>
+            </>
+        );
+    }
+
+    const side = (
+        <div
+            className={cn(
+                blockClass(block.type),
+                'px-3 py-1.5',
+                block.kind === 'insert' ? 'bg-green-500/10' : 'bg-red-500/10 line-through'
+            )}
+        >
+            {blockText(block.type, block.text)}
+        </div>
+    );
+
+    return block.kind === 'insert' ? <>{empty}{side}</> : <>{side}{empty}</>;
+}
+
+export function VersionDiffView({ diff, mode }: VersionDiffViewProps) {
+    const { stats } = diff;
+    const unchanged = !diff.titleChanged && stats.inserted + stats.deleted + stats.modified === 0;
+
+    return (
+        <div className="space-y-3">
+            {/* Summary */}
+            <div className="flex items-center gap-3 text-xs">
+                <span className="text-green-600">+{stats.inserted} added</span>
+                <span className="text-red-600">−{stats.deleted} removed</span>
+                <span className="text-amber-600">~{stats.modified} changed</span>
+            </div>
+
+            {diff.titleChanged && (
+                <div className="text-sm p-2 rounded-lg border">
+                    <span className="text-muted-foreground">Title: </span>
+                    <span className="bg-red-500/25 line-through rounded-sm">{diff.from.title}</span>{' '}
+                    <span className="bg-green-500/25 rounded-sm">{diff.to.title}</span>
+                </div>
+            )}
+
+            {unchanged ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No differences</p>
+            ) : mode === 'inline' ? (
+                <div className="space-y-1">
+                    {diff.blocks.map((block, index) => (
+                        <InlineBlock key={index} block={block} />
+                    ))}
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+                    {diff.blocks.map((block, index) => (
+                        <SplitBlock key={index} block={block} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -6,19 +6,32 @@ import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
-import { notesApi } from '@/lib/api';
+import { notesApi, VersionDiff } from '@/lib/api';
 import {
+    exportAsHtml,
+    exportAsJson,
+    exportAsMarkdown,
+    exportAsText,
+    versionToExportable,
+} from '@/lib/export-utils';
+import { VersionDiffView, DiffMode } from './version-diff-view';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import {
+    Bookmark,
     Clock,
+    Columns2,
+    Download,
     History,
     Loader2,
     RotateCcw,
+    Rows2,
     X,
 } from 'lucide-react';
 
 interface VersionHistoryDialogProps {
     noteId: string;
     noteTitle?: string;
-    onRestore?: () => void;
+    onRestore?: (note: any) => void; // receives the restored note, with its new revision
     open?: boolean;
     onOpenChange?: (open: boolean) => void;
     children?: React.ReactNode;
@@ -29,8 +42,20 @@ interface Version {
     title: string;
     createdAt: string;
     content: any;
+    label: string | null;
+    description: string | null;
+    author: { id: string; name: string | null; email: string } | null;
 }
 
+type VersionFilter = 'all' | 'named';
+
+const EXPORT_FORMATS = [
+    { name: 'Markdown', exporter: exportAsMarkdown },
+    { name: 'HTML', exporter: exportAsHtml },
+    { name: 'Text', exporter: exportAsText },
+    { name: 'JSON', exporter: exportAsJson },
+];
+
 export function VersionHistoryDialog({
     noteId,
     noteTitle = '',
@@ -45,6 +70,11 @@ export function VersionHistoryDialog({
     const [isLoading, setIsLoading] = useState(false);
     const [isRestoring, setIsRestoring] = useState<string | null>(null);
     const [selectedVersion, setSelectedVersion] = useState<Version | null>(null);
+    const [compareTo, setCompareTo] = useState('current');
+    const [diff, setDiff] = useState<VersionDiff | null>(null);
+    const [isDiffLoading, setIsDiffLoading] = useState(false);
+    const [diffMode, setDiffMode] = useState<DiffMode>('split');
+    const [filter, setFilter] = useState<VersionFilter>('all');
 
     // Use controlled or internal state
     const open = controlledOpen ?? internalOpen;
@@ -57,14 +87,42 @@ export function VersionHistoryDialog({
     useEffect(() => {
         if (open) {
             loadVersions();
+        } else {
+            setSelectedVersion(null);
+            setCompareTo('current');
         }
-    }, [open]);
+    }, [open, filter]);
+
+    // Load the diff between the selected version and the comparison target
+    useEffect(() => {
+        if (!token || !selectedVersion) {
+            setDiff(null);
+            return;
+        }
+
+        let cancelled = false;
+        setIsDiffLoading(true);
+        notesApi.diffVersions(token, noteId, selectedVersion.id, compareTo)
+            .then((data) => {
+                if (!cancelled) setDiff(data);
+            })
+            .catch(() => {
+                if (!cancelled) toast.error('Failed to compare versions');
+            })
+            .finally(() => {
+                if (!cancelled) setIsDiffLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [token, noteId, selectedVersion, compareTo]);
 
     const loadVersions = async () => {
         if (!token) return;
         setIsLoading(true);
         try {
-            const data = await notesApi.getVersions(token, noteId);
+            const data = await notesApi.getVersions(token, noteId, filter === 'named');
             setVersions(data);
         } catch (error) {
             console.error('Failed to load versions:', error);
@@ -78,10 +136,10 @@ export function VersionHistoryDialog({
         if (!token) return;
         setIsRestoring(versionId);
         try {
-            await notesApi.restoreVersion(token, noteId, versionId);
+            const restored = await notesApi.restoreVersion(token, noteId, versionId);
             toast.success('Restored to previous version');
             setOpen(false);
-            onRestore?.();
+            onRestore?.(restored);
         } catch (error) {
             toast.error('Failed to restore version');
         } finally {
@@ -98,7 +156,10 @@ export function VersionHistoryDialog({
             )}
             <Dialog.Portal>
                 <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
-                <Dialog.Content className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg bg-card border rounded-xl shadow-xl z-50 p-6 max-h-[80vh] flex flex-col">
+                <Dialog.Content className={cn(
+                    'fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full bg-card border rounded-xl shadow-xl z-50 p-6 max-h-[80vh] flex flex-col',
+                    selectedVersion ? 'max-w-5xl' : 'max-w-lg'
+                )}>
                     <div className="flex items-center justify-between mb-4">
                         <Dialog.Title className="text-lg font-semibold flex items-center gap-2">
                             <History className="w-5 h-5" />
@@ -115,11 +176,37 @@ export function VersionHistoryDialog({
                         View and restore previous versions of "{noteTitle}"
                     </Dialog.Description>
 
-                    <div className="flex-1 overflow-y-auto space-y-2">
+                    {/* Filter */}
+                    <div className="flex items-center gap-1 mb-4 p-1 rounded-lg bg-muted w-fit">
+                        {(['all', 'named'] as const).map((value) => (
+                            <button
+                                key={value}
+                                onClick={() => {
+                                    setFilter(value);
+                                    setSelectedVersion(null);
+                                }}
+                                className={cn(
+                                    'px-3 py-1 rounded-md text-sm transition-colors',
+                                    filter === value ? 'bg-card shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                                )}
+                            >
+                                {value === 'all' ? 'All versions' : 'Named versions'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 flex gap-4 min-h-0">
+                    <div className={cn('overflow-y-auto space-y-2', selectedVersion ? 'w-72 shrink-0' : 'flex-1')}>
                         {isLoading ? (
                             <div className="flex justify-center py-8">
                                 <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
                             </div>
+                        ) : versions.length === 0 && filter === 'named' ? (
+                            <div className="text-center py-8 text-muted-foreground">
+                                <Bookmark className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                                <p>No named versions yet</p>
+                                <p className="text-sm mt-1">Save a named version from the note menu to keep a checkpoint</p>
+                            </div>
                         ) : versions.length === 0 ? (
                             <div className="text-center py-8 text-muted-foreground">
                                 <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
@@ -138,21 +225,70 @@ export function VersionHistoryDialog({
                                     )}
                                     onClick={() => setSelectedVersion(version)}
                                 >
-                                    <div className="flex items-center justify-between">
-                                        <div>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="min-w-0">
                                             <div className="flex items-center gap-2">
-                                                <span className="font-medium">
-                                                    {index === 0 ? 'Latest Version' : `Version ${versions.length - index}`}
-                                                </span>
-                                                <span className="text-xs text-muted-foreground">
+                                                {version.label ? (
+                                                    <span className="flex items-center gap-1.5 font-medium truncate">
+                                                        <Bookmark className="w-3.5 h-3.5 shrink-0 text-primary" />
+                                                        {version.label}
+                                                    </span>
+                                                ) : (
+                                                    <span className="font-medium">
+                                                        {index === 0 ? 'Latest Version' : `Version ${versions.length - index}`}
+                                                    </span>
+                                                )}
+                                                <span className="text-xs text-muted-foreground shrink-0">
                                                     {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
                                                 </span>
                                             </div>
                                             <p className="text-sm text-muted-foreground mt-1 truncate">
                                                 {version.title}
                                             </p>
+                                            {version.description && (
+                                                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                                                    {version.description}
+                                                </p>
+                                            )}
+                                            {version.label && version.author && (
+                                                <p className="text-xs text-muted-foreground mt-1">
+                                                    by {version.author.name || version.author.email}
+                                                </p>
+                                            )}
                                         </div>
-                                        {index !== 0 && (
+                                        <div className="flex items-center gap-1 shrink-0">
+                                        <DropdownMenu.Root>
+                                            <DropdownMenu.Trigger asChild>
+                                                <button
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    className="p-1.5 rounded-lg hover:bg-accent transition-colors text-muted-foreground"
+                                                    title="Export this version"
+                                                >
+                                                    <Download className="w-4 h-4" />
+                                                </button>
+                                            </DropdownMenu.Trigger>
+                                            <DropdownMenu.Portal>
+                                                <DropdownMenu.Content
+                                                    align="end"
+                                                    sideOffset={5}
+                                                    className="w-36 p-1 rounded-lg shadow-xl border bg-card z-50"
+                                                >
+                                                    {EXPORT_FORMATS.map(({ name, exporter }) => (
+                                                        <DropdownMenu.Item
+                                                            key={name}
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                exporter(versionToExportable(version));
+                                                            }}
+                                                            className="px-2 py-1.5 rounded-md text-sm cursor-pointer hover:bg-accent outline-none"
+                                                        >
+                                                            {name}
+                                                        </DropdownMenu.Item>
+                                                    ))}
+                                                </DropdownMenu.Content>
+                                            </DropdownMenu.Portal>
+                                        </DropdownMenu.Root>
+                                        {(filter === 'named' || index !== 0) && (
                                             <button
                                                 onClick={(e) => {
                                                     e.stopPropagation();
@@ -174,11 +310,71 @@ export function VersionHistoryDialog({
                                                 Restore
                                             </button>
                                         )}
+                                        </div>
                                     </div>
                                 </div>
                             ))
                         )}
                     </div>
+
+                    {/* Diff panel */}
+                    {selectedVersion && (
+                        <div className="flex-1 min-w-0 flex flex-col border-l pl-4">
+                            <div className="flex items-center justify-between gap-2 mb-3">
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="text-muted-foreground">Compare with</span>
+                                    <select
+                                        value={compareTo}
+                                        onChange={(e) => setCompareTo(e.target.value)}
+                                        className="px-2 py-1 rounded-lg border bg-background text-sm"
+                                    >
+                                        <option value="current">Current note</option>
+                                        {versions
+                                            .filter((version) => version.id !== selectedVersion.id)
+                                            .map((version) => (
+                                                <option key={version.id} value={version.id}>
+                                                    {version.label || format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                                                </option>
+                                            ))}
+                                    </select>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => setDiffMode('split')}
+                                        className={cn('p-1.5 rounded-lg transition-colors', diffMode === 'split' ? 'bg-accent' : 'hover:bg-accent')}
+                                        title="Side by side"
+                                    >
+                                        <Columns2 className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setDiffMode('inline')}
+                                        className={cn('p-1.5 rounded-lg transition-colors', diffMode === 'inline' ? 'bg-accent' : 'hover:bg-accent')}
+                                        title="Inline"
+                                    >
+                                        <Rows2 className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setSelectedVersion(null)}
+                                        className="p-1.5 rounded-lg hover:bg-accent transition-colors"
+                                        title="Close comparison"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto">
+                                {isDiffLoading || !diff ? (
+                                    <div className="flex justify-center py-8">
+                                        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                                    </div>
+                                ) : (
+                                    <VersionDiffView diff={diff} mode={diffMode} />
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    </div>
                 </Dialog.Content>
             </Dialog.Portal>
         </Dialog.Root>
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { notesApi, Backlink } from '@/lib/api';
+import { ChevronDown, ChevronUp, FileText, Link2 } from 'lucide-react';
+
+interface BacklinksProps {
+    noteId: string;
+    token: string;
+    className?: string;
+}
+
+export function Backlinks({ noteId, token, className }: BacklinksProps) {
+    const selectNote = useNotesStore((state) => state.selectNote);
+    const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setBacklinks([]);
+
+        notesApi
+            .getBacklinks(token, noteId)
+            .then((links) => {
+                if (!cancelled) setBacklinks(links);
+            })
+            .catch((error) => console.error('Failed to load backlinks:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [noteId, token]);
+
+    if (backlinks.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className={cn('mt-6 border rounded-xl overflow-hidden', className)}>
+            {/* Header */}
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-muted/50 hover:bg-muted/80 transition-colors"
+            >
+                <div className="flex items-center gap-2">
+                    <Link2 className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">
+                        Links para esta nota ({backlinks.length})
+                    </span>
+                </div>
+                {isExpanded ? (
+                    <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                    <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isExpanded && (
+                <div className="divide-y">
+                    {backlinks.map((note) => (
+                        <button
+                            key={note.id}
+                            onClick={() => selectNote(note.id)}
+                            className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-muted/30 transition-colors"
+                        >
+                            <FileText className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate">{note.title || 'Sem título'}</p>
+                                {note.plainText && (
+                                    <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{note.plainText}</p>
+                                )}
+                                <div className="flex items-center gap-2 mt-1">
+                                    <span className="text-xs text-muted-foreground">
+                                        {format(new Date(note.updatedAt), 'MMM d, yyyy')}
+                                    </span>
+                                    {note.notebook && (
+                                        <span
+                                            className="text-xs px-1.5 py-0.5 rounded"
+                                            style={{ backgroundColor: `${note.notebook.color}20`, color: note.notebook.color }}
+                                        >
+                                            {note.notebook.name}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { toast } from 'sonner';
+import {
+    addDays,
+    addMonths,
+    eachDayOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isSameMonth,
+    isToday,
+    startOfMonth,
+    startOfWeek,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { notesApi, templatesApi, DailyNoteSettings, NoteTemplate } from '@/lib/api';
+import { openDailyNote, toDateKey, fromDateKey } from '@/lib/daily-notes';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface DailyNoteNavProps {
+    // YYYY-MM-DD of the open daily note
+    date: string;
+    token: string;
+}
+
+/**
+ * Header controls of a daily note: previous/next day and a calendar
+ * marking the days that have a note, with the journal settings below it.
+ */
+export function DailyNoteNav({ date, token }: DailyNoteNavProps) {
+    const notebooks = useNotesStore((state) => state.notebooks);
+    const [isNavigating, setIsNavigating] = useState(false);
+    const [calendarOpen, setCalendarOpen] = useState(false);
+    const [month, setMonth] = useState(() => startOfMonth(fromDateKey(date)));
+    const [entries, setEntries] = useState<Set<string>>(new Set());
+    const [settings, setSettings] = useState<DailyNoteSettings | null>(null);
+    const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+
+    const current = fromDateKey(date);
+    const gridStart = startOfWeek(month, { weekStartsOn: 0 });
+    const gridEnd = endOfWeek(endOfMonth(month), { weekStartsOn: 0 });
+    const days = eachDayOfInterval({ start: gridStart, end: gridEnd });
+    const rangeFrom = toDateKey(gridStart);
+    const rangeTo = toDateKey(gridEnd);
+
+    // Days with notes in the visible grid
+    useEffect(() => {
+        if (!calendarOpen) return;
+
+        let cancelled = false;
+        notesApi
+            .getDailyRange(token, rangeFrom, rangeTo)
+            .then((result) => {
+                if (!cancelled) setEntries(new Set(result.map((entry) => entry.date)));
+            })
+            .catch(() => undefined);
+
+        return () => {
+            cancelled = true;
+        };
+    }, [calendarOpen, rangeFrom, rangeTo, token]);
+
+    useEffect(() => {
+        if (!calendarOpen) return;
+
+        setMonth(startOfMonth(fromDateKey(date)));
+        Promise.all([notesApi.getDailySettings(token), templatesApi.getAll(token)])
+            .then(([loadedSettings, loadedTemplates]) => {
+                setSettings(loadedSettings);
+                setTemplates(loadedTemplates);
+            })
+            .catch(() => undefined);
+    }, [calendarOpen, date, token]);
+
+    const goTo = async (target: string) => {
+        if (target === date) return;
+
+        setIsNavigating(true);
+        try {
+            await openDailyNote(token, target);
+            setCalendarOpen(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao abrir nota do dia');
+        } finally {
+            setIsNavigating(false);
+        }
+    };
+
+    const handleSettingsChange = async (updates: Partial<DailyNoteSettings>) => {
+        try {
+            setSettings(await notesApi.updateDailySettings(token, updates));
+            toast.success('Configuração do diário salva');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao salvar configuração');
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1 text-sm">
+            <button
+                onClick={() => goTo(toDateKey(addDays(current, -1)))}
+                disabled={isNavigating}
+                className="p-1.5 rounded-lg hover:bg-accent text-muted-foreground transition-colors disabled:opacity-50"
+                title="Dia anterior"
+            >
+                <ChevronLeft className="w-4 h-4" />
+            </button>
+
+            <Popover.Root open={calendarOpen} onOpenChange={setCalendarOpen}>
+                <Popover.Trigger asChild>
+                    <button className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-accent transition-colors">
+                        {isNavigating ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                            <CalendarDays className="w-4 h-4 text-muted-foreground" />
+                        )}
+                        <span className="capitalize">{format(current, "EEE, d 'de' MMM yyyy", { locale: ptBR })}</span>
+                    </button>
+                </Popover.Trigger>
+                <Popover.Portal>
+                    <Popover.Content
+                        align="start"
+                        sideOffset={8}
+                        className="w-72 p-3 bg-popover border rounded-xl shadow-2xl z-50 animate-in fade-in-0 zoom-in-95"
+                    >
+                        <div className="flex items-center justify-between mb-2">
+                            <button
+                                onClick={() => setMonth(addMonths(month, -1))}
+                                className="p-1 rounded hover:bg-accent transition-colors"
+                                title="Mês anterior"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <span className="text-sm font-medium capitalize">
+                                {format(month, 'MMMM yyyy', { locale: ptBR })}
+                            </span>
+                            <button
+                                onClick={() => setMonth(addMonths(month, 1))}
+                                className="p-1 rounded hover:bg-accent transition-colors"
+                                title="Próximo mês"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-7 gap-0.5 text-center">
+                            {days.slice(0, 7).map((day) => (
+                                <span key={`label-${day.getDay()}`} className="py-1 text-xs text-muted-foreground">
+                                    {format(day, 'EEEEE', { locale: ptBR })}
+                                </span>
+                            ))}
+                            {days.map((day) => {
+                                const key = toDateKey(day);
+                                const hasEntry = entries.has(key);
+
+                                return (
+                                    <button
+                                        key={key}
+                                        onClick={() => goTo(key)}
+                                        disabled={isNavigating}
+                                        className={cn(
+                                            'relative h-8 rounded-lg text-sm transition-colors',
+                                            key === date
+                                                ? 'bg-primary text-primary-foreground'
+                                                : 'hover:bg-accent',
+                                            !isSameMonth(day, month) && key !== date && 'text-muted-foreground/50',
+                                            isToday(day) && key !== date && 'font-semibold text-primary'
+                                        )}
+                                    >
+                                        {format(day, 'd')}
+                                        {hasEntry && (
+                                            <span
+                                                className={cn(
+                                                    'absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full',
+                                                    key === date ? 'bg-primary-foreground' : 'bg-primary'
+                                                )}
+                                            />
+                                        )}
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        <button
+                            onClick={() => goTo(toDateKey(new Date()))}
+                            className="mt-2 w-full py-1.5 text-xs rounded-lg border hover:bg-accent transition-colors"
+                        >
+                            Hoje
+                        </button>
+
+                        {/* Journal settings */}
+                        {settings && (
+                            <div className="mt-3 pt-3 border-t space-y-2">
+                                <label className="block text-xs text-muted-foreground">
+                                    Caderno do diário
+                                    <select
+                                        value={settings.journalNotebookId ?? ''}
+                                        onChange={(e) => handleSettingsChange({ journalNotebookId: e.target.value || null })}
+                                        className="mt-1 w-full px-2 py-1.5 rounded-lg border bg-background text-sm text-foreground"
+                                    >
+                                        <option value="">Journal (padrão)</option>
+                                        {notebooks.map((notebook) => (
+                                            <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="block text-xs text-muted-foreground">
+                                    Template para novos dias
+                                    <select
+                                        value={settings.journalTemplateId ?? ''}
+                                        onChange={(e) => handleSettingsChange({ journalTemplateId: e.target.value || null })}
+                                        className="mt-1 w-full px-2 py-1.5 rounded-lg border bg-background text-sm text-foreground"
+                                    >
+                                        <option value="">Nota em branco</option>
+                                        {templates.map((template) => (
+                                            <option key={template.id} value={template.id}>{template.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+                        )}
+                    </Popover.Content>
+                </Popover.Portal>
+            </Popover.Root>
+
+            <button
+                onClick={() => goTo(toDateKey(addDays(current, 1)))}
+                disabled={isNavigating}
+                className="p-1.5 rounded-lg hover:bg-accent text-muted-foreground transition-colors disabled:opacity-50"
+                title="Próximo dia"
+            >
+                <ChevronRight className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
@@ -2,10 +2,11 @@
 
 import { useState } from 'react';
 import { Editor } from '@tiptap/react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { UploadButton } from './file-upload';
 import { ImageEditorDialog, ImageData } from './image-editor-dialog';
-import { Attachment } from '@/lib/api';
+import { Attachment, storageApi } from '@/lib/api';
 import {
     Bold,
     Code,
@@ -67,12 +68,25 @@ export function EditorToolbar({ editor, noteId, token, onAttachmentUpload, onSea
 
     const Separator = () => <div className="w-px h-6 bg-border mx-1" />;
 
-    const handleImageInsert = (imageData: ImageData) => {
+    const handleImageInsert = async (imageData: ImageData) => {
+        let src = imageData.src;
+
+        // Store local/edited images as attachments so their text is recognized and searchable
+        if (src.startsWith('data:') && token && noteId) {
+            try {
+                const attachment = await storageApi.uploadImageData(token, noteId, src);
+                onAttachmentUpload?.(attachment);
+                src = attachment.url;
+            } catch (error) {
+                toast.error('Falha ao enviar imagem');
+            }
+        }
+
         // Insert image with all attributes including caption
         editor.chain().focus().insertContent({
             type: 'image',
             attrs: {
-                src: imageData.src,
+                src,
                 alt: imageData.alt || imageData.caption || 'Imagem',
                 width: imageData.width || null,
                 height: imageData.height || null,
@@ -0,0 +1,73 @@
+'use client';
+
+import { Node, mergeAttributes } from '@tiptap/react';
+import { NodeViewWrapper, NodeViewProps, ReactNodeViewRenderer } from '@tiptap/react';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { FileText } from 'lucide-react';
+
+function NoteLinkView({ node, selected }: NodeViewProps) {
+    const { noteId, title } = node.attrs;
+    // Links point at the note id: show its current title, even after a rename
+    const target = useNotesStore((state) => state.notes.find((n) => n.id === noteId));
+    const selectNote = useNotesStore((state) => state.selectNote);
+
+    return (
+        <NodeViewWrapper as="span" className="inline">
+            <span
+                onClick={() => selectNote(noteId)}
+                className={cn(
+                    'inline-flex items-center gap-1 px-1 rounded text-primary bg-primary/10 hover:bg-primary/20 cursor-pointer transition-colors',
+                    target?.isTrashed && 'line-through opacity-60',
+                    selected && 'ring-2 ring-primary'
+                )}
+                title={target?.isTrashed ? 'Nota na lixeira' : 'Abrir nota'}
+            >
+                <FileText className="w-3 h-3" />
+                {target?.title || title || 'Sem título'}
+            </span>
+        </NodeViewWrapper>
+    );
+}
+
+// Internal [[link]] to another note, inserted by NoteLinkMenu
+export const NoteLink = Node.create({
+    name: 'noteLink',
+    group: 'inline',
+    inline: true,
+    atom: true,
+
+    addAttributes() {
+        return {
+            noteId: { default: null, rendered: false },
+            // Title when the link was made, for exports and plain text
+            title: { default: '', rendered: false },
+        };
+    },
+
+    parseHTML() {
+        return [
+            {
+                tag: 'span[data-note-link]',
+                getAttrs: (element) => ({
+                    noteId: (element as HTMLElement).getAttribute('data-note-link'),
+                    title: (element as HTMLElement).textContent || '',
+                }),
+            },
+        ];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return ['span', mergeAttributes({ 'data-note-link': node.attrs.noteId }, HTMLAttributes), node.attrs.title];
+    },
+
+    renderText({ node }) {
+        return node.attrs.title;
+    },
+
+    addNodeView() {
+        return ReactNodeViewRenderer(NoteLinkView, { as: 'span' });
+    },
+});
+
+export default NoteLink;
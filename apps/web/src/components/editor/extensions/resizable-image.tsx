@@ -4,6 +4,7 @@ import Image from '@tiptap/extension-image';
 import { NodeViewWrapper, NodeViewProps, ReactNodeViewRenderer } from '@tiptap/react';
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
 import { Maximize2 } from 'lucide-react';
 
 interface ResizableImageProps extends NodeViewProps { }
@@ -12,14 +13,19 @@ function ResizableImageView({ node, updateAttributes, selected }: ResizableImage
     const { src, alt, width, height, caption } = node.attrs;
     const [isResizing, setIsResizing] = useState(false);
     const [aspectRatio, setAspectRatio] = useState(1);
+    const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
     const imageRef = useRef<HTMLImageElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
+    // Words recognized in this image that match the search the note was opened from
+    const textMatch = useNotesStore((state) => state.imageTextMatches.find((match) => match.url === src));
+
     // Calculate aspect ratio when image loads
     useEffect(() => {
         if (imageRef.current && imageRef.current.complete) {
             const ratio = imageRef.current.naturalWidth / imageRef.current.naturalHeight;
             setAspectRatio(ratio);
+            setNaturalSize({ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight });
         }
     }, [src]);
 
@@ -27,6 +33,7 @@ function ResizableImageView({ node, updateAttributes, selected }: ResizableImage
         if (imageRef.current) {
             const ratio = imageRef.current.naturalWidth / imageRef.current.naturalHeight;
             setAspectRatio(ratio);
+            setNaturalSize({ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight });
 
             // Set initial width if not set
             if (!width) {
@@ -116,6 +123,24 @@ function ResizableImageView({ node, updateAttributes, selected }: ResizableImage
                         draggable={false}
                     />
 
+                    {/* OCR search matches, positioned relative to the natural image size */}
+                    {textMatch && naturalSize.width > 0 && (
+                        <div className="absolute inset-0 pointer-events-none">
+                            {textMatch.regions.map((region, index) => (
+                                <div
+                                    key={index}
+                                    className="absolute rounded-sm bg-yellow-300/40 ring-2 ring-yellow-400"
+                                    style={{
+                                        left: `${(region.x0 / naturalSize.width) * 100}%`,
+                                        top: `${(region.y0 / naturalSize.height) * 100}%`,
+                                        width: `${((region.x1 - region.x0) / naturalSize.width) * 100}%`,
+                                        height: `${((region.y1 - region.y0) / naturalSize.height) * 100}%`,
+                                    }}
+                                />
+                            ))}
+                        </div>
+                    )}
+
                     {/* Resize Handles - visible when selected or hovering */}
                     {(selected || isResizing) && (
                         <>
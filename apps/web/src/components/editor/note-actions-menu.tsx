@@ -6,15 +6,21 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
 import { useNotesStore } from '@/store/notes-store';
-import { notesApi } from '@/lib/api';
+import { notesApi, remindersApi } from '@/lib/api';
 import { tiptapToHtml } from '@/lib/export-utils';
 import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ReminderDialog } from '@/components/dialogs/reminder-dialog';
 import {
+    AlarmClock,
+    AlarmClockOff,
+    Bookmark,
     ChevronRight,
     Copy,
     Download,
     FileText,
     History,
+    LayoutTemplate,
     Link,
     Lock,
     MoreHorizontal,
@@ -41,6 +47,8 @@ interface NoteActionsMenuProps {
     fontStyle?: string;
     onFontStyleChange?: (v: string) => void;
     onVersionHistory?: () => void;
+    onCreateCheckpoint?: () => void;
+    onSaveAsTemplate?: () => void;
     children?: React.ReactNode;
 }
 
@@ -63,12 +71,17 @@ export function NoteActionsMenu({
     fontStyle = 'default',
     onFontStyleChange,
     onVersionHistory,
+    onCreateCheckpoint,
+    onSaveAsTemplate,
     children
 }: NoteActionsMenuProps) {
     const router = useRouter();
     const { token } = useAuthStore();
-    const { notes, updateNote, removeNote, notebooks, addNote } = useNotesStore();
+    const { notes, updateNote, removeNote, notebooks, addNote, reminders, removeReminder } = useNotesStore();
     const [open, setOpen] = useState(false);
+    const [reminderOpen, setReminderOpen] = useState(false);
+
+    const reminder = reminders.find((r) => r.id === noteId);
 
     const note = notes.find(n => n.id === noteId);
 
@@ -98,6 +111,18 @@ export function NoteActionsMenu({
         }
     };
 
+    const handleClearReminder = async () => {
+        if (!token) return;
+        try {
+            await remindersApi.clear(token, noteId);
+            removeReminder(noteId);
+            toast.success('Lembrete removido');
+        } catch (error) {
+            toast.error('Falha ao remover lembrete');
+        }
+        setOpen(false);
+    };
+
     // Move to trash
     const handleMoveToTrash = async () => {
         if (!token) return;
@@ -184,228 +209,272 @@ export function NoteActionsMenu({
     };
 
     return (
-        <DropdownMenu.Root open={open} onOpenChange={setOpen}>
-            <DropdownMenu.Trigger asChild>
-                {children || (
-                    <button
+        <>
+            <DropdownMenu.Root open={open} onOpenChange={setOpen}>
+                <DropdownMenu.Trigger asChild>
+                    {children || (
+                        <button
+                            className={cn(
+                                'p-2 rounded-lg hover:bg-accent transition-colors',
+                                'text-muted-foreground hover:text-foreground'
+                            )}
+                        >
+                            <MoreHorizontal className="w-5 h-5" />
+                        </button>
+                    )}
+                </DropdownMenu.Trigger>
+
+                <DropdownMenu.Portal>
+                    <DropdownMenu.Content
+                        align="end"
+                        sideOffset={5}
                         className={cn(
-                            'p-2 rounded-lg hover:bg-accent transition-colors',
-                            'text-muted-foreground hover:text-foreground'
+                            'w-64 p-2 rounded-xl shadow-xl border border-zinc-700',
+                            'bg-zinc-800 text-zinc-100',
+                            'animate-in fade-in-0 zoom-in-95',
+                            'z-50'
                         )}
+                        style={{ backgroundColor: '#27272a' }}
                     >
-                        <MoreHorizontal className="w-5 h-5" />
-                    </button>
-                )}
-            </DropdownMenu.Trigger>
-
-            <DropdownMenu.Portal>
-                <DropdownMenu.Content
-                    align="end"
-                    sideOffset={5}
-                    className={cn(
-                        'w-64 p-2 rounded-xl shadow-xl border border-zinc-700',
-                        'bg-zinc-800 text-zinc-100',
-                        'animate-in fade-in-0 zoom-in-95',
-                        'z-50'
-                    )}
-                    style={{ backgroundColor: '#27272a' }}
-                >
-                    {/* Search placeholder */}
-                    <div className="px-2 pb-2 mb-2 border-b">
-                        <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-muted text-sm text-muted-foreground">
-                            <Search className="w-4 h-4" />
-                            <span>Buscar ações...</span>
+                        {/* Search placeholder */}
+                        <div className="px-2 pb-2 mb-2 border-b">
+                            <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-muted text-sm text-muted-foreground">
+                                <Search className="w-4 h-4" />
+                                <span>Buscar ações...</span>
+                            </div>
                         </div>
-                    </div>
-
-                    {/* Font Styles */}
-                    <div className="flex items-center gap-2 px-2 pb-2 mb-2 border-b">
-                        {FONT_STYLES.map(style => (
-                            <button
-                                key={style.id}
-                                onClick={() => {
-                                    onFontStyleChange?.(style.id);
-                                    toast.success(`Fonte alterada para ${style.name}`);
-                                }}
-                                className={cn(
-                                    'flex-1 flex flex-col items-center gap-1 p-2 rounded-lg transition-colors',
-                                    fontStyle === style.id
-                                        ? 'bg-primary/10 text-primary border border-primary/30'
-                                        : 'hover:bg-accent border border-transparent'
-                                )}
-                            >
-                                <span className={cn('text-lg font-semibold', style.className)}>Ag</span>
-                                <span className="text-[10px] text-muted-foreground">{style.name}</span>
-                            </button>
-                        ))}
-                    </div>
-
-                    {/* Actions */}
-                    <DropdownMenu.Item
-                        onClick={handleCopyLink}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                    >
-                        <Link className="w-4 h-4" />
-                        <span className="flex-1">Copiar link</span>
-                        <span className="text-xs text-muted-foreground">Ctrl+Alt+L</span>
-                    </DropdownMenu.Item>
-
-                    <DropdownMenu.Item
-                        onClick={handleDuplicate}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                    >
-                        <Copy className="w-4 h-4" />
-                        <span className="flex-1">Duplicar</span>
-                        <span className="text-xs text-muted-foreground">Ctrl+D</span>
-                    </DropdownMenu.Item>
-
-                    {/* Move to submenu */}
-                    <DropdownMenu.Sub>
-                        <DropdownMenu.SubTrigger className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none">
-                            <Move className="w-4 h-4" />
-                            <span className="flex-1">Mover para</span>
-                            <ChevronRight className="w-4 h-4" />
-                        </DropdownMenu.SubTrigger>
-                        <DropdownMenu.Portal>
-                            <DropdownMenu.SubContent
-                                sideOffset={5}
-                                className={cn(
-                                    'w-48 p-2 rounded-xl shadow-xl border border-zinc-700',
-                                    'bg-zinc-800 text-zinc-100',
-                                    'animate-in fade-in-0 slide-in-from-left-2',
-                                    'z-50'
-                                )}
-                                style={{ backgroundColor: '#27272a' }}
+
+                        {/* Font Styles */}
+                        <div className="flex items-center gap-2 px-2 pb-2 mb-2 border-b">
+                            {FONT_STYLES.map(style => (
+                                <button
+                                    key={style.id}
+                                    onClick={() => {
+                                        onFontStyleChange?.(style.id);
+                                        toast.success(`Fonte alterada para ${style.name}`);
+                                    }}
+                                    className={cn(
+                                        'flex-1 flex flex-col items-center gap-1 p-2 rounded-lg transition-colors',
+                                        fontStyle === style.id
+                                            ? 'bg-primary/10 text-primary border border-primary/30'
+                                            : 'hover:bg-accent border border-transparent'
+                                    )}
+                                >
+                                    <span className={cn('text-lg font-semibold', style.className)}>Ag</span>
+                                    <span className="text-[10px] text-muted-foreground">{style.name}</span>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Actions */}
+                        <DropdownMenu.Item
+                            onClick={handleCopyLink}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <Link className="w-4 h-4" />
+                            <span className="flex-1">Copiar link</span>
+                            <span className="text-xs text-muted-foreground">Ctrl+Alt+L</span>
+                        </DropdownMenu.Item>
+
+                        <DropdownMenu.Item
+                            onClick={handleDuplicate}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <Copy className="w-4 h-4" />
+                            <span className="flex-1">Duplicar</span>
+                            <span className="text-xs text-muted-foreground">Ctrl+D</span>
+                        </DropdownMenu.Item>
+
+                        {/* Reminder */}
+                        <DropdownMenu.Item
+                            onClick={() => { setOpen(false); setReminderOpen(true); }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <AlarmClock className="w-4 h-4" />
+                            <span className="flex-1">{reminder ? 'Editar lembrete' : 'Adicionar lembrete'}</span>
+                            {reminder && (
+                                <span className="text-xs text-muted-foreground">
+                                    {format(new Date(reminder.reminderAt), 'dd/MM HH:mm')}
+                                </span>
+                            )}
+                        </DropdownMenu.Item>
+
+                        {reminder && (
+                            <DropdownMenu.Item
+                                onClick={handleClearReminder}
+                                className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
                             >
-                                {notebooks.length === 0 ? (
-                                    <div className="px-2 py-4 text-center text-sm text-muted-foreground">
-                                        Nenhum caderno disponível
-                                    </div>
-                                ) : (
-                                    notebooks.map(nb => (
-                                        <DropdownMenu.Item
-                                            key={nb.id}
-                                            onClick={() => handleMoveToNotebook(nb.id, nb.name)}
-                                            className="flex items-center gap-2 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                                        >
-                                            <div
-                                                className="w-3 h-3 rounded-full shrink-0"
-                                                style={{ backgroundColor: nb.color || '#6366f1' }}
-                                            />
-                                            <span className="truncate">{nb.name}</span>
-                                        </DropdownMenu.Item>
-                                    ))
-                                )}
-                            </DropdownMenu.SubContent>
-                        </DropdownMenu.Portal>
-                    </DropdownMenu.Sub>
-
-                    <DropdownMenu.Item
-                        onClick={handleMoveToTrash}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-destructive/10 outline-none text-destructive"
-                    >
-                        <Trash2 className="w-4 h-4" />
-                        <span className="flex-1">Mover para lixeira</span>
-                    </DropdownMenu.Item>
-
-                    <DropdownMenu.Separator className="my-2 h-px bg-border" />
-
-                    {/* Toggles */}
-                    <div
-                        onClick={() => {
-                            onSmallTextChange?.(!isSmallText);
-                            toast.success(isSmallText ? 'Texto normal' : 'Texto pequeno ativado');
-                        }}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
-                    >
-                        <Type className="w-4 h-4" />
-                        <span className="flex-1">Texto pequeno</span>
-                        <div className={cn(
-                            'w-8 h-4 rounded-full transition-colors relative',
-                            isSmallText ? 'bg-primary' : 'bg-muted'
-                        )}>
+                                <AlarmClockOff className="w-4 h-4" />
+                                <span className="flex-1">Remover lembrete</span>
+                            </DropdownMenu.Item>
+                        )}
+
+                        {/* Move to submenu */}
+                        <DropdownMenu.Sub>
+                            <DropdownMenu.SubTrigger className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none">
+                                <Move className="w-4 h-4" />
+                                <span className="flex-1">Mover para</span>
+                                <ChevronRight className="w-4 h-4" />
+                            </DropdownMenu.SubTrigger>
+                            <DropdownMenu.Portal>
+                                <DropdownMenu.SubContent
+                                    sideOffset={5}
+                                    className={cn(
+                                        'w-48 p-2 rounded-xl shadow-xl border border-zinc-700',
+                                        'bg-zinc-800 text-zinc-100',
+                                        'animate-in fade-in-0 slide-in-from-left-2',
+                                        'z-50'
+                                    )}
+                                    style={{ backgroundColor: '#27272a' }}
+                                >
+                                    {notebooks.length === 0 ? (
+                                        <div className="px-2 py-4 text-center text-sm text-muted-foreground">
+                                            Nenhum caderno disponível
+                                        </div>
+                                    ) : (
+                                        notebooks.map(nb => (
+                                            <DropdownMenu.Item
+                                                key={nb.id}
+                                                onClick={() => handleMoveToNotebook(nb.id, nb.name)}
+                                                className="flex items-center gap-2 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                                            >
+                                                <div
+                                                    className="w-3 h-3 rounded-full shrink-0"
+                                                    style={{ backgroundColor: nb.color || '#6366f1' }}
+                                                />
+                                                <span className="truncate">{nb.name}</span>
+                                            </DropdownMenu.Item>
+                                        ))
+                                    )}
+                                </DropdownMenu.SubContent>
+                            </DropdownMenu.Portal>
+                        </DropdownMenu.Sub>
+
+                        <DropdownMenu.Item
+                            onClick={handleMoveToTrash}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-destructive/10 outline-none text-destructive"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            <span className="flex-1">Mover para lixeira</span>
+                        </DropdownMenu.Item>
+
+                        <DropdownMenu.Separator className="my-2 h-px bg-border" />
+
+                        {/* Toggles */}
+                        <div
+                            onClick={() => {
+                                onSmallTextChange?.(!isSmallText);
+                                toast.success(isSmallText ? 'Texto normal' : 'Texto pequeno ativado');
+                            }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
+                        >
+                            <Type className="w-4 h-4" />
+                            <span className="flex-1">Texto pequeno</span>
                             <div className={cn(
-                                'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
-                                isSmallText ? 'left-4' : 'left-0'
-                            )} />
+                                'w-8 h-4 rounded-full transition-colors relative',
+                                isSmallText ? 'bg-primary' : 'bg-muted'
+                            )}>
+                                <div className={cn(
+                                    'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
+                                    isSmallText ? 'left-4' : 'left-0'
+                                )} />
+                            </div>
                         </div>
-                    </div>
-
-                    <div
-                        onClick={() => {
-                            onFullWidthChange?.(!isFullWidth);
-                            toast.success(isFullWidth ? 'Largura normal' : 'Largura total ativada');
-                        }}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
-                    >
-                        <FileText className="w-4 h-4" />
-                        <span className="flex-1">Largura total</span>
-                        <div className={cn(
-                            'w-8 h-4 rounded-full transition-colors relative',
-                            isFullWidth ? 'bg-primary' : 'bg-muted'
-                        )}>
+
+                        <div
+                            onClick={() => {
+                                onFullWidthChange?.(!isFullWidth);
+                                toast.success(isFullWidth ? 'Largura normal' : 'Largura total ativada');
+                            }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
+                        >
+                            <FileText className="w-4 h-4" />
+                            <span className="flex-1">Largura total</span>
                             <div className={cn(
-                                'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
-                                isFullWidth ? 'left-4' : 'left-0'
-                            )} />
+                                'w-8 h-4 rounded-full transition-colors relative',
+                                isFullWidth ? 'bg-primary' : 'bg-muted'
+                            )}>
+                                <div className={cn(
+                                    'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
+                                    isFullWidth ? 'left-4' : 'left-0'
+                                )} />
+                            </div>
                         </div>
-                    </div>
-
-                    <div
-                        onClick={() => {
-                            onLockedChange?.(!isLocked);
-                            toast.success(isLocked ? 'Página desbloqueada' : 'Página bloqueada');
-                        }}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
-                    >
-                        {isLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
-                        <span className="flex-1">Bloquear página</span>
-                        <div className={cn(
-                            'w-8 h-4 rounded-full transition-colors relative',
-                            isLocked ? 'bg-primary' : 'bg-muted'
-                        )}>
+
+                        <div
+                            onClick={() => {
+                                onLockedChange?.(!isLocked);
+                                toast.success(isLocked ? 'Página desbloqueada' : 'Página bloqueada');
+                            }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent"
+                        >
+                            {isLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                            <span className="flex-1">Bloquear página</span>
                             <div className={cn(
-                                'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
-                                isLocked ? 'left-4' : 'left-0'
-                            )} />
+                                'w-8 h-4 rounded-full transition-colors relative',
+                                isLocked ? 'bg-primary' : 'bg-muted'
+                            )}>
+                                <div className={cn(
+                                    'absolute top-0 w-4 h-4 rounded-full bg-white shadow transition-all',
+                                    isLocked ? 'left-4' : 'left-0'
+                                )} />
+                            </div>
                         </div>
-                    </div>
 
-                    <DropdownMenu.Separator className="my-2 h-px bg-border" />
+                        <DropdownMenu.Separator className="my-2 h-px bg-border" />
 
-                    {/* Export/Print */}
-                    <DropdownMenu.Item
-                        onClick={handleExportJson}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                    >
-                        <Download className="w-4 h-4" />
-                        <span className="flex-1">Exportar</span>
-                    </DropdownMenu.Item>
+                        {/* Export/Print */}
+                        <DropdownMenu.Item
+                            onClick={handleExportJson}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <Download className="w-4 h-4" />
+                            <span className="flex-1">Exportar</span>
+                        </DropdownMenu.Item>
 
-                    <DropdownMenu.Item
-                        onClick={handlePrint}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                    >
-                        <Printer className="w-4 h-4" />
-                        <span className="flex-1">Imprimir</span>
-                    </DropdownMenu.Item>
+                        <DropdownMenu.Item
+                            onClick={handlePrint}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <Printer className="w-4 h-4" />
+                            <span className="flex-1">Imprimir</span>
+                        </DropdownMenu.Item>
 
-                    <DropdownMenu.Item
-                        onClick={() => { setOpen(false); onVersionHistory?.(); }}
-                        className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
-                    >
-                        <History className="w-4 h-4" />
-                        <span className="flex-1">Histórico de versões</span>
-                    </DropdownMenu.Item>
-
-                    <DropdownMenu.Separator className="my-2 h-px bg-border" />
-
-                    {/* Footer */}
-                    <div className="px-2 pt-2 text-xs text-muted-foreground">
-                        <p>Última edição: agora</p>
-                    </div>
-                </DropdownMenu.Content>
-            </DropdownMenu.Portal>
-        </DropdownMenu.Root>
+                        <DropdownMenu.Item
+                            onClick={() => { setOpen(false); onVersionHistory?.(); }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <History className="w-4 h-4" />
+                            <span className="flex-1">Histórico de versões</span>
+                        </DropdownMenu.Item>
+
+                        <DropdownMenu.Item
+                            onClick={() => { setOpen(false); onCreateCheckpoint?.(); }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <Bookmark className="w-4 h-4" />
+                            <span className="flex-1">Salvar versão nomeada</span>
+                        </DropdownMenu.Item>
+
+                        <DropdownMenu.Item
+                            onClick={() => { setOpen(false); onSaveAsTemplate?.(); }}
+                            className="flex items-center gap-3 px-2 py-2 rounded-lg text-sm cursor-pointer hover:bg-accent outline-none"
+                        >
+                            <LayoutTemplate className="w-4 h-4" />
+                            <span className="flex-1">Salvar como template</span>
+                        </DropdownMenu.Item>
+
+                        <DropdownMenu.Separator className="my-2 h-px bg-border" />
+
+                        {/* Footer */}
+                        <div className="px-2 pt-2 text-xs text-muted-foreground">
+                            <p>Última edição: agora</p>
+                        </div>
+                    </DropdownMenu.Content>
+                </DropdownMenu.Portal>
+            </DropdownMenu.Root>
+
+            <ReminderDialog noteId={noteId} open={reminderOpen} onOpenChange={setReminderOpen} />
+        </>
     );
 }
@@ -20,20 +20,30 @@ import { LinkPreview } from './extensions/link-preview';
 import { VideoEmbed, getVideoEmbedInfo } from './extensions/video-embed';
 import { ImageEditorDialog, ImageData } from './image-editor-dialog';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
 import { useNotesStore } from '@/store/notes-store';
-import { notesApi, storageApi, metadataApi, Attachment } from '@/lib/api';
+import { notesApi, storageApi, metadataApi, templatesApi, Attachment, ApiError, NoteTemplate } from '@/lib/api';
 import { EditorToolbar } from './editor-toolbar';
 import { SlashCommandMenu } from './slash-command-menu';
 import { PasteMenu, PasteOption } from './paste-menu';
 import { NoteActionsMenu } from './note-actions-menu';
 import { AttachmentList } from './attachment-list';
+import { RelatedNotes } from './related-notes';
+import { Backlinks } from './backlinks';
+import { NoteLinkMenu } from './note-link-menu';
+import { NoteLink } from './extensions/note-link';
 import { ShareDialog } from '@/components/dialogs/share-dialog';
 import { VersionHistoryDialog } from '@/components/dialogs/version-history-dialog';
+import { CreateCheckpointDialog } from '@/components/dialogs/create-checkpoint-dialog';
+import { TemplatePickerDialog } from '@/components/dialogs/template-picker-dialog';
+import { SaveTemplateDialog } from '@/components/dialogs/save-template-dialog';
 import { TagsDialog } from '@/components/dialogs/tags-dialog';
 import { ExportDialog } from '@/components/dialogs/export-dialog';
+import { NoteConflictDialog, NoteConflict } from '@/components/dialogs/note-conflict-dialog';
 import { SearchInNote } from './search-in-note';
+import { DailyNoteNav } from './daily-note-nav';
 import { tiptapToHtml } from '@/lib/export-utils';
 import {
     Cloud,
@@ -60,7 +70,7 @@ interface NoteEditorProps {
 
 export function NoteEditor({ noteId }: NoteEditorProps) {
     const { token } = useAuthStore();
-    const { updateNote, searchHighlight, clearSearchHighlight } = useNotesStore();
+    const { updateNote, addNote, searchHighlight, clearSearchHighlight, setImageTextMatches } = useNotesStore();
     const [note, setNote] = useState<any>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
@@ -72,6 +82,9 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
     const [isLocked, setIsLocked] = useState(false);
     const [fontStyle, setFontStyle] = useState('default');
     const [showVersionHistory, setShowVersionHistory] = useState(false);
+    const [showCreateCheckpoint, setShowCreateCheckpoint] = useState(false);
+    const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+    const [showSaveTemplate, setShowSaveTemplate] = useState(false);
     const [attachments, setAttachments] = useState<Attachment[]>([]);
     const [isDraggingFile, setIsDraggingFile] = useState(false);
     const [editingImage, setEditingImage] = useState<{
@@ -83,8 +96,12 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
     } | null>(null);
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const isInitialLoadRef = useRef(true); // Flag to skip auto-save on initial content load
+    const revisionRef = useRef<number | undefined>(undefined); // Server revision our edits are based on
+    const [conflict, setConflict] = useState<NoteConflict | null>(null);
+    const [isResolvingConflict, setIsResolvingConflict] = useState(false);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const titleTextareaRef = useRef<HTMLTextAreaElement>(null);
+    const pasteImageRef = useRef<((file: File) => void) | null>(null);
 
     // Paste menu state
     const [pasteMenuOpen, setPasteMenuOpen] = useState(false);
@@ -114,6 +131,7 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
             ResizableImage,
             CodeBlockWithLanguage,
             LinkPreview,
+            NoteLink,
             VideoEmbed,
             TaskList,
             TaskItem.configure({
@@ -137,6 +155,15 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                 class: 'tiptap prose prose-sm dark:prose-invert max-w-none focus:outline-none min-h-[calc(100vh-200px)]',
             },
             handlePaste: (view, event) => {
+                // Pasted images are uploaded, so their text is recognized and searchable
+                const imageFile = Array.from(event.clipboardData?.files || []).find((file) =>
+                    file.type.startsWith('image/')
+                );
+                if (imageFile && pasteImageRef.current) {
+                    pasteImageRef.current(imageFile);
+                    return true;
+                }
+
                 const text = event.clipboardData?.getData('text/plain');
                 if (text && isValidUrl(text) && token) {
                     // Pasted a URL - show paste menu instead of auto-inserting
@@ -329,6 +356,7 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                 const noteData = await notesApi.getById(token, noteId);
                 setNote(noteData);
                 setTitle(noteData.title);
+                revisionRef.current = noteData.revision;
                 // Tags come from API in format { tag: {...} } - unwrap them
                 const tagsList = (noteData.tags || []).map((t: any) => t.tag || t);
                 setNoteTags(tagsList);
@@ -400,6 +428,27 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
         setLocalSearchQuery('');
     }, []);
 
+    // Save against the loaded revision; a 409 means someone else saved first
+    const saveChanges = useCallback(async (changes: NoteConflict['localChanges']): Promise<boolean> => {
+        if (!token) return false;
+
+        try {
+            const saved = await notesApi.update(token, noteId, changes, revisionRef.current);
+            revisionRef.current = saved.revision;
+            return true;
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 409) {
+                // Accumulate rejected changes until the user resolves the conflict
+                setConflict((prev) => ({
+                    serverNote: error.data.note,
+                    localChanges: { ...prev?.localChanges, ...changes },
+                }));
+                return false;
+            }
+            throw error;
+        }
+    }, [token, noteId]);
+
     // Debounced save
     const debouncedSave = useCallback(
         (editorInstance: Editor) => {
@@ -415,9 +464,10 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                     const content = editorInstance.getJSON();
                     const plainText = editorInstance.getText();
 
-                    await notesApi.update(token, noteId, { content, plainText });
-                    updateNote(noteId, { content, plainText, updatedAt: new Date().toISOString() });
-                    setLastSaved(new Date());
+                    if (await saveChanges({ content, plainText })) {
+                        updateNote(noteId, { content, plainText, updatedAt: new Date().toISOString() });
+                        setLastSaved(new Date());
+                    }
                 } catch (error) {
                     console.error('Auto-save failed:', error);
                 } finally {
@@ -425,7 +475,7 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                 }
             }, 1000);
         },
-        [token, noteId, updateNote]
+        [token, noteId, updateNote, saveChanges]
     );
 
     // Save title
@@ -440,15 +490,116 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
             if (!token) return;
 
             try {
-                await notesApi.update(token, noteId, { title: newTitle });
-                updateNote(noteId, { title: newTitle, updatedAt: new Date().toISOString() });
-                setLastSaved(new Date());
+                if (await saveChanges({ title: newTitle })) {
+                    updateNote(noteId, { title: newTitle, updatedAt: new Date().toISOString() });
+                    setLastSaved(new Date());
+                }
             } catch (error) {
                 console.error('Failed to save title:', error);
             }
         }, 500);
     };
 
+    // Save pending edits right away, so a checkpoint captures what's on screen
+    const flushPendingSave = useCallback(async (): Promise<boolean> => {
+        if (!saveTimeoutRef.current || !editor) return true;
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+
+        const content = editor.getJSON();
+        const plainText = editor.getText();
+        if (!(await saveChanges({ title, content, plainText }))) return false;
+
+        updateNote(noteId, { title, content, plainText, updatedAt: new Date().toISOString() });
+        setLastSaved(new Date());
+        return true;
+    }, [editor, title, noteId, updateNote, saveChanges]);
+
+    // Replace the editor state with the server copy
+    const applyServerNote = useCallback((serverNote: any) => {
+        revisionRef.current = serverNote.revision;
+        setTitle(serverNote.title);
+
+        if (editor) {
+            isInitialLoadRef.current = true;
+            if (serverNote.content) {
+                editor.commands.setContent(serverNote.content);
+            } else {
+                editor.commands.clearContent();
+            }
+            setTimeout(() => {
+                isInitialLoadRef.current = false;
+            }, 100);
+        }
+
+        updateNote(noteId, {
+            title: serverNote.title,
+            content: serverNote.content,
+            plainText: serverNote.plainText,
+            revision: serverNote.revision,
+            updatedAt: serverNote.updatedAt,
+        });
+    }, [editor, noteId, updateNote]);
+
+    // A restored version replaces whatever is pending, and moves the note to a new revision
+    const handleVersionRestored = useCallback((restored: any) => {
+        if (saveTimeoutRef.current) {
+            clearTimeout(saveTimeoutRef.current);
+            saveTimeoutRef.current = null;
+        }
+        applyServerNote(restored);
+    }, [applyServerNote]);
+
+    // Conflict resolution: overwrite the server copy with our changes
+    const handleKeepMine = async () => {
+        if (!conflict) return;
+        const { serverNote, localChanges } = conflict;
+
+        setIsResolvingConflict(true);
+        setConflict(null);
+        revisionRef.current = serverNote.revision;
+        try {
+            if (await saveChanges(localChanges)) {
+                updateNote(noteId, { ...localChanges, updatedAt: new Date().toISOString() });
+                setLastSaved(new Date());
+            }
+        } catch (error) {
+            toast.error('Falha ao salvar a nota');
+        } finally {
+            setIsResolvingConflict(false);
+        }
+    };
+
+    // Conflict resolution: discard our changes
+    const handleUseServer = () => {
+        if (!conflict) return;
+        applyServerNote(conflict.serverNote);
+        setConflict(null);
+    };
+
+    // Conflict resolution: save our changes as a new note, then load the server copy
+    const handleKeepBoth = async () => {
+        if (!conflict || !token) return;
+        const { serverNote, localChanges } = conflict;
+
+        setIsResolvingConflict(true);
+        try {
+            const copy = await notesApi.create(token, {
+                title: `${localChanges.title ?? title} (cópia em conflito)`,
+                content: localChanges.content ?? editor?.getJSON(),
+                notebookId: note?.notebookId || undefined,
+            });
+            addNote(copy);
+            applyServerNote(serverNote);
+            setConflict(null);
+            toast.success('Sua versão foi salva como uma nova nota');
+        } catch (error) {
+            toast.error('Falha ao criar a cópia');
+        } finally {
+            setIsResolvingConflict(false);
+        }
+    };
+
     // Handle attachment upload
     const handleAttachmentUpload = useCallback((attachment: Attachment) => {
         setAttachments(prev => [attachment, ...prev]);
@@ -508,6 +659,43 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
         }
     }, [token, noteId, isLocked, editor, handleAttachmentUpload]);
 
+    useEffect(() => {
+        pasteImageRef.current = async (file: File) => {
+            if (!token || isLocked || !editor) return;
+
+            try {
+                toast.loading('Enviando imagem...', { id: 'file-upload' });
+                const attachment = await storageApi.uploadFile(token, noteId, file);
+                toast.success('Imagem enviada!', { id: 'file-upload' });
+
+                editor.chain().focus().setImage({ src: attachment.url }).run();
+                handleAttachmentUpload(attachment);
+            } catch (error) {
+                console.error('Upload error:', error);
+                toast.error('Falha ao enviar imagem', { id: 'file-upload' });
+            }
+        };
+    }, [token, noteId, isLocked, editor, handleAttachmentUpload]);
+
+    // Image regions matching the search the note was opened from (OCR)
+    useEffect(() => {
+        if (!token || !searchHighlight) return;
+
+        let cancelled = false;
+        storageApi
+            .getImageTextMatches(token, noteId, searchHighlight)
+            .then((matches) => {
+                if (!cancelled) setImageTextMatches(matches);
+            })
+            .catch(() => {
+                // Highlighting images is best-effort
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [token, noteId, searchHighlight, setImageTextMatches]);
+
     // Listen for double-click on images to open editor
     useEffect(() => {
         const handleOpenImageEditor = (e: Event) => {
@@ -539,10 +727,23 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
     }, [editor]);
 
     // Handle inline image edit
-    const handleInlineImageEdit = useCallback((imageData: ImageData) => {
+    const handleInlineImageEdit = useCallback(async (imageData: ImageData) => {
+        let src = imageData.src;
+
+        // Edited (cropped) images come back as data URLs: store them so OCR runs on the new image
+        if (editingImage && src.startsWith('data:') && token) {
+            try {
+                const attachment = await storageApi.uploadImageData(token, noteId, src);
+                handleAttachmentUpload(attachment);
+                src = attachment.url;
+            } catch (error) {
+                toast.error('Falha ao enviar imagem');
+            }
+        }
+
         if (editingImage) {
             editingImage.updateAttributes({
-                src: imageData.src,
+                src,
                 alt: imageData.alt,
                 width: imageData.width,
                 height: imageData.height,
@@ -550,7 +751,19 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
             });
         }
         setEditingImage(null);
-    }, [editingImage]);
+    }, [editingImage, token, noteId, handleAttachmentUpload]);
+
+    // Insert a template's blocks at the cursor, variables filled in for this note
+    const handleInsertTemplate = useCallback(async (template: NoteTemplate) => {
+        if (!editor || !token) return;
+
+        const rendered = await templatesApi.render(token, template.id, {
+            title,
+            localDate: format(new Date(), 'yyyy-MM-dd'),
+        });
+        editor.chain().focus().insertContent(rendered.content.content ?? []).run();
+        toast.success(`Template "${template.name}" inserido`);
+    }, [editor, token, title]);
 
     // Cleanup
     useEffect(() => {
@@ -601,6 +814,9 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                             </>
                         )}
                     </div>
+
+                    {/* Previous/next day and calendar for daily notes */}
+                    {note.dailyDate && token && <DailyNoteNav date={note.dailyDate} token={token} />}
                 </div>
 
                 <div className="flex items-center gap-2">
@@ -647,7 +863,7 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                     </TagsDialog>
 
                     {/* Version History button */}
-                    <VersionHistoryDialog noteId={noteId} noteTitle={title}>
+                    <VersionHistoryDialog noteId={noteId} noteTitle={title} onRestore={handleVersionRestored}>
                         <button
                             className={cn(
                                 'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm',
@@ -759,6 +975,8 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                         fontStyle={fontStyle}
                         onFontStyleChange={setFontStyle}
                         onVersionHistory={() => setShowVersionHistory(true)}
+                        onCreateCheckpoint={() => setShowCreateCheckpoint(true)}
+                        onSaveAsTemplate={() => setShowSaveTemplate(true)}
                     >
                         <button
                             className={cn(
@@ -872,7 +1090,10 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                     />
 
                     {/* Slash Command Menu */}
-                    {!isLocked && <SlashCommandMenu editor={editor} />}
+                    {!isLocked && <SlashCommandMenu editor={editor} onInsertTemplate={() => setShowTemplatePicker(true)} />}
+
+                    {/* [[ note link autocomplete */}
+                    {!isLocked && token && <NoteLinkMenu editor={editor} noteId={noteId} token={token} />}
 
                     {/* Content */}
                     {editor ? (
@@ -898,6 +1119,18 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                             onDelete={handleAttachmentDelete}
                         />
                     )}
+
+                    {/* Notes linking here */}
+                    {token && <Backlinks noteId={noteId} token={token} />}
+
+                    {/* Related notes - refreshed after saves and tag changes */}
+                    {token && (
+                        <RelatedNotes
+                            noteId={noteId}
+                            token={token}
+                            version={`${lastSaved?.getTime()}:${noteTags.map((t) => t.id).join(',')}`}
+                        />
+                    )}
                 </div>
             </div>
 
@@ -908,9 +1141,32 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                     noteTitle={title}
                     open={showVersionHistory}
                     onOpenChange={(open) => setShowVersionHistory(open)}
+                    onRestore={handleVersionRestored}
                 />
             )}
 
+            {/* Named version dialog */}
+            <CreateCheckpointDialog
+                noteId={noteId}
+                open={showCreateCheckpoint}
+                onOpenChange={setShowCreateCheckpoint}
+                onBeforeCreate={flushPendingSave}
+            />
+
+            {/* Templates: insert at the cursor, or save this note as one */}
+            <TemplatePickerDialog
+                open={showTemplatePicker}
+                onOpenChange={setShowTemplatePicker}
+                title="Inserir template"
+                onSelect={handleInsertTemplate}
+            />
+            <SaveTemplateDialog
+                open={showSaveTemplate}
+                onOpenChange={setShowSaveTemplate}
+                noteTitle={title}
+                noteContent={showSaveTemplate ? editor?.getJSON() : null}
+            />
+
             {/* Inline Image Editor Dialog - opened by double-click on images */}
             {editingImage && (
                 <ImageEditorDialog
@@ -923,6 +1179,19 @@ export function NoteEditor({ noteId }: NoteEditorProps) {
                 />
             )}
 
+            {/* Edit conflict - shown when a save was rejected as stale */}
+            {conflict && (
+                <NoteConflictDialog
+                    conflict={conflict}
+                    localTitle={conflict.localChanges.title ?? title}
+                    localText={conflict.localChanges.plainText ?? editor?.getText() ?? ''}
+                    isResolving={isResolvingConflict}
+                    onKeepMine={handleKeepMine}
+                    onUseServer={handleUseServer}
+                    onKeepBoth={handleKeepBoth}
+                />
+            )}
+
             {/* Paste Menu - shown when pasting a URL */}
             <PasteMenu
                 isOpen={pasteMenuOpen}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Editor } from '@tiptap/react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { notesApi } from '@/lib/api';
+import { FileText, Loader2, Plus } from 'lucide-react';
+
+interface NoteLinkMenuProps {
+    editor: Editor | null;
+    noteId: string;
+    token: string;
+}
+
+interface Trigger {
+    query: string;
+    from: number;
+    to: number;
+    top: number;
+    left: number;
+}
+
+const MAX_RESULTS = 8;
+
+// "[[" followed by the title typed so far, right before the cursor
+const TRIGGER_PATTERN = /\[\[([^[\]\n]*)$/;
+
+const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Autocomplete for wiki-style links: typing "[[" lists notes by title and
+ * replaces the typed text with a noteLink node (or creates the note first).
+ */
+export function NoteLinkMenu({ editor, noteId, token }: NoteLinkMenuProps) {
+    const addNote = useNotesStore((state) => state.addNote);
+    const [trigger, setTrigger] = useState<Trigger | null>(null);
+    const [candidates, setCandidates] = useState<{ id: string; title: string; updatedAt: string }[] | null>(null);
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [isCreating, setIsCreating] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Watch the text before the cursor for "[["
+    useEffect(() => {
+        if (!editor) return;
+
+        const check = () => {
+            const { selection } = editor.state;
+            const { $from } = selection;
+
+            if (!selection.empty || !$from.parent.isTextblock) {
+                setTrigger(null);
+                return;
+            }
+
+            const textBefore = $from.parent.textBetween(
+                Math.max(0, $from.parentOffset - 100),
+                $from.parentOffset,
+                undefined,
+                '\ufffc'
+            );
+            const match = TRIGGER_PATTERN.exec(textBefore);
+
+            if (!match) {
+                setTrigger(null);
+                return;
+            }
+
+            const query = match[1] ?? '';
+            const from = $from.pos - match[0].length;
+            const coords = editor.view.coordsAtPos(from);
+            setTrigger((current) => {
+                if (current?.query !== query) setSelectedIndex(0);
+                return { query, from, to: $from.pos, top: coords.bottom + 8, left: coords.left };
+            });
+        };
+
+        editor.on('update', check);
+        editor.on('selectionUpdate', check);
+        return () => {
+            editor.off('update', check);
+            editor.off('selectionUpdate', check);
+        };
+    }, [editor]);
+
+    // The note list may only hold the current notebook, so load every note once per opening
+    const isOpen = trigger !== null;
+    useEffect(() => {
+        if (!isOpen) {
+            setCandidates(null);
+            return;
+        }
+
+        let cancelled = false;
+        notesApi
+            .getAll(token)
+            .then((notes) => {
+                if (!cancelled) setCandidates(notes);
+            })
+            .catch(() => {
+                if (!cancelled) setCandidates([]);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, token]);
+
+    const query = trigger?.query.trim() ?? '';
+
+    const results = useMemo(() => {
+        if (!candidates) return [];
+        const needle = normalize(query);
+
+        return candidates
+            .filter((note) => note.id !== noteId && normalize(note.title).includes(needle))
+            .sort((a, b) => {
+                // Titles starting with the query first, then recently edited
+                const aStarts = normalize(a.title).startsWith(needle);
+                const bStarts = normalize(b.title).startsWith(needle);
+                if (aStarts !== bStarts) return aStarts ? -1 : 1;
+                return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+            })
+            .slice(0, MAX_RESULTS);
+    }, [candidates, query, noteId]);
+
+    const canCreate = query.length > 0 && !results.some((note) => normalize(note.title) === normalize(query));
+    const itemCount = results.length + (canCreate ? 1 : 0);
+
+    const insertLink = useCallback((target: { id: string; title: string }) => {
+        if (!editor || !trigger) return;
+
+        editor
+            .chain()
+            .focus()
+            .insertContentAt({ from: trigger.from, to: trigger.to }, [
+                { type: 'noteLink', attrs: { noteId: target.id, title: target.title } },
+                { type: 'text', text: ' ' },
+            ])
+            .run();
+        setTrigger(null);
+    }, [editor, trigger]);
+
+    const createAndLink = useCallback(async () => {
+        if (!query) return;
+
+        setIsCreating(true);
+        try {
+            const note = await notesApi.create(token, { title: query });
+            addNote(note);
+            insertLink(note);
+        } catch (error) {
+            toast.error('Falha ao criar nota');
+        } finally {
+            setIsCreating(false);
+        }
+    }, [query, token, addNote, insertLink]);
+
+    const choose = useCallback((index: number) => {
+        const note = results[index];
+        if (note) insertLink(note);
+        else if (canCreate) createAndLink();
+    }, [results, canCreate, insertLink, createAndLink]);
+
+    // Keys go to the menu while it is open; capture them before the editor does
+    useEffect(() => {
+        if (!editor || !isOpen) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'ArrowDown') {
+                setSelectedIndex((i) => Math.min(i + 1, itemCount - 1));
+            } else if (event.key === 'ArrowUp') {
+                setSelectedIndex((i) => Math.max(i - 1, 0));
+            } else if (event.key === 'Enter' || event.key === 'Tab') {
+                if (itemCount === 0) return;
+                choose(selectedIndex);
+            } else if (event.key === 'Escape') {
+                setTrigger(null);
+            } else {
+                return;
+            }
+
+            event.preventDefault();
+            event.stopPropagation();
+        };
+
+        const editorElement = editor.view.dom;
+        editorElement.addEventListener('keydown', handleKeyDown, true);
+        return () => editorElement.removeEventListener('keydown', handleKeyDown, true);
+    }, [editor, isOpen, itemCount, selectedIndex, choose]);
+
+    // Close on click outside
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                setTrigger(null);
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    if (!editor || !trigger) return null;
+
+    return (
+        <div
+            ref={menuRef}
+            className="fixed z-50 w-72 bg-popover border rounded-xl shadow-2xl overflow-hidden animate-in fade-in-0 zoom-in-95"
+            style={{ top: trigger.top, left: trigger.left }}
+        >
+            <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground uppercase tracking-wider border-b">
+                Link para nota
+            </div>
+            <div className="max-h-72 overflow-y-auto p-1">
+                {!candidates ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <>
+                        {results.map((note, index) => (
+                            <button
+                                key={note.id}
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => choose(index)}
+                                className={cn(
+                                    'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors',
+                                    index === selectedIndex ? 'bg-accent' : 'hover:bg-accent/50'
+                                )}
+                            >
+                                <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                                <span className="truncate">{note.title || 'Sem título'}</span>
+                            </button>
+                        ))}
+                        {canCreate && (
+                            <button
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => choose(results.length)}
+                                disabled={isCreating}
+                                className={cn(
+                                    'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors',
+                                    selectedIndex === results.length ? 'bg-accent' : 'hover:bg-accent/50'
+                                )}
+                            >
+                                {isCreating ? (
+                                    <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+                                ) : (
+                                    <Plus className="w-4 h-4 text-muted-foreground shrink-0" />
+                                )}
+                                <span className="truncate">Criar nota &quot;{query}&quot;</span>
+                            </button>
+                        )}
+                        {itemCount === 0 && (
+                            <div className="px-3 py-4 text-sm text-muted-foreground text-center">
+                                Digite o título de uma nota
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
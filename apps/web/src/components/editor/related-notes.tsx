@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useNotesStore } from '@/store/notes-store';
+import { notesApi, RelatedNote } from '@/lib/api';
+import { ChevronDown, ChevronUp, FileText, Loader2, Sparkles } from 'lucide-react';
+
+interface RelatedNotesProps {
+    noteId: string;
+    token: string;
+    // Changes whenever the note is saved, to refresh the suggestions
+    version?: unknown;
+    className?: string;
+}
+
+// Wait for autosaves to settle before asking again
+const REFRESH_DELAY = 1500;
+
+export function RelatedNotes({ noteId, token, version, className }: RelatedNotesProps) {
+    const { notebooks, selectNote } = useNotesStore();
+    const [related, setRelated] = useState<RelatedNote[] | null>(null);
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    useEffect(() => {
+        setRelated(null);
+    }, [noteId]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            notesApi
+                .getRelated(token, noteId, 5)
+                .then((notes) => {
+                    if (!cancelled) setRelated(notes);
+                })
+                .catch((error) => {
+                    console.error('Failed to load related notes:', error);
+                    if (!cancelled) setRelated([]);
+                });
+        }, related ? REFRESH_DELAY : 0);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [noteId, token, version]);
+
+    if (related && related.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className={cn('mt-6 border rounded-xl overflow-hidden', className)}>
+            {/* Header */}
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-muted/50 hover:bg-muted/80 transition-colors"
+            >
+                <div className="flex items-center gap-2">
+                    <Sparkles className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Notas relacionadas</span>
+                    {!related && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+                </div>
+                {isExpanded ? (
+                    <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                    <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isExpanded && related && (
+                <div className="divide-y">
+                    {related.map((note) => {
+                        const notebook = notebooks.find((n) => n.id === note.notebookId);
+
+                        return (
+                            <button
+                                key={note.id}
+                                onClick={() => selectNote(note.id)}
+                                className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-muted/30 transition-colors"
+                            >
+                                <FileText className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium truncate">{note.title || 'Sem título'}</p>
+                                    {note.snippet && (
+                                        <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{note.snippet}</p>
+                                    )}
+                                    <div className="flex items-center gap-2 mt-1">
+                                        <span className="text-xs text-muted-foreground">
+                                            {format(new Date(note.updatedAt), 'MMM d, yyyy')}
+                                        </span>
+                                        {notebook && (
+                                            <span
+                                                className="text-xs px-1.5 py-0.5 rounded"
+                                                style={{ backgroundColor: `${notebook.color}20`, color: notebook.color }}
+                                            >
+                                                {notebook.name}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -23,6 +23,7 @@ import {
     Heading3,
     Image,
     LayoutGrid,
+    LayoutTemplate,
     Link2,
     List,
     ListChecks,
@@ -33,7 +34,6 @@ import {
     Plus,
     Quote,
     RefreshCw,
-    Sparkles,
     SquareFunction,
     Table2,
     ToggleLeft,
@@ -43,6 +43,13 @@ import {
 
 interface SlashCommandMenuProps {
     editor: Editor | null;
+    // Opens the template picker to insert a template at the cursor
+    onInsertTemplate?: () => void;
+}
+
+// What commands can do besides editing, provided by the note editor
+interface CommandContext {
+    openTemplatePicker: () => void;
 }
 
 interface CommandItem {
@@ -51,7 +58,7 @@ interface CommandItem {
     icon: React.ReactNode;
     shortcut?: string;
     badge?: string;
-    action: (editor: Editor) => void;
+    action: (editor: Editor, context: CommandContext) => void;
 }
 
 interface CommandGroup {
@@ -152,6 +159,14 @@ const COMMAND_GROUPS: CommandGroup[] = [
                     }
                 },
             },
+            {
+                title: 'Template',
+                description: 'Inserir um template de nota',
+                icon: <LayoutTemplate className="w-4 h-4" />,
+                action: (_editor, context) => {
+                    context.openTemplatePicker();
+                },
+            },
         ],
     },
     {
@@ -445,92 +460,6 @@ const COMMAND_GROUPS: CommandGroup[] = [
     {
         title: 'IA',
         items: [
-            {
-                title: 'AI Block',
-                description: 'Gerar estrutura com IA',
-                icon: <Sparkles className="w-4 h-4" />,
-                badge: 'Novo',
-                action: (editor) => {
-                    const options = [
-                        '1. Lista de prós e contras',
-                        '2. Resumo executivo',
-                        '3. Plano de ação',
-                        '4. FAQ',
-                        '5. Comparativo'
-                    ];
-                    const choice = window.prompt(`Escolha um template:\n${options.join('\n')}\n\nDigite o número:`, '1');
-
-                    const templates: Record<string, string> = {
-                        '1': `
-## ⚖️ Prós e Contras
-
-### ✅ Prós
-- Ponto positivo 1
-- Ponto positivo 2
-- Ponto positivo 3
-
-### ❌ Contras
-- Ponto negativo 1
-- Ponto negativo 2
-- Ponto negativo 3
-                        `,
-                        '2': `
-## 📋 Resumo Executivo
-
-**Objetivo:** [Descreva o objetivo]
-
-**Principais pontos:**
-1. Ponto 1
-2. Ponto 2
-3. Ponto 3
-
-**Conclusão:** [Sua conclusão]
-                        `,
-                        '3': `
-## 🎯 Plano de Ação
-
-| Ação | Responsável | Prazo | Status |
-|------|-------------|-------|--------|
-| Tarefa 1 | Nome | DD/MM | ⏳ |
-| Tarefa 2 | Nome | DD/MM | ⏳ |
-| Tarefa 3 | Nome | DD/MM | ⏳ |
-                        `,
-                        '4': `
-## ❓ FAQ - Perguntas Frequentes
-
-<details>
-<summary><strong>Pergunta 1?</strong></summary>
-Resposta detalhada aqui...
-</details>
-
-<details>
-<summary><strong>Pergunta 2?</strong></summary>
-Resposta detalhada aqui...
-</details>
-
-<details>
-<summary><strong>Pergunta 3?</strong></summary>
-Resposta detalhada aqui...
-</details>
-                        `,
-                        '5': `
-## 🔄 Comparativo
-
-| Critério | Opção A | Opção B |
-|----------|---------|---------|
-| Preço | R$ X | R$ Y |
-| Qualidade | ⭐⭐⭐ | ⭐⭐⭐⭐ |
-| Suporte | Bom | Excelente |
-
-**Recomendação:** [Sua escolha]
-                        `,
-                    };
-
-                    const template = templates[choice || '1'] || templates['1']!;
-                    editor.chain().focus().insertContent(template!).run();
-                    toast.success('Template IA inserido!');
-                },
-            },
             {
                 title: 'Diagrama Mermaid',
                 description: 'Fluxograma via código',
@@ -647,7 +576,7 @@ ${code}
     },
 ];
 
-export function SlashCommandMenu({ editor }: SlashCommandMenuProps) {
+export function SlashCommandMenu({ editor, onInsertTemplate }: SlashCommandMenuProps) {
     const [isOpen, setIsOpen] = useState(false);
     const [position, setPosition] = useState({ top: 0, left: 0 });
     const [search, setSearch] = useState('');
@@ -666,6 +595,10 @@ export function SlashCommandMenu({ editor }: SlashCommandMenuProps) {
 
     const allItems = filteredGroups.flatMap(g => g.items);
 
+    const context: CommandContext = {
+        openTemplatePicker: () => onInsertTemplate?.(),
+    };
+
     // Open menu when typing "/"
     useEffect(() => {
         if (!editor) return;
@@ -718,17 +651,17 @@ export function SlashCommandMenu({ editor }: SlashCommandMenuProps) {
         } else if (e.key === 'Enter') {
             e.preventDefault();
             if (allItems[selectedIndex] && editor) {
-                allItems[selectedIndex].action(editor);
+                allItems[selectedIndex].action(editor, context);
                 setIsOpen(false);
             }
         } else if (e.key === 'Escape') {
             setIsOpen(false);
         }
-    }, [allItems, selectedIndex, editor]);
+    }, [allItems, selectedIndex, editor, context]);
 
     const executeCommand = (item: CommandItem) => {
         if (editor) {
-            item.action(editor);
+            item.action(editor, context);
             setIsOpen(false);
         }
     };
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAuthStore } from '@/store/auth-store';
+import { useNotesStore } from '@/store/notes-store';
+import { graphApi, GraphNode, GraphEdge } from '@/lib/api';
+import { Loader2, Network, RotateCcw, X } from 'lucide-react';
+
+const LAYOUT_SIZE = 1000;
+const PADDING = 60;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 8;
+const DEFAULT_COLOR = '#6366f1';
+
+interface Viewport {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+const INITIAL_VIEWPORT: Viewport = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Knowledge graph: notes as nodes, [[links]] and shared tags as edges.
+ * The server computes the layout; this only draws it, with pan and zoom.
+ */
+export function GraphView() {
+    const { token } = useAuthStore();
+    const { notebooks, tags, selectNote, setShowGraph } = useNotesStore();
+    const [graph, setGraph] = useState<{ nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean } | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [notebookId, setNotebookId] = useState('');
+    const [tagId, setTagId] = useState('');
+    const [showTagEdges, setShowTagEdges] = useState(true);
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    const [viewport, setViewport] = useState<Viewport>(INITIAL_VIEWPORT);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+    useEffect(() => {
+        if (!token) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+
+        graphApi
+            .get(token, { notebookId: notebookId || undefined, tagId: tagId || undefined })
+            .then((result) => {
+                if (!cancelled) {
+                    setGraph(result);
+                    setViewport(INITIAL_VIEWPORT);
+                }
+            })
+            .catch((error) => console.error('Failed to load graph:', error))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [token, notebookId, tagId]);
+
+    const nodesById = useMemo(() => new Map(graph?.nodes.map((node) => [node.id, node])), [graph]);
+    const notebookColors = useMemo(() => new Map(notebooks.map((n) => [n.id, n.color])), [notebooks]);
+
+    const edges = useMemo(
+        () => (graph?.edges ?? []).filter((edge) => showTagEdges || edge.type === 'link'),
+        [graph, showTagEdges]
+    );
+
+    // The hovered node and its neighbours stay bright, everything else fades
+    const highlighted = useMemo(() => {
+        if (!hoveredId) return null;
+        const ids = new Set([hoveredId]);
+        for (const edge of edges) {
+            if (edge.source === hoveredId) ids.add(edge.target);
+            if (edge.target === hoveredId) ids.add(edge.source);
+        }
+        return ids;
+    }, [hoveredId, edges]);
+
+    // Screen point to graph coordinates
+    const toGraphPoint = (clientX: number, clientY: number) => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return { x: 0, y: 0 };
+
+        const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+        return point;
+    };
+
+    // Zoom around the cursor
+    const handleWheel = (e: React.WheelEvent) => {
+        const point = toGraphPoint(e.clientX, e.clientY);
+
+        setViewport((current) => {
+            const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+            const ratio = scale / current.scale;
+            return {
+                scale,
+                x: point.x - (point.x - current.x) * ratio,
+                y: point.y - (point.y - current.y) * ratio,
+            };
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+        (e.target as Element).setPointerCapture?.(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const from = toGraphPoint(drag.x, drag.y);
+        const to = toGraphPoint(e.clientX, e.clientY);
+        if (Math.abs(e.clientX - drag.x) + Math.abs(e.clientY - drag.y) > 3) drag.moved = true;
+
+        dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+        setViewport((current) => ({ ...current, x: current.x + to.x - from.x, y: current.y + to.y - from.y }));
+    };
+
+    const handlePointerUp = () => {
+        // Keep `moved` around for the click handler that fires next
+        setTimeout(() => {
+            dragRef.current = null;
+        }, 0);
+    };
+
+    const openNote = (id: string) => {
+        if (dragRef.current?.moved) return;
+        selectNote(id);
+        setShowGraph(false);
+    };
+
+    // Nodes and labels keep roughly the same size on screen while zooming
+    const sizeFactor = 1 / Math.sqrt(viewport.scale);
+
+    return (
+        <div className="flex-1 flex flex-col min-w-0 h-screen">
+            {/* Header */}
+            <header className="flex items-center gap-3 px-6 py-3 border-b">
+                <Network className="w-5 h-5 text-primary" />
+                <h2 className="font-semibold text-lg">Graph</h2>
+                {graph && (
+                    <span className="text-sm text-muted-foreground">
+                        {graph.nodes.length} notas · {edges.length} conexões
+                        {graph.truncated && ' (somente as mais recentes)'}
+                    </span>
+                )}
+
+                <div className="flex-1" />
+
+                <select
+                    value={notebookId}
+                    onChange={(e) => setNotebookId(e.target.value)}
+                    className="px-2 py-1.5 rounded-lg border bg-background text-sm"
+                >
+                    <option value="">Todos os notebooks</option>
+                    {notebooks.map((notebook) => (
+                        <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                    ))}
+                </select>
+                <select
+                    value={tagId}
+                    onChange={(e) => setTagId(e.target.value)}
+                    className="px-2 py-1.5 rounded-lg border bg-background text-sm"
+                >
+                    <option value="">Todas as tags</option>
+                    {tags.map((tag) => (
+                        <option key={tag.id} value={tag.id}>#{tag.name}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={showTagEdges}
+                        onChange={(e) => setShowTagEdges(e.target.checked)}
+                    />
+                    Tags em comum
+                </label>
+                <button
+                    onClick={() => setViewport(INITIAL_VIEWPORT)}
+                    className="p-2 rounded-lg hover:bg-accent text-muted-foreground hover:text-foreground transition-colors"
+                    title="Centralizar"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => setShowGraph(false)}
+                    className="p-2 rounded-lg hover:bg-accent text-muted-foreground hover:text-foreground transition-colors"
+                    title="Fechar"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </header>
+
+            {/* Canvas */}
+            <div className="flex-1 relative overflow-hidden bg-muted/20">
+                {isLoading && (
+                    <div className="absolute inset-0 flex items-center justify-center z-10">
+                        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                    </div>
+                )}
+
+                {graph && graph.nodes.length === 0 && !isLoading && (
+                    <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                        Nenhuma nota para mostrar
+                    </div>
+                )}
+
+                {graph && (
+                    <svg
+                        ref={svgRef}
+                        viewBox={`${-PADDING} ${-PADDING} ${LAYOUT_SIZE + PADDING * 2} ${LAYOUT_SIZE + PADDING * 2}`}
+                        className="w-full h-full select-none touch-none cursor-grab active:cursor-grabbing"
+                        onWheel={handleWheel}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerLeave={handlePointerUp}
+                    >
+                        <g transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+                            {/* Edges */}
+                            {edges.map((edge) => {
+                                const source = nodesById.get(edge.source);
+                                const target = nodesById.get(edge.target);
+                                if (!source || !target) return null;
+
+                                const isHighlighted = highlighted?.has(edge.source) && highlighted?.has(edge.target);
+
+                                return (
+                                    <line
+                                        key={`${edge.type}:${edge.source}:${edge.target}`}
+                                        x1={source.x}
+                                        y1={source.y}
+                                        x2={target.x}
+                                        y2={target.y}
+                                        className={edge.type === 'link' ? 'stroke-primary' : 'stroke-muted-foreground'}
+                                        strokeWidth={edge.type === 'link' ? 1.5 : 0.5 + Math.min(edge.weight, 3) * 0.3}
+                                        strokeDasharray={edge.type === 'tag' ? '4 3' : undefined}
+                                        strokeOpacity={highlighted ? (isHighlighted ? 0.9 : 0.08) : edge.type === 'link' ? 0.6 : 0.3}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                );
+                            })}
+
+                            {/* Nodes */}
+                            {graph.nodes.map((node) => {
+                                const radius = (4 + Math.sqrt(node.degree) * 2) * sizeFactor;
+                                const isDimmed = highlighted && !highlighted.has(node.id);
+                                const showLabel = viewport.scale >= 1.5 || node.id === hoveredId || (highlighted?.has(node.id) ?? false);
+
+                                return (
+                                    <g
+                                        key={node.id}
+                                        className="cursor-pointer"
+                                        opacity={isDimmed ? 0.2 : 1}
+                                        onPointerEnter={() => setHoveredId(node.id)}
+                                        onPointerLeave={() => setHoveredId(null)}
+                                        onClick={() => openNote(node.id)}
+                                    >
+                                        <circle
+                                            cx={node.x}
+                                            cy={node.y}
+                                            r={radius}
+                                            fill={(node.notebookId && notebookColors.get(node.notebookId)) || DEFAULT_COLOR}
+                                            className="stroke-background"
+                                            strokeWidth={1}
+                                            vectorEffect="non-scaling-stroke"
+                                        />
+                                        {showLabel && (
+                                            <text
+                                                x={node.x}
+                                                y={node.y + radius + 12 * sizeFactor}
+                                                textAnchor="middle"
+                                                fontSize={11 * sizeFactor}
+                                                className="fill-foreground pointer-events-none"
+                                            >
+                                                {node.title.length > 40 ? `${node.title.slice(0, 40)}…` : node.title || 'Sem título'}
+                                            </text>
+                                        )}
+                                    </g>
+                                );
+                            })}
+                        </g>
+                    </svg>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { useNotesStore, Notebook } from '@/store/notes-store';
+import { notebooksApi } from '@/lib/api';
+import { DeleteNotebookDialog } from '@/components/dialogs/delete-notebook-dialog';
+import { ChevronDown, ChevronRight, Layers, Pencil, Trash2 } from 'lucide-react';
+
+type MoveInput = Parameters<typeof notebooksApi.move>[2];
+
+type DropTarget =
+    | { kind: 'before' | 'after' | 'inside'; notebookId: string }
+    | { kind: 'stack'; stack: string }
+    | { kind: 'root' };
+
+const INDENT = 12;
+
+/**
+ * Notebooks as a tree: top-level notebooks grouped under their stacks,
+ * sub-notebooks nested below their parent. Drag a notebook onto another to
+ * nest it, onto its top or bottom edge to reorder, or onto a stack header
+ * to file it there.
+ */
+export function NotebookTree() {
+    const { token } = useAuthStore();
+    const { notebooks, selectedNotebookId, selectNotebook, setNotebooks } = useNotesStore();
+    // Collapsed notebook ids and `stack:<name>` keys
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+    const { roots, childrenOf, stacks } = useMemo(() => {
+        const ids = new Set(notebooks.map((n) => n.id));
+        const childrenOf = new Map<string, Notebook[]>();
+        const roots: Notebook[] = [];
+
+        for (const notebook of notebooks) {
+            // A parent missing from the list (e.g. just deleted) shows its children at the top level
+            if (notebook.parentId && ids.has(notebook.parentId)) {
+                childrenOf.set(notebook.parentId, [...(childrenOf.get(notebook.parentId) ?? []), notebook]);
+            } else {
+                roots.push(notebook);
+            }
+        }
+
+        const stacks = [...new Set(roots.flatMap((n) => (n.stack ? [n.stack] : [])))].sort((a, b) => a.localeCompare(b));
+
+        return { roots, childrenOf, stacks };
+    }, [notebooks]);
+
+    const toggle = (key: string) =>
+        setCollapsed((current) => {
+            const next = new Set(current);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+
+    const reload = async () => {
+        if (!token) return;
+        setNotebooks(await notebooksApi.getAll(token));
+    };
+
+    const isDescendant = (id: string, ancestorId: string): boolean => {
+        const seen = new Set<string>();
+        let current = notebooks.find((n) => n.id === id);
+
+        while (current?.parentId && !seen.has(current.id)) {
+            if (current.parentId === ancestorId) return true;
+            seen.add(current.id);
+            current = notebooks.find((n) => n.id === current!.parentId);
+        }
+        return false;
+    };
+
+    const siblingsOf = (notebook: Notebook) =>
+        notebook.parentId && childrenOf.has(notebook.parentId)
+            ? childrenOf.get(notebook.parentId)!
+            : roots.filter((n) => (n.stack ?? null) === (notebook.stack ?? null));
+
+    const moveInputFor = (id: string, target: DropTarget): MoveInput | null => {
+        if (target.kind === 'root') return { parentId: null, stack: null };
+        if (target.kind === 'stack') return { parentId: null, stack: target.stack };
+
+        const notebook = notebooks.find((n) => n.id === target.notebookId);
+        if (!notebook) return null;
+
+        if (target.kind === 'inside') return { parentId: notebook.id };
+
+        const siblings = siblingsOf(notebook).filter((n) => n.id !== id);
+        const index = siblings.findIndex((n) => n.id === notebook.id);
+        const isNested = !!notebook.parentId && childrenOf.has(notebook.parentId);
+
+        return {
+            parentId: isNested ? notebook.parentId! : null,
+            stack: isNested ? null : notebook.stack ?? null,
+            position: target.kind === 'after' ? index + 1 : index,
+        };
+    };
+
+    const moveNotebook = async (id: string, data: MoveInput) => {
+        if (!token) return;
+
+        try {
+            await notebooksApi.move(token, id, data);
+            await reload();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to move notebook');
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent, target: DropTarget) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const id = draggingId;
+        setDraggingId(null);
+        setDropTarget(null);
+        if (!id) return;
+
+        const data = moveInputFor(id, target);
+        if (data) moveNotebook(id, data);
+    };
+
+    const handleDragOver = (e: React.DragEvent, target: DropTarget) => {
+        if (!draggingId) return;
+        if (target.kind !== 'root' && target.kind !== 'stack') {
+            // Can't drop a notebook into its own subtree
+            if (target.notebookId === draggingId || isDescendant(target.notebookId, draggingId)) return;
+        }
+
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(target);
+    };
+
+    const handleDragOverNotebook = (e: React.DragEvent, notebook: Notebook) => {
+        // Top and bottom quarter reorder, the middle nests
+        const rect = e.currentTarget.getBoundingClientRect();
+        const offset = (e.clientY - rect.top) / rect.height;
+        const kind = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+        handleDragOver(e, { kind, notebookId: notebook.id });
+    };
+
+    const handleSetStack = (notebook: Notebook) => {
+        const name = window.prompt('Stack name (leave empty to remove from stack):', notebook.stack ?? '');
+        if (name === null) return;
+        moveNotebook(notebook.id, { parentId: null, stack: name.trim() || null });
+    };
+
+    const handleRenameStack = async (stack: string) => {
+        const name = window.prompt('Rename stack (leave empty to ungroup its notebooks):', stack);
+        if (name === null || name.trim() === stack || !token) return;
+
+        try {
+            await notebooksApi.renameStack(token, stack, name.trim() || null);
+            await reload();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to rename stack');
+        }
+    };
+
+    const isTarget = (kind: DropTarget['kind'], key: string) =>
+        !!dropTarget &&
+        dropTarget.kind === kind &&
+        (dropTarget.kind === 'stack' ? dropTarget.stack === key : 'notebookId' in dropTarget && dropTarget.notebookId === key);
+
+    const renderNotebook = (notebook: Notebook, depth: number): React.ReactNode => {
+        const children = childrenOf.get(notebook.id) ?? [];
+        const isCollapsed = collapsed.has(notebook.id);
+
+        return (
+            <div key={notebook.id}>
+                <div
+                    draggable
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(notebook.id);
+                    }}
+                    onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropTarget(null);
+                    }}
+                    onDragOver={(e) => handleDragOverNotebook(e, notebook)}
+                    onDrop={(e) => dropTarget && handleDrop(e, dropTarget)}
+                    style={{ paddingLeft: 12 + depth * INDENT }}
+                    className={cn(
+                        'w-full flex items-center gap-2 pr-3 py-2 rounded-lg text-sm transition-colors group border-y-2 border-transparent',
+                        selectedNotebookId === notebook.id ? 'bg-primary/10 text-primary' : 'hover:bg-accent',
+                        draggingId === notebook.id && 'opacity-50',
+                        isTarget('before', notebook.id) && 'border-t-primary',
+                        isTarget('after', notebook.id) && 'border-b-primary',
+                        isTarget('inside', notebook.id) && 'bg-primary/10 ring-1 ring-primary'
+                    )}
+                >
+                    {children.length > 0 ? (
+                        <button
+                            onClick={() => toggle(notebook.id)}
+                            className="p-0.5 -ml-1 rounded hover:bg-accent text-muted-foreground"
+                        >
+                            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                        </button>
+                    ) : (
+                        <span className="w-3 -ml-1 shrink-0" />
+                    )}
+                    <button
+                        onClick={() => selectNotebook(notebook.id)}
+                        className="flex items-center gap-3 flex-1 min-w-0"
+                    >
+                        <div
+                            className="w-3 h-3 rounded shrink-0"
+                            style={{ backgroundColor: notebook.color }}
+                        />
+                        <span className="flex-1 text-left truncate">{notebook.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                            {notebook.totalNotes ?? notebook._count?.notes ?? 0}
+                        </span>
+                    </button>
+                    {depth === 0 && (
+                        <button
+                            onClick={() => handleSetStack(notebook)}
+                            className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-accent transition-all"
+                            title="Move to stack"
+                        >
+                            <Layers className="w-3 h-3" />
+                        </button>
+                    )}
+                    <DeleteNotebookDialog notebook={notebook} onDeleted={() => children.length > 0 && reload()}>
+                        <button
+                            className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive transition-all"
+                            title="Deletar notebook"
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </DeleteNotebookDialog>
+                </div>
+                {!isCollapsed && children.map((child) => renderNotebook(child, depth + 1))}
+            </div>
+        );
+    };
+
+    return (
+        <>
+            {roots.filter((n) => !n.stack).map((notebook) => renderNotebook(notebook, 0))}
+
+            {stacks.map((stack) => {
+                const key = `stack:${stack}`;
+                const stacked = roots.filter((n) => n.stack === stack);
+                const total = stacked.reduce((sum, n) => sum + (n.totalNotes ?? n._count?.notes ?? 0), 0);
+
+                return (
+                    <div key={key}>
+                        <div
+                            onDragOver={(e) => handleDragOver(e, { kind: 'stack', stack })}
+                            onDrop={(e) => handleDrop(e, { kind: 'stack', stack })}
+                            className={cn(
+                                'w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-muted-foreground transition-colors group hover:bg-accent',
+                                isTarget('stack', stack) && 'bg-primary/10 ring-1 ring-primary'
+                            )}
+                        >
+                            <button onClick={() => toggle(key)} className="flex items-center gap-2 flex-1 min-w-0">
+                                {collapsed.has(key) ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                <Layers className="w-3.5 h-3.5 shrink-0" />
+                                <span className="flex-1 text-left truncate">{stack}</span>
+                                <span className="text-xs">{total}</span>
+                            </button>
+                            <button
+                                onClick={() => handleRenameStack(stack)}
+                                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-accent hover:text-foreground transition-all"
+                                title="Rename stack"
+                            >
+                                <Pencil className="w-3 h-3" />
+                            </button>
+                        </div>
+                        {!collapsed.has(key) && (
+                            <div className="ml-3">
+                                {stacked.map((notebook) => renderNotebook(notebook, 0))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            {draggingId && (
+                <div
+                    onDragOver={(e) => handleDragOver(e, { kind: 'root' })}
+                    onDrop={(e) => handleDrop(e, { kind: 'root' })}
+                    className={cn(
+                        'mx-3 my-1 px-3 py-2 rounded-lg border border-dashed text-xs text-muted-foreground text-center transition-colors',
+                        dropTarget?.kind === 'root' && 'border-primary text-primary bg-primary/5'
+                    )}
+                >
+                    Move to top level
+                </div>
+            )}
+        </>
+    );
+}
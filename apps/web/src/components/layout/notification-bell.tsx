@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import { useNotesStore } from '@/store/notes-store';
+import { notificationsApi, AppNotification } from '@/lib/api';
+import { AlarmClock, Bell, CheckCheck } from 'lucide-react';
+
+// Check for new notifications (e.g. reminders coming due) this often
+const POLL_INTERVAL = 60 * 1000;
+
+/**
+ * Bell with the unread count, opening the notification feed. New
+ * notifications arriving while the app is open also show as a toast.
+ */
+export function NotificationBell() {
+    const { token } = useAuthStore();
+    const selectNote = useNotesStore((state) => state.selectNote);
+    const [open, setOpen] = useState(false);
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    // Ids already seen, so only new ones get a toast; null until the first load
+    const seenIds = useRef<Set<string> | null>(null);
+
+    const openNote = useCallback((notification: AppNotification) => {
+        if (notification.noteId) selectNote(notification.noteId);
+    }, [selectNote]);
+
+    const refresh = useCallback(async () => {
+        if (!token) return;
+
+        try {
+            const feed = await notificationsApi.getAll(token);
+
+            if (seenIds.current) {
+                for (const notification of feed.notifications) {
+                    if (seenIds.current.has(notification.id) || notification.readAt) continue;
+                    toast(notification.type === 'reminder' ? `Lembrete: ${notification.title}` : notification.title, {
+                        icon: <AlarmClock className="w-4 h-4" />,
+                        action: notification.noteId
+                            ? { label: 'Abrir', onClick: () => openNote(notification) }
+                            : undefined,
+                    });
+                }
+            }
+            seenIds.current = new Set(feed.notifications.map((n) => n.id));
+
+            setNotifications(feed.notifications);
+            setUnreadCount(feed.unreadCount);
+        } catch (error) {
+            // Try again on the next poll
+        }
+    }, [token, openNote]);
+
+    useEffect(() => {
+        refresh();
+        const timer = setInterval(refresh, POLL_INTERVAL);
+        return () => clearInterval(timer);
+    }, [refresh]);
+
+    const handleClick = async (notification: AppNotification) => {
+        openNote(notification);
+        setOpen(false);
+        if (!token || notification.readAt) return;
+
+        try {
+            const updated = await notificationsApi.markRead(token, notification.id);
+            setNotifications((current) => current.map((n) => (n.id === updated.id ? updated : n)));
+            setUnreadCount((count) => Math.max(0, count - 1));
+        } catch (error) {
+            // Stays unread
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        if (!token) return;
+
+        try {
+            await notificationsApi.markAllRead(token);
+            const now = new Date().toISOString();
+            setNotifications((current) => current.map((n) => ({ ...n, readAt: n.readAt ?? now })));
+            setUnreadCount(0);
+        } catch (error) {
+            toast.error('Falha ao marcar notificações como lidas');
+        }
+    };
+
+    return (
+        <Popover.Root open={open} onOpenChange={setOpen}>
+            <Popover.Trigger asChild>
+                <button
+                    className="relative p-2 rounded-lg hover:bg-accent text-muted-foreground hover:text-foreground transition-colors"
+                    title="Notifications"
+                >
+                    <Bell className="w-4 h-4" />
+                    {unreadCount > 0 && (
+                        <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-medium flex items-center justify-center">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
+                </button>
+            </Popover.Trigger>
+            <Popover.Portal>
+                <Popover.Content
+                    align="start"
+                    sideOffset={8}
+                    className="w-80 bg-popover border rounded-xl shadow-2xl z-50 overflow-hidden animate-in fade-in-0 zoom-in-95"
+                >
+                    <div className="flex items-center justify-between px-3 py-2 border-b">
+                        <span className="text-sm font-medium">Notificações</span>
+                        {unreadCount > 0 && (
+                            <button
+                                onClick={handleMarkAllRead}
+                                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                            >
+                                <CheckCheck className="w-3.5 h-3.5" />
+                                Marcar todas como lidas
+                            </button>
+                        )}
+                    </div>
+                    <div className="max-h-96 overflow-y-auto p-1">
+                        {notifications.length === 0 ? (
+                            <p className="px-3 py-6 text-sm text-muted-foreground text-center">Nenhuma notificação</p>
+                        ) : (
+                            notifications.map((notification) => (
+                                <button
+                                    key={notification.id}
+                                    onClick={() => handleClick(notification)}
+                                    className={cn(
+                                        'w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left transition-colors hover:bg-accent',
+                                        !notification.readAt && 'bg-primary/5'
+                                    )}
+                                >
+                                    <AlarmClock className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm truncate">
+                                            {notification.type === 'reminder' && <span className="text-muted-foreground">Lembrete: </span>}
+                                            {notification.title || 'Sem título'}
+                                        </p>
+                                        {notification.body && (
+                                            <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: ptBR })}
+                                        </p>
+                                    </div>
+                                    {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </Popover.Content>
+            </Popover.Portal>
+        </Popover.Root>
+    );
+}
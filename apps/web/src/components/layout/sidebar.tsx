@@ -1,51 +1,94 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTheme } from 'next-themes';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
-import { useNotesStore } from '@/store/notes-store';
-import { notebooksApi, tagsApi } from '@/lib/api';
+import { useNotesStore, SavedSearch, Reminder } from '@/store/notes-store';
+import { notebooksApi, tagsApi, savedSearchesApi, remindersApi } from '@/lib/api';
 import { AccountSettingsDialog } from '@/components/dialogs/account-settings-dialog';
-import { DeleteNotebookDialog } from '@/components/dialogs/delete-notebook-dialog';
+import { SaveSearchDialog } from '@/components/dialogs/save-search-dialog';
+import { openDailyNote, toDateKey } from '@/lib/daily-notes';
+import { NotificationBell } from '@/components/layout/notification-bell';
+import { NotebookTree } from '@/components/layout/notebook-tree';
+import { format, isPast, isToday } from 'date-fns';
 import {
+    AlarmClock,
     BookOpen,
+    CalendarDays,
     ChevronDown,
     ChevronRight,
+    Circle,
     Hash,
     LogOut,
     Moon,
+    Network,
+    Pencil,
     NotebookPen,
     Plus,
+    Search,
     Settings,
     Sun,
     Trash2,
     User,
+    X,
 } from 'lucide-react';
 
+// Wait for edits to settle before refreshing saved search counts
+const COUNT_REFRESH_DELAY = 2000;
+
 export function Sidebar() {
     const router = useRouter();
     const { theme, setTheme } = useTheme();
     const { user, logout, token } = useAuthStore();
     const {
-        notebooks,
+        notes,
         tags,
+        savedSearches,
+        reminders,
+        selectedNoteId,
         selectedNotebookId,
         selectedTagId,
+        selectedSavedSearchId,
         showTrash,
+        showGraph,
         selectNotebook,
         selectTag,
+        selectSavedSearch,
+        selectNote,
         setShowTrash,
+        setShowGraph,
         addNotebook,
         addTag,
+        setSavedSearches,
+        removeSavedSearch,
+        removeReminder,
     } = useNotesStore();
 
     const [notebooksOpen, setNotebooksOpen] = useState(true);
     const [tagsOpen, setTagsOpen] = useState(true);
+    const [savedSearchesOpen, setSavedSearchesOpen] = useState(true);
+    const [remindersOpen, setRemindersOpen] = useState(true);
+    const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+    const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
     const [isCreating, setIsCreating] = useState<'notebook' | 'tag' | null>(null);
     const [newName, setNewName] = useState('');
+    const [isOpeningToday, setIsOpeningToday] = useState(false);
+
+    const hasLiveCounts = savedSearches.some((s) => s.showCount);
+
+    // Notes changed: the live counts may be stale
+    useEffect(() => {
+        if (!token || !hasLiveCounts) return;
+
+        const timer = setTimeout(() => {
+            savedSearchesApi.getAll(token).then(setSavedSearches).catch(() => undefined);
+        }, COUNT_REFRESH_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [notes, token, hasLiveCounts, setSavedSearches]);
 
     const handleLogout = () => {
         logout();
@@ -66,6 +109,43 @@ export function Sidebar() {
         }
     };
 
+    const handleOpenToday = async () => {
+        if (!token) return;
+
+        setIsOpeningToday(true);
+        try {
+            await openDailyNote(token, toDateKey(new Date()));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to open today's note");
+        } finally {
+            setIsOpeningToday(false);
+        }
+    };
+
+    const handleDeleteSavedSearch = async (savedSearch: SavedSearch) => {
+        if (!token) return;
+
+        try {
+            await savedSearchesApi.delete(token, savedSearch.id);
+            removeSavedSearch(savedSearch.id);
+            toast.success('Saved search deleted');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete saved search');
+        }
+    };
+
+    const handleCompleteReminder = async (reminder: Reminder) => {
+        if (!token) return;
+
+        try {
+            await remindersApi.update(token, reminder.id, { done: true });
+            removeReminder(reminder.id);
+            toast.success('Reminder completed');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update reminder');
+        }
+    };
+
     const handleCreateTag = async () => {
         if (!newName.trim() || !token) return;
 
@@ -92,6 +172,7 @@ export function Sidebar() {
                         <p className="font-semibold truncate">{user?.name || 'User'}</p>
                         <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                     </div>
+                    <NotificationBell />
                 </div>
             </div>
 
@@ -106,7 +187,7 @@ export function Sidebar() {
                     }}
                     className={cn(
                         'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors',
-                        !selectedNotebookId && !selectedTagId && !showTrash
+                        !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showTrash && !showGraph
                             ? 'bg-primary/10 text-primary'
                             : 'hover:bg-accent'
                     )}
@@ -115,6 +196,28 @@ export function Sidebar() {
                     <span>All Notes</span>
                 </button>
 
+                {/* Today's daily note */}
+                <button
+                    onClick={handleOpenToday}
+                    disabled={isOpeningToday}
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors hover:bg-accent disabled:opacity-50"
+                >
+                    <CalendarDays className="w-4 h-4" />
+                    <span>Today</span>
+                </button>
+
+                {/* Graph */}
+                <button
+                    onClick={() => setShowGraph(true)}
+                    className={cn(
+                        'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors',
+                        showGraph ? 'bg-primary/10 text-primary' : 'hover:bg-accent'
+                    )}
+                >
+                    <Network className="w-4 h-4" />
+                    <span>Graph</span>
+                </button>
+
                 {/* Notebooks */}
                 <div className="pt-4 flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
                     <button
@@ -154,37 +257,7 @@ export function Sidebar() {
                                 />
                             </div>
                         )}
-                        {notebooks.map((notebook) => (
-                            <div
-                                key={notebook.id}
-                                className={cn(
-                                    'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors group',
-                                    selectedNotebookId === notebook.id
-                                        ? 'bg-primary/10 text-primary'
-                                        : 'hover:bg-accent'
-                                )}
-                            >
-                                <button
-                                    onClick={() => selectNotebook(notebook.id)}
-                                    className="flex items-center gap-3 flex-1 min-w-0"
-                                >
-                                    <div
-                                        className="w-3 h-3 rounded shrink-0"
-                                        style={{ backgroundColor: notebook.color }}
-                                    />
-                                    <span className="flex-1 text-left truncate">{notebook.name}</span>
-                                    <span className="text-xs text-muted-foreground">{notebook._count?.notes || 0}</span>
-                                </button>
-                                <DeleteNotebookDialog notebook={notebook}>
-                                    <button
-                                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive transition-all"
-                                        title="Deletar notebook"
-                                    >
-                                        <Trash2 className="w-3 h-3" />
-                                    </button>
-                                </DeleteNotebookDialog>
-                            </div>
-                        ))}
+                        <NotebookTree />
                     </div>
                 )}
 
@@ -246,6 +319,132 @@ export function Sidebar() {
                     </div>
                 )}
 
+                {/* Saved searches */}
+                <div className="pt-4 flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+                    <button
+                        onClick={() => setSavedSearchesOpen(!savedSearchesOpen)}
+                        className="flex items-center gap-2 hover:text-foreground flex-1 text-left transition-colors"
+                    >
+                        {savedSearchesOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        <span>SAVED SEARCHES</span>
+                    </button>
+                    <button
+                        onClick={() => {
+                            setEditingSearch(null);
+                            setSaveSearchOpen(true);
+                        }}
+                        className="p-0.5 hover:bg-accent rounded hover:text-foreground transition-colors"
+                    >
+                        <Plus className="w-3 h-3" />
+                    </button>
+                </div>
+
+                {savedSearchesOpen && (
+                    <div className="mt-1 space-y-0.5">
+                        {savedSearches.map((savedSearch) => (
+                            <div
+                                key={savedSearch.id}
+                                className={cn(
+                                    'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors group',
+                                    selectedSavedSearchId === savedSearch.id
+                                        ? 'bg-primary/10 text-primary'
+                                        : 'hover:bg-accent'
+                                )}
+                            >
+                                <button
+                                    onClick={() => selectSavedSearch(savedSearch.id)}
+                                    className="flex items-center gap-3 flex-1 min-w-0"
+                                    title={savedSearch.query}
+                                >
+                                    <Search className="w-4 h-4 shrink-0" />
+                                    <span className="flex-1 text-left truncate">{savedSearch.name}</span>
+                                    {savedSearch.showCount && savedSearch.count != null && (
+                                        <span className="text-xs text-muted-foreground group-hover:hidden">{savedSearch.count}</span>
+                                    )}
+                                </button>
+                                <div className="hidden group-hover:flex items-center">
+                                    <button
+                                        onClick={() => {
+                                            setEditingSearch(savedSearch);
+                                            setSaveSearchOpen(true);
+                                        }}
+                                        className="p-1 rounded hover:bg-accent transition-all"
+                                        title="Editar pesquisa"
+                                    >
+                                        <Pencil className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteSavedSearch(savedSearch)}
+                                        className="p-1 rounded hover:bg-destructive/10 hover:text-destructive transition-all"
+                                        title="Deletar pesquisa"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <SaveSearchDialog
+                    open={saveSearchOpen}
+                    onOpenChange={setSaveSearchOpen}
+                    savedSearch={editingSearch}
+                    notebookId={selectedNotebookId}
+                    tagIds={selectedTagId ? [selectedTagId] : undefined}
+                />
+
+                {/* Reminders */}
+                <div className="pt-4 flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+                    <button
+                        onClick={() => setRemindersOpen(!remindersOpen)}
+                        className="flex items-center gap-2 hover:text-foreground flex-1 text-left transition-colors"
+                    >
+                        {remindersOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        <span>REMINDERS</span>
+                    </button>
+                </div>
+
+                {remindersOpen && (
+                    <div className="mt-1 space-y-0.5">
+                        {reminders.length === 0 && (
+                            <p className="px-3 py-1 text-xs text-muted-foreground">No upcoming reminders</p>
+                        )}
+                        {reminders.map((reminder) => {
+                            const at = new Date(reminder.reminderAt);
+                            const isOverdue = isPast(at);
+
+                            return (
+                                <div
+                                    key={reminder.id}
+                                    className={cn(
+                                        'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors group',
+                                        selectedNoteId === reminder.id ? 'bg-primary/10 text-primary' : 'hover:bg-accent'
+                                    )}
+                                >
+                                    <button
+                                        onClick={() => handleCompleteReminder(reminder)}
+                                        className="shrink-0 text-muted-foreground hover:text-primary transition-colors"
+                                        title="Mark as done"
+                                    >
+                                        <Circle className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => selectNote(reminder.id)}
+                                        className="flex-1 min-w-0 text-left"
+                                    >
+                                        <span className="block truncate">{reminder.title || 'Untitled'}</span>
+                                        <span className={cn('flex items-center gap-1 text-xs', isOverdue ? 'text-destructive' : 'text-muted-foreground')}>
+                                            <AlarmClock className="w-3 h-3" />
+                                            {format(at, isToday(at) ? 'HH:mm' : 'dd/MM HH:mm')}
+                                        </span>
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
                 {/* Trash */}
                 <div className="pt-4">
                     <button
@@ -1,15 +1,23 @@
 'use client';
 
-import { useMemo, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback } from 'react';
 import { toast } from 'sonner';
-import { format } from 'date-fns';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
 import { useNotesStore, Note } from '@/store/notes-store';
-import { notesApi, searchApi } from '@/lib/api';
+import { notesApi, notebooksApi, tagsApi, searchApi, savedSearchesApi, NoteTemplate } from '@/lib/api';
+import { MatchedAttachment } from '@/components/search/matched-attachment';
+import { HighlightedText } from '@/components/search/highlighted-text';
+import { SaveSearchDialog } from '@/components/dialogs/save-search-dialog';
+import { TemplatePickerDialog } from '@/components/dialogs/template-picker-dialog';
+import { RestoreNotesDialog } from '@/components/dialogs/restore-notes-dialog';
 import {
+    BookmarkPlus,
     CheckSquare,
+    Clock,
     FileText,
+    LayoutTemplate,
     Loader2,
     MoreHorizontal,
     Pin,
@@ -21,6 +29,29 @@ import {
     X,
 } from 'lucide-react';
 
+// Search hits carry numeric timestamps; the list sorts on ISO dates like notes
+const toListItem = (hit: any) => ({
+    ...hit,
+    updatedAt: new Date(hit.updatedAt).toISOString(),
+});
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 365];
+
+// Calendar days left before the purge job deletes a trashed note
+const daysUntilDeletion = (trashedAt: string, retentionDays: number) =>
+    Math.max(0, differenceInCalendarDays(addDays(new Date(trashedAt), retentionDays), new Date()));
+
+function DeletionCountdown({ trashedAt, retentionDays }: { trashedAt: string; retentionDays: number }) {
+    const days = daysUntilDeletion(trashedAt, retentionDays);
+
+    return (
+        <span className={cn('flex items-center gap-1 text-xs', days <= 3 ? 'text-destructive' : 'text-muted-foreground')}>
+            <Clock className="w-3 h-3" />
+            {days === 0 ? 'Excluída hoje' : days === 1 ? 'Excluída amanhã' : `Excluída em ${days} dias`}
+        </span>
+    );
+}
+
 export function NoteList() {
     const { token } = useAuthStore();
     const {
@@ -28,6 +59,8 @@ export function NoteList() {
         selectedNoteId,
         selectedNotebookId,
         selectedTagId,
+        selectedSavedSearchId,
+        savedSearches,
         showTrash,
         isLoading,
         searchQuery,
@@ -36,10 +69,21 @@ export function NoteList() {
         addNote,
         updateNote,
         removeNote,
+        setNotebooks,
+        setTags,
     } = useNotesStore();
 
     const [isCreating, setIsCreating] = useState(false);
     const [searchResults, setSearchResults] = useState<any[] | null>(null);
+    const [savedSearchResults, setSavedSearchResults] = useState<any[] | null>(null);
+    const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+    const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+    // Trash retention of the user, loaded with the trash view (0 = never deleted)
+    const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+    // Notes waiting for a destination because their notebook was deleted
+    const [pendingRestore, setPendingRestore] = useState<{ noteIds: string[]; missingNotebooks: string[] } | null>(null);
+
+    const selectedSavedSearch = savedSearches.find((s) => s.id === selectedSavedSearchId);
 
     // Multi-select state
     const [selectedNotes, setSelectedNotes] = useState<Set<string>>(new Set());
@@ -47,9 +91,45 @@ export function NoteList() {
     const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
     const [isBulkOperating, setIsBulkOperating] = useState(false);
 
+    useEffect(() => {
+        setSavedSearchResults(null);
+    }, [selectedSavedSearchId]);
+
+    useEffect(() => {
+        if (!token || !showTrash) return;
+
+        notesApi
+            .getTrashSettings(token)
+            .then((settings) => setTrashRetentionDays(settings.trashRetentionDays))
+            .catch(() => undefined);
+    }, [token, showTrash]);
+
+    // Run the selected saved search, again (debounced) whenever notes or the search itself change
+    useEffect(() => {
+        if (!token || !selectedSavedSearchId) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            savedSearchesApi
+                .run(token, selectedSavedSearchId, { limit: 100 })
+                .then((result) => {
+                    if (!cancelled) setSavedSearchResults(result.hits.map(toListItem));
+                })
+                .catch((error) => {
+                    if (!cancelled) toast.error(error instanceof Error ? error.message : 'Falha ao executar pesquisa');
+                });
+        }, 300);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [token, selectedSavedSearchId, selectedSavedSearch?.query, notes]);
+
     // Filter notes based on current view
     const filteredNotes = useMemo(() => {
         if (searchResults) return searchResults;
+        if (selectedSavedSearchId) return savedSearchResults ?? [];
 
         return notes.filter((note) => {
             if (showTrash) return note.isTrashed;
@@ -60,7 +140,7 @@ export function NoteList() {
             }
             return false;
         });
-    }, [notes, searchResults, showTrash, selectedNotebookId, selectedTagId]);
+    }, [notes, searchResults, savedSearchResults, showTrash, selectedNotebookId, selectedTagId, selectedSavedSearchId]);
 
     // Sort: pinned first, then by updatedAt
     const sortedNotes = useMemo(() => {
@@ -140,8 +220,9 @@ export function NoteList() {
             const noteIds = Array.from(selectedNotes);
             await notesApi.bulkTrash(token, noteIds);
 
+            const trashedAt = new Date().toISOString();
             noteIds.forEach(id => {
-                updateNote(id, { isTrashed: true });
+                updateNote(id, { isTrashed: true, trashedAt });
             });
 
             toast.success(`${noteIds.length} nota${noteIds.length > 1 ? 's' : ''} movida${noteIds.length > 1 ? 's' : ''} para lixeira`);
@@ -175,20 +256,46 @@ export function NoteList() {
         }
     }, [token, selectedNotes, removeNote, clearSelection]);
 
+    // Names of the deleted notebooks these trashed notes came from
+    const missingNotebooksOf = useCallback((noteIds: string[]) => {
+        const { notebooks } = useNotesStore.getState();
+        const names = notes
+            .filter((note) => noteIds.includes(note.id))
+            .map((note) => note.trashOrigin?.notebook)
+            .filter((origin) => origin && !notebooks.some((n) => n.id === origin.id))
+            .map((origin) => origin!.name);
+        return [...new Set(names)];
+    }, [notes]);
+
+    // Restore into the original notebooks; notebookId is where notes of deleted ones go instead
+    const restoreNotes = useCallback(async (noteIds: string[], notebookId?: string) => {
+        if (!token) return;
+
+        const restored = noteIds.length === 1
+            ? [await notesApi.restore(token, noteIds[0]!, notebookId)]
+            : await notesApi.bulkRestore(token, noteIds, notebookId);
+        restored.forEach((note) => updateNote(note.id, note));
+
+        // A notebook or tags may have been recreated
+        const [notebooks, tags] = await Promise.all([notebooksApi.getAll(token), tagsApi.getAll(token)]);
+        setNotebooks(notebooks);
+        setTags(tags);
+    }, [token, updateNote, setNotebooks, setTags]);
+
     // Bulk restore selected notes
     const handleBulkRestore = useCallback(async () => {
         if (!token || selectedNotes.size === 0) return;
 
+        const noteIds = Array.from(selectedNotes);
+        const missingNotebooks = missingNotebooksOf(noteIds);
+        if (missingNotebooks.length > 0) {
+            setPendingRestore({ noteIds, missingNotebooks });
+            return;
+        }
+
         setIsBulkOperating(true);
         try {
-            const noteIds = Array.from(selectedNotes);
-
-            // Restore each note
-            for (const id of noteIds) {
-                await notesApi.update(token, id, { isTrashed: false });
-                updateNote(id, { isTrashed: false });
-            }
-
+            await restoreNotes(noteIds);
             toast.success(`${noteIds.length} nota${noteIds.length > 1 ? 's' : ''} restaurada${noteIds.length > 1 ? 's' : ''}`);
             clearSelection();
         } catch (error) {
@@ -196,7 +303,20 @@ export function NoteList() {
         } finally {
             setIsBulkOperating(false);
         }
-    }, [token, selectedNotes, updateNote, clearSelection]);
+    }, [token, selectedNotes, missingNotebooksOf, restoreNotes, clearSelection]);
+
+    const handleConfirmRestore = async (notebookId?: string) => {
+        if (!pendingRestore) return;
+
+        const { noteIds } = pendingRestore;
+        try {
+            await restoreNotes(noteIds, notebookId);
+            toast.success(`${noteIds.length} nota${noteIds.length > 1 ? 's' : ''} restaurada${noteIds.length > 1 ? 's' : ''}`);
+            clearSelection();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao restaurar notas');
+        }
+    };
 
     const handleSearch = async (query: string) => {
         setSearchQuery(query);
@@ -209,13 +329,12 @@ export function NoteList() {
         if (!token) return;
 
         try {
-            const result = await searchApi.search(token, query);
-            setSearchResults(result.hits.map((hit) => ({
-                ...hit,
-                id: hit.id,
-                title: hit.title,
-                updatedAt: new Date(hit.updatedAt).toISOString(),
-            })));
+            // Search within the notebook or tag being viewed
+            const result = await searchApi.search(token, query, {
+                notebookId: selectedNotebookId || undefined,
+                tagIds: selectedTagId ? [selectedTagId] : undefined,
+            });
+            setSearchResults(result.hits.map(toListItem));
         } catch (error) {
             console.error('Search failed:', error);
         }
@@ -240,6 +359,19 @@ export function NoteList() {
         }
     };
 
+    const handleCreateFromTemplate = async (template: NoteTemplate) => {
+        if (!token) return;
+
+        const note = await notesApi.create(token, {
+            templateId: template.id,
+            notebookId: selectedNotebookId || undefined,
+            localDate: format(new Date(), 'yyyy-MM-dd'),
+        });
+        addNote(note);
+        selectNote(note.id);
+        toast.success('Note created');
+    };
+
     const handleTogglePin = async (note: Note, e: React.MouseEvent) => {
         e.stopPropagation();
         if (!token) return;
@@ -258,7 +390,7 @@ export function NoteList() {
 
         try {
             await notesApi.update(token, note.id, { isTrashed: true });
-            updateNote(note.id, { isTrashed: true });
+            updateNote(note.id, { isTrashed: true, trashedAt: new Date().toISOString() });
             if (selectedNoteId === note.id) selectNote(null);
             toast.success('Note moved to trash');
         } catch (error) {
@@ -270,9 +402,14 @@ export function NoteList() {
         e.stopPropagation();
         if (!token) return;
 
+        const missingNotebooks = missingNotebooksOf([note.id]);
+        if (missingNotebooks.length > 0) {
+            setPendingRestore({ noteIds: [note.id], missingNotebooks });
+            return;
+        }
+
         try {
-            await notesApi.update(token, note.id, { isTrashed: false });
-            updateNote(note.id, { isTrashed: false });
+            await restoreNotes([note.id]);
             toast.success('Note restored');
         } catch (error) {
             toast.error('Failed to restore note');
@@ -292,8 +429,21 @@ export function NoteList() {
         }
     };
 
+    const handleRetentionChange = async (days: number) => {
+        if (!token) return;
+
+        try {
+            const settings = await notesApi.updateTrashSettings(token, { trashRetentionDays: days });
+            setTrashRetentionDays(settings.trashRetentionDays);
+            toast.success(days === 0 ? 'Notas da lixeira não serão excluídas automaticamente' : `Notas da lixeira serão excluídas após ${days} dias`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Falha ao salvar configuração da lixeira');
+        }
+    };
+
     const getTitle = () => {
         if (showTrash) return 'Trash';
+        if (selectedSavedSearch) return selectedSavedSearch.name;
         if (selectedNotebookId) {
             const notebook = useNotesStore.getState().notebooks.find((n) => n.id === selectedNotebookId);
             return notebook?.name || 'Notebook';
@@ -326,6 +476,15 @@ export function NoteList() {
                                 <CheckSquare className="w-4 h-4" />
                             </button>
                         )}
+                        {!showTrash && (
+                            <button
+                                onClick={() => setTemplatePickerOpen(true)}
+                                className="p-2 rounded-lg hover:bg-accent text-muted-foreground transition-colors"
+                                title="Nova nota a partir de template"
+                            >
+                                <LayoutTemplate className="w-4 h-4" />
+                            </button>
+                        )}
                         {!showTrash && (
                             <button
                                 onClick={handleCreateNote}
@@ -355,11 +514,43 @@ export function NoteList() {
                         onChange={(e) => handleSearch(e.target.value)}
                         placeholder="Search notes..."
                         className={cn(
-                            'w-full pl-9 pr-4 py-2 rounded-lg border bg-background text-sm',
+                            'w-full pl-9 pr-9 py-2 rounded-lg border bg-background text-sm',
                             'focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent'
                         )}
                     />
+                    {searchQuery.trim() && !showTrash && (
+                        <button
+                            onClick={() => setSaveSearchOpen(true)}
+                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors"
+                            title="Salvar pesquisa"
+                        >
+                            <BookmarkPlus className="w-4 h-4" />
+                        </button>
+                    )}
                 </div>
+                {selectedSavedSearch && !searchResults && (
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={selectedSavedSearch.query}>
+                        {selectedSavedSearch.query}
+                    </p>
+                )}
+                {showTrash && trashRetentionDays !== null && (
+                    <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        Excluir notas da lixeira após
+                        <select
+                            value={trashRetentionDays}
+                            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                            className="px-2 py-1 rounded-lg border bg-background text-xs text-foreground"
+                        >
+                            {[...new Set([...RETENTION_OPTIONS, trashRetentionDays])]
+                                .filter((days) => days > 0)
+                                .sort((a, b) => a - b)
+                                .map((days) => (
+                                    <option key={days} value={days}>{days} dias</option>
+                                ))}
+                            <option value={0}>Nunca</option>
+                        </select>
+                    </label>
+                )}
             </div>
 
             {/* Multi-select toolbar */}
@@ -430,7 +621,7 @@ export function NoteList() {
 
             {/* Note list */}
             <div className="flex-1 overflow-y-auto">
-                {isLoading ? (
+                {isLoading || (selectedSavedSearchId && !savedSearchResults && !searchResults) ? (
                     <div className="flex items-center justify-center py-8">
                         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
                     </div>
@@ -438,9 +629,9 @@ export function NoteList() {
                     <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
                         <FileText className="w-12 h-12 text-muted-foreground/50 mb-4" />
                         <p className="text-muted-foreground">
-                            {showTrash ? 'Trash is empty' : 'No notes yet'}
+                            {showTrash ? 'Trash is empty' : selectedSavedSearchId ? 'No matching notes' : 'No notes yet'}
                         </p>
-                        {!showTrash && (
+                        {!showTrash && !selectedSavedSearchId && (
                             <button
                                 onClick={handleCreateNote}
                                 className="mt-4 text-sm text-primary hover:underline"
@@ -483,17 +674,29 @@ export function NoteList() {
                                             {note.isPinned && (
                                                 <Pin className="w-3 h-3 text-primary shrink-0" />
                                             )}
-                                            <h3 className="font-medium truncate">{note.title}</h3>
+                                            <h3 className="font-medium truncate">
+                                                <HighlightedText text={note._formatted?.title ?? note.title} />
+                                            </h3>
                                         </div>
-                                        {note.plainText && (
+                                        {note._formatted?.plainText ? (
+                                            <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
+                                                <HighlightedText text={note._formatted.plainText} />
+                                            </p>
+                                        ) : note.plainText && (
                                             <p className="text-sm text-muted-foreground truncate mt-1">
                                                 {note.plainText.slice(0, 100)}
                                             </p>
                                         )}
+                                        {note.matchedAttachment && (
+                                            <MatchedAttachment attachment={note.matchedAttachment} className="mt-1" />
+                                        )}
                                         <div className="flex items-center gap-2 mt-2">
                                             <span className="text-xs text-muted-foreground">
                                                 {format(new Date(note.updatedAt), 'MMM d, yyyy')}
                                             </span>
+                                            {showTrash && note.trashedAt && !!trashRetentionDays && (
+                                                <DeletionCountdown trashedAt={note.trashedAt} retentionDays={trashRetentionDays} />
+                                            )}
                                             {note.notebook && (
                                                 <span
                                                     className="text-xs px-1.5 py-0.5 rounded"
@@ -560,6 +763,28 @@ export function NoteList() {
                     </div>
                 )}
             </div>
+
+            <SaveSearchDialog
+                open={saveSearchOpen}
+                onOpenChange={setSaveSearchOpen}
+                initialQuery={searchQuery}
+                notebookId={selectedNotebookId}
+                tagIds={selectedTagId ? [selectedTagId] : undefined}
+            />
+
+            <RestoreNotesDialog
+                open={pendingRestore !== null}
+                onOpenChange={(open) => !open && setPendingRestore(null)}
+                missingNotebooks={pendingRestore?.missingNotebooks ?? []}
+                onConfirm={handleConfirmRestore}
+            />
+
+            <TemplatePickerDialog
+                open={templatePickerOpen}
+                onOpenChange={setTemplatePickerOpen}
+                title="Nova nota a partir de template"
+                onSelect={handleCreateFromTemplate}
+            />
         </div>
     );
 }
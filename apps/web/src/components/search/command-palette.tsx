@@ -9,10 +9,14 @@ import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
 import { useNotesStore } from '@/store/notes-store';
 import { notesApi, searchApi } from '@/lib/api';
+import { MatchedAttachment } from './matched-attachment';
+import { HighlightedText } from './highlighted-text';
+import { SaveSearchDialog } from '@/components/dialogs/save-search-dialog';
 import { toast } from 'sonner';
 import {
     ArrowDown,
     ArrowUp,
+    BookmarkPlus,
     Calendar,
     Check,
     ChevronDown,
@@ -38,9 +42,17 @@ type SortOption = 'recent' | 'created' | 'title';
 type FilterOption = 'all' | 'title' | 'content';
 type DateFilter = 'all' | 'today' | 'week' | 'month';
 
+// Evernote-style operators (notebook:, tag:, created:day-7, ...) are only understood by the search API
+const OPERATOR_TERM = /(^|\s)-?(any|notebook|tag|intitle|created|updated|todo|resource):("[^"]*"?|\S*)/gi;
+const hasOperators = (value: string) => new RegExp(OPERATOR_TERM.source, 'i').test(value);
+
+// Free-text part of the query, used to highlight matches in the opened note
+const highlightText = (value: string) =>
+    value.replace(OPERATOR_TERM, ' ').replace(/"/g, '').trim() || undefined;
+
 export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
     const { token } = useAuthStore();
-    const { notes, selectNote, addNote } = useNotesStore();
+    const { notes, savedSearches, selectNote, selectSavedSearch, addNote } = useNotesStore();
     const [query, setQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
     const [searchResults, setSearchResults] = useState<any[] | null>(null);
@@ -48,6 +60,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
     const [sortBy, setSortBy] = useState<SortOption>('recent');
     const [filterBy, setFilterBy] = useState<FilterOption>('all');
     const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+    const [saveSearchOpen, setSaveSearchOpen] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
     // Reset state when opening
@@ -62,7 +75,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
 
     // Re-run search when filterBy changes (if there's a query)
     useEffect(() => {
-        if (query.trim()) {
+        if (query.trim() && !hasOperators(query)) {
             // Perform local search with current filter
             const lowerQuery = query.toLowerCase();
             const filtered = notes.filter(note => {
@@ -176,9 +189,9 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
             return filtered;
         };
 
-        // Run local search immediately for instant results
-        const localResults = performLocalSearch();
-        setSearchResults(localResults);
+        // Run local search immediately for instant results (plain text only)
+        const usesOperators = hasOperators(searchQuery);
+        setSearchResults(usesOperators ? [] : performLocalSearch());
 
         // Try API search if available (will update results if successful)
         if (token) {
@@ -188,7 +201,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
                     limit: 20,
                 });
                 console.log('API search result:', result);
-                if (result && result.hits && result.hits.length > 0) {
+                if (result && result.hits && (usesOperators || result.hits.length > 0)) {
                     setSearchResults(result.hits);
                 }
             } catch (error) {
@@ -213,7 +226,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
             case 'Enter':
                 e.preventDefault();
                 if (allItems[selectedIndex]) {
-                    selectNote(allItems[selectedIndex].id, query.trim() || undefined);
+                    selectNote(allItems[selectedIndex].id, highlightText(query));
                     onOpenChange(false);
                 }
                 break;
@@ -416,12 +429,54 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
                         </DropdownMenu.Root>
                     </div>
 
+                    {/* Saved searches */}
+                    {(savedSearches.length > 0 || query.trim()) && (
+                        <div className="flex items-center gap-2 px-4 py-2 border-b overflow-x-auto">
+                            {query.trim() && (
+                                <button
+                                    onClick={() => setSaveSearchOpen(true)}
+                                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-sm border border-dashed hover:bg-accent transition-colors shrink-0"
+                                >
+                                    <BookmarkPlus className="w-3.5 h-3.5" />
+                                    <span>Salvar pesquisa</span>
+                                </button>
+                            )}
+                            {savedSearches.map((savedSearch) => (
+                                <button
+                                    key={savedSearch.id}
+                                    onClick={() => {
+                                        selectSavedSearch(savedSearch.id);
+                                        onOpenChange(false);
+                                    }}
+                                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-sm border hover:bg-accent transition-colors shrink-0"
+                                    title={savedSearch.query}
+                                >
+                                    <Search className="w-3.5 h-3.5" />
+                                    <span>{savedSearch.name}</span>
+                                    {savedSearch.showCount && savedSearch.count != null && (
+                                        <span className="text-xs text-muted-foreground">{savedSearch.count}</span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <SaveSearchDialog
+                        open={saveSearchOpen}
+                        onOpenChange={setSaveSearchOpen}
+                        initialQuery={query}
+                    />
+
                     {/* Results */}
                     <div className="max-h-[400px] overflow-y-auto">
                         {groupedNotes.length === 0 ? (
                             <div className="py-12 text-center text-muted-foreground">
                                 <Search className="w-10 h-10 mx-auto mb-3 opacity-50" />
                                 <p>Nenhum resultado encontrado</p>
+                                <p className="text-xs mt-2">
+                                    Dica: use <code>notebook:</code>, <code>tag:</code>, <code>-tag:</code>, <code>intitle:</code>,{' '}
+                                    <code>created:day-7</code>, <code>todo:false</code>, <code>resource:image/*</code> ou <code>any:</code>
+                                </p>
                             </div>
                         ) : (
                             groupedNotes.map((group, gi) => (
@@ -437,7 +492,7 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
                                             <button
                                                 key={note.id}
                                                 onClick={() => {
-                                                    selectNote(note.id, query.trim() || undefined);
+                                                    selectNote(note.id, highlightText(query));
                                                     onOpenChange(false);
                                                 }}
                                                 className={cn(
@@ -449,12 +504,22 @@ export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
                                             >
                                                 <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
                                                 <div className="flex-1 min-w-0">
-                                                    <p className="font-medium truncate">{note.title}</p>
-                                                    {note.plainText && (
+                                                    {/* API hits carry highlighted, cropped text in _formatted (both search backends) */}
+                                                    <p className="font-medium truncate">
+                                                        <HighlightedText text={note._formatted?.title ?? note.title} />
+                                                    </p>
+                                                    {note._formatted?.plainText ? (
+                                                        <p className="text-sm text-muted-foreground line-clamp-2">
+                                                            <HighlightedText text={note._formatted.plainText} />
+                                                        </p>
+                                                    ) : note.plainText && (
                                                         <p className="text-sm text-muted-foreground truncate">
                                                             {note.plainText.slice(0, 60)}
                                                         </p>
                                                     )}
+                                                    {note.matchedAttachment && (
+                                                        <MatchedAttachment attachment={note.matchedAttachment} className="mt-0.5" />
+                                                    )}
                                                 </div>
                                                 <span className="text-xs text-muted-foreground shrink-0">
                                                     {format(new Date(note.updatedAt), 'd MMM', { locale: ptBR })}
@@ -0,0 +1,28 @@
+'use client';
+
+import { Fragment } from 'react';
+
+interface HighlightedTextProps {
+    // Search API text with matches wrapped in <mark></mark>; everything else is rendered as plain text
+    text: string;
+}
+
+const MARK = /<mark>(.*?)<\/mark>/gs;
+
+export function HighlightedText({ text }: HighlightedTextProps) {
+    const parts = text.split(MARK);
+
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1 ? (
+                    <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+                        {part}
+                    </mark>
+                ) : (
+                    <Fragment key={index}>{part}</Fragment>
+                )
+            )}
+        </>
+    );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Paperclip } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { MatchedAttachment as MatchedAttachmentData } from '@/lib/api';
+import { HighlightedText } from './highlighted-text';
+
+interface MatchedAttachmentProps {
+    attachment: MatchedAttachmentData;
+    className?: string;
+}
+
+// The attachment a search hit was found in, with the matching passage
+export function MatchedAttachment({ attachment, className }: MatchedAttachmentProps) {
+    return (
+        <div className={cn('flex items-start gap-1.5 text-xs text-muted-foreground min-w-0', className)}>
+            <Paperclip className="w-3 h-3 mt-0.5 shrink-0" />
+            <p className="truncate">
+                <span className="font-medium text-foreground/80">{attachment.filename}</span>
+                {attachment.snippet && (
+                    <span>
+                        {' — '}
+                        <HighlightedText text={attachment.snippet} />
+                    </span>
+                )}
+            </p>
+        </div>
+    );
+}
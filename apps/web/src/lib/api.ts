@@ -4,6 +4,17 @@ interface FetchOptions extends RequestInit {
     token?: string;
 }
 
+// Error carrying the HTTP status and response body (e.g. the server copy on 409)
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly data: any,
+    ) {
+        super(message);
+    }
+}
+
 async function fetchApi<T>(endpoint: string, options: FetchOptions = {}): Promise<T> {
     const { token, ...fetchOptions } = options;
 
@@ -23,7 +34,7 @@ async function fetchApi<T>(endpoint: string, options: FetchOptions = {}): Promis
 
     if (!response.ok) {
         const error = await response.json().catch(() => ({ message: 'An error occurred' }));
-        throw new Error(error.message || `HTTP error! status: ${response.status}`);
+        throw new ApiError(error.message || `HTTP error! status: ${response.status}`, response.status, error);
     }
 
     return response.json();
@@ -44,6 +55,24 @@ export const authApi = {
         }),
 };
 
+// Version diff types
+export interface InlineChange {
+    kind: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+export type BlockChange =
+    | { kind: 'equal' | 'insert' | 'delete'; type: string; text: string }
+    | { kind: 'modify'; type: string; before: string; after: string; inline: InlineChange[] };
+
+export interface VersionDiff {
+    from: { id: string; title: string; createdAt: string };
+    to: { id: string; title: string; createdAt: string };
+    titleChanged: boolean;
+    blocks: BlockChange[];
+    stats: { inserted: number; deleted: number; modified: number };
+}
+
 // Notes API
 export const notesApi = {
     getAll: (token: string, params?: { notebookId?: string; tagId?: string; trashed?: boolean }) => {
@@ -58,27 +87,65 @@ export const notesApi = {
     getById: (token: string, id: string) =>
         fetchApi<any>(`/notes/${id}`, { token }),
 
-    create: (token: string, data: { title?: string; content?: any; notebookId?: string }) =>
+    create: (token: string, data: { title?: string; content?: any; notebookId?: string; templateId?: string; localDate?: string }) =>
         fetchApi<any>('/notes', { method: 'POST', body: JSON.stringify(data), token }),
 
     bulkCreate: (token: string, notes: { title?: string; content?: any; notebookId?: string }[]) =>
         fetchApi<any[]>('/notes/bulk', { method: 'POST', body: JSON.stringify({ notes }), token }),
 
-    update: (token: string, id: string, data: any) =>
-        fetchApi<any>(`/notes/${id}`, { method: 'PATCH', body: JSON.stringify(data), token }),
+    // Pass the revision the changes are based on to get a 409 ApiError instead of overwriting
+    update: (token: string, id: string, data: any, revision?: number) =>
+        fetchApi<any>(`/notes/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+            token,
+            headers: revision !== undefined ? { 'If-Match': `"${revision}"` } : undefined,
+        }),
 
     delete: (token: string, id: string) =>
         fetchApi<void>(`/notes/${id}`, { method: 'DELETE', token }),
 
-    getVersions: (token: string, id: string) =>
-        fetchApi<any[]>(`/notes/${id}/versions`, { token }),
+    getVersions: (token: string, id: string, namedOnly = false) =>
+        fetchApi<any[]>(`/notes/${id}/versions${namedOnly ? '?named=true' : ''}`, { token }),
 
-    createVersion: (token: string, id: string) =>
-        fetchApi<any>(`/notes/${id}/versions`, { method: 'POST', token }),
+    // Named checkpoint of the current note state
+    createVersion: (token: string, id: string, data: { label: string; description?: string }) =>
+        fetchApi<any>(`/notes/${id}/versions`, { method: 'POST', body: JSON.stringify(data), token }),
+
+    // Use 'current' as a version id to compare against the live note
+    diffVersions: (token: string, noteId: string, fromId: string, toId: string) =>
+        fetchApi<VersionDiff>(`/notes/${noteId}/versions/${fromId}/diff/${toId}`, { token }),
 
     restoreVersion: (token: string, noteId: string, versionId: string) =>
         fetchApi<any>(`/notes/${noteId}/versions/${versionId}/restore`, { method: 'POST', token }),
 
+    // Notes most similar in content, best match first
+    getRelated: (token: string, id: string, limit?: number) =>
+        fetchApi<RelatedNote[]>(`/notes/${id}/related${limit ? `?limit=${limit}` : ''}`, { token }),
+
+    // Notes linking to this one with [[links]]
+    getBacklinks: (token: string, id: string) =>
+        fetchApi<Backlink[]>(`/notes/${id}/backlinks`, { token }),
+
+    // Daily note for a YYYY-MM-DD date, created on first open
+    getDaily: (token: string, date: string) =>
+        fetchApi<any>(`/notes/daily/${date}`, { token }),
+
+    getDailyRange: (token: string, from: string, to: string) =>
+        fetchApi<DailyNoteEntry[]>(`/notes/daily?from=${from}&to=${to}`, { token }),
+
+    getDailySettings: (token: string) =>
+        fetchApi<DailyNoteSettings>('/notes/daily/settings', { token }),
+
+    updateDailySettings: (token: string, data: Partial<DailyNoteSettings>) =>
+        fetchApi<DailyNoteSettings>('/notes/daily/settings', { method: 'PATCH', body: JSON.stringify(data), token }),
+
+    getTrashSettings: (token: string) =>
+        fetchApi<TrashSettings>('/notes/trash/settings', { token }),
+
+    updateTrashSettings: (token: string, data: TrashSettings) =>
+        fetchApi<TrashSettings>('/notes/trash/settings', { method: 'PATCH', body: JSON.stringify(data), token }),
+
     updateTags: (token: string, noteId: string, tagIds: string[]) =>
         fetchApi<any>(`/notes/${noteId}/tags`, { method: 'PATCH', body: JSON.stringify({ tagIds }), token }),
 
@@ -89,6 +156,17 @@ export const notesApi = {
             token
         }),
 
+    // notebookId: destination for notes whose original notebook was deleted (recreated when omitted)
+    restore: (token: string, id: string, notebookId?: string) =>
+        fetchApi<any>(`/notes/${id}/restore`, { method: 'POST', body: JSON.stringify({ notebookId }), token }),
+
+    bulkRestore: (token: string, noteIds: string[], notebookId?: string) =>
+        fetchApi<any[]>('/notes/bulk/restore', {
+            method: 'POST',
+            body: JSON.stringify({ noteIds, notebookId }),
+            token
+        }),
+
     bulkDelete: (token: string, noteIds: string[]) =>
         fetchApi<{ success: boolean; count: number }>('/notes/bulk', {
             method: 'DELETE',
@@ -97,17 +175,61 @@ export const notesApi = {
         }),
 };
 
+export interface DailyNoteEntry {
+    date: string;
+    noteId: string;
+    title: string;
+}
+
+export interface DailyNoteSettings {
+    journalNotebookId: string | null;
+    journalTemplateId: string | null;
+}
+
+export interface TrashSettings {
+    trashRetentionDays: number; // 0 = kept until deleted by hand
+}
+
+export interface RelatedNote {
+    id: string;
+    title: string;
+    snippet: string;
+    notebookId: string | null;
+    updatedAt: string;
+    score: number;
+}
+
+export interface Backlink {
+    id: string;
+    title: string;
+    plainText: string | null;
+    updatedAt: string;
+    notebook: { id: string; name: string; color: string } | null;
+}
+
 // Notebooks API
 export const notebooksApi = {
     getAll: (token: string) =>
         fetchApi<any[]>('/notebooks', { token }),
 
-    create: (token: string, data: { name: string; color?: string }) =>
+    create: (token: string, data: { name: string; color?: string; parentId?: string; stack?: string }) =>
         fetchApi<any>('/notebooks', { method: 'POST', body: JSON.stringify(data), token }),
 
     update: (token: string, id: string, data: { name?: string; color?: string }) =>
         fetchApi<any>(`/notebooks/${id}`, { method: 'PATCH', body: JSON.stringify(data), token }),
 
+    // Moves the notebook with its sub-notebooks; position is the index among the new siblings
+    move: (token: string, id: string, data: { parentId?: string | null; stack?: string | null; position?: number }) =>
+        fetchApi<any>(`/notebooks/${id}/move`, { method: 'PATCH', body: JSON.stringify(data), token }),
+
+    // newName null dissolves the stack
+    renameStack: (token: string, name: string, newName: string | null) =>
+        fetchApi<void>(`/notebooks/stacks/${encodeURIComponent(name)}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ name: newName }),
+            token
+        }),
+
     delete: (token: string, id: string) =>
         fetchApi<void>(`/notebooks/${id}`, { method: 'DELETE', token }),
 };
@@ -128,15 +250,155 @@ export const tagsApi = {
 };
 
 // Search API
+export interface MatchedAttachment {
+    id: string;
+    filename: string;
+    snippet: string | null;
+}
+
 export const searchApi = {
-    search: (token: string, query: string, options?: { notebookId?: string; limit?: number }) => {
+    search: (token: string, query: string, options?: { notebookId?: string; tagIds?: string[]; limit?: number }) => {
         const searchParams = new URLSearchParams({ q: query });
         if (options?.notebookId) searchParams.set('notebookId', options.notebookId);
+        if (options?.tagIds?.length) searchParams.set('tagIds', options.tagIds.join(','));
         if (options?.limit) searchParams.set('limit', options.limit.toString());
         return fetchApi<{ hits: any[]; total: number }>(`/search?${searchParams}`, { token });
     },
 };
 
+// Saved searches API
+export interface SavedSearchInput {
+    name: string;
+    query: string;
+    notebookId?: string | null;
+    tagIds?: string[];
+    showCount?: boolean;
+}
+
+export const savedSearchesApi = {
+    getAll: (token: string) =>
+        fetchApi<any[]>('/search/saved', { token }),
+
+    create: (token: string, data: SavedSearchInput) =>
+        fetchApi<any>('/search/saved', { method: 'POST', body: JSON.stringify(data), token }),
+
+    update: (token: string, id: string, data: Partial<SavedSearchInput>) =>
+        fetchApi<any>(`/search/saved/${id}`, { method: 'PATCH', body: JSON.stringify(data), token }),
+
+    delete: (token: string, id: string) =>
+        fetchApi<void>(`/search/saved/${id}`, { method: 'DELETE', token }),
+
+    run: (token: string, id: string, options?: { limit?: number }) => {
+        const searchParams = new URLSearchParams();
+        if (options?.limit) searchParams.set('limit', options.limit.toString());
+        const query = searchParams.toString();
+        return fetchApi<{ hits: any[]; total: number }>(`/search/saved/${id}/results${query ? `?${query}` : ''}`, { token });
+    },
+};
+
+// Templates API
+export interface NoteTemplate {
+    id: string;
+    name: string;
+    description: string | null;
+    title: string;
+    content: any;
+    isShared: boolean;
+    authorId: string;
+    author?: { id: string; name: string | null };
+    updatedAt: string;
+}
+
+export interface NoteTemplateInput {
+    name: string;
+    description?: string;
+    title?: string;
+    content: any;
+    isShared?: boolean;
+}
+
+export const templatesApi = {
+    getAll: (token: string) =>
+        fetchApi<NoteTemplate[]>('/templates', { token }),
+
+    create: (token: string, data: NoteTemplateInput) =>
+        fetchApi<NoteTemplate>('/templates', { method: 'POST', body: JSON.stringify(data), token }),
+
+    update: (token: string, id: string, data: Partial<NoteTemplateInput>) =>
+        fetchApi<NoteTemplate>(`/templates/${id}`, { method: 'PATCH', body: JSON.stringify(data), token }),
+
+    delete: (token: string, id: string) =>
+        fetchApi<void>(`/templates/${id}`, { method: 'DELETE', token }),
+
+    // Title and content with {{date}}, {{title}} and {{user.name}} filled in
+    render: (token: string, id: string, data: { title?: string; localDate?: string }) =>
+        fetchApi<{ title: string; content: any }>(`/templates/${id}/render`, { method: 'POST', body: JSON.stringify(data), token }),
+};
+
+// Reminders API
+export const remindersApi = {
+    getAll: (token: string, status?: 'upcoming' | 'done' | 'all') =>
+        fetchApi<any[]>(`/reminders${status ? `?status=${status}` : ''}`, { token }),
+
+    // Setting a new time also reopens a completed reminder
+    update: (token: string, noteId: string, data: { reminderAt?: string; done?: boolean }) =>
+        fetchApi<any>(`/reminders/${noteId}`, { method: 'PATCH', body: JSON.stringify(data), token }),
+
+    clear: (token: string, noteId: string) =>
+        fetchApi<void>(`/reminders/${noteId}`, { method: 'DELETE', token }),
+};
+
+// Notifications API
+export interface AppNotification {
+    id: string;
+    type: 'reminder';
+    title: string;
+    body: string | null;
+    noteId: string | null;
+    readAt: string | null;
+    createdAt: string;
+}
+
+export const notificationsApi = {
+    getAll: (token: string) =>
+        fetchApi<{ notifications: AppNotification[]; unreadCount: number }>('/notifications', { token }),
+
+    markRead: (token: string, id: string) =>
+        fetchApi<AppNotification>(`/notifications/${id}/read`, { method: 'PATCH', token }),
+
+    markAllRead: (token: string) =>
+        fetchApi<{ success: boolean; count: number }>('/notifications/read-all', { method: 'POST', token }),
+};
+
+// Graph API
+export interface GraphNode {
+    id: string;
+    title: string;
+    notebookId: string | null;
+    tagIds: string[];
+    degree: number;
+    // Layout computed by the server, in a 0-1000 square
+    x: number;
+    y: number;
+}
+
+export interface GraphEdge {
+    source: string;
+    target: string;
+    type: 'link' | 'tag';
+    weight: number;
+}
+
+export const graphApi = {
+    get: (token: string, options?: { notebookId?: string; tagId?: string }) => {
+        const searchParams = new URLSearchParams();
+        if (options?.notebookId) searchParams.set('notebookId', options.notebookId);
+        if (options?.tagId) searchParams.set('tagId', options.tagId);
+        const query = searchParams.toString();
+        return fetchApi<{ nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean }>(`/graph${query ? `?${query}` : ''}`, { token });
+    },
+};
+
 // Shares API
 export const sharesApi = {
     shareNote: (token: string, noteId: string, email: string, permission: string) =>
@@ -166,6 +428,14 @@ export interface Attachment {
     key: string;
     createdAt: string;
     noteId: string;
+    textStatus?: 'PENDING' | 'DONE' | 'FAILED' | 'UNSUPPORTED';
+}
+
+// Image regions (in natural image pixels) whose recognized text matches a search
+export interface ImageTextMatch {
+    attachmentId: string;
+    url: string;
+    regions: { x0: number; y0: number; x1: number; y1: number }[];
 }
 
 export const storageApi = {
@@ -189,11 +459,20 @@ export const storageApi = {
         return response.json();
     },
 
+    // Upload an image held as a data URL (edited or pasted images), so it is stored and searchable
+    uploadImageData: async (token: string, noteId: string, dataUrl: string, filename = 'image.png'): Promise<Attachment> => {
+        const blob = await (await fetch(dataUrl)).blob();
+        return storageApi.uploadFile(token, noteId, new File([blob], filename, { type: blob.type }));
+    },
+
     deleteAttachment: (token: string, attachmentId: string) =>
         fetchApi<{ success: boolean }>(`/storage/${attachmentId}`, { method: 'DELETE', token }),
 
     getAttachments: (token: string, noteId: string) =>
         fetchApi<Attachment[]>(`/storage/note/${noteId}`, { token }),
+
+    getImageTextMatches: (token: string, noteId: string, query: string) =>
+        fetchApi<ImageTextMatch[]>(`/storage/note/${noteId}/text-matches?q=${encodeURIComponent(query)}`, { token }),
 };
 
 // Link Metadata Types
@@ -0,0 +1,27 @@
+import { format, parseISO } from 'date-fns';
+import { notesApi } from '@/lib/api';
+import { useNotesStore } from '@/store/notes-store';
+
+// Daily notes are keyed by the local calendar day
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const fromDateKey = (key: string) => parseISO(key);
+
+/**
+ * Opens the daily note for a day, creating it on the server if needed, and
+ * shows its notebook in the note list.
+ */
+export async function openDailyNote(token: string, date: string) {
+    const note = await notesApi.getDaily(token, date);
+    const { notes, selectedNotebookId, selectNotebook, addNote, selectNote } = useNotesStore.getState();
+
+    // Selecting the notebook reloads notes and notebooks, including a new journal notebook
+    if (note.notebookId && note.notebookId !== selectedNotebookId) {
+        selectNotebook(note.notebookId);
+    } else if (!notes.some((n) => n.id === note.id)) {
+        addNote(note);
+    }
+
+    selectNote(note.id);
+    return note;
+}
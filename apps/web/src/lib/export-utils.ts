@@ -10,6 +10,26 @@ export interface ExportableNote {
     tags?: { name: string; color?: string }[];
 }
 
+export interface ExportableVersion {
+    id: string;
+    title: string;
+    content: any; // TipTap JSON
+    createdAt: string;
+    label?: string | null;
+    description?: string | null;
+}
+
+// A note version exports like a note, named after its checkpoint label
+export function versionToExportable(version: ExportableVersion): ExportableNote {
+    return {
+        id: version.id,
+        title: version.label ? `${version.title} - ${version.label}` : version.title,
+        content: version.content,
+        createdAt: version.createdAt,
+        updatedAt: version.createdAt,
+    };
+}
+
 // Convert TipTap JSON to Markdown
 export function tiptapToMarkdown(content: any): string {
     if (!content || !content.content) return '';
@@ -84,6 +104,9 @@ export function tiptapToMarkdown(content: any): string {
             case 'hardBreak':
                 return '\n';
 
+            case 'noteLink':
+                return `[[${node.attrs?.title || ''}]]`;
+
             default:
                 return node.content?.map(processNode).join('') || '';
         }
@@ -171,6 +194,9 @@ export function tiptapToHtml(content: any): string {
             case 'hardBreak':
                 return '<br/>';
 
+            case 'noteLink':
+                return `<span data-note-link="${node.attrs?.noteId || ''}">${(node.attrs?.title || '').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</span>`;
+
             default:
                 return node.content?.map(processNode).join('') || '';
         }
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { ImageTextMatch } from '@/lib/api';
 
 export interface Note {
     id: string;
@@ -7,6 +8,16 @@ export interface Note {
     plainText?: string;
     isPinned: boolean;
     isTrashed: boolean;
+    trashedAt?: string | null;
+    // Notebook and tags when trashed; restoring puts the note back there
+    trashOrigin?: {
+        notebook: { id: string; name: string; color: string | null } | null;
+        tags: { id: string; name: string; color: string | null }[];
+    } | null;
+    revision?: number;
+    dailyDate?: string | null; // YYYY-MM-DD when this is a daily note
+    reminderAt?: string | null;
+    reminderDone?: boolean;
     createdAt: string;
     updatedAt: string;
     notebookId: string | null;
@@ -21,7 +32,11 @@ export interface Notebook {
     name: string;
     color: string;
     isDefault: boolean;
+    parentId?: string | null;
+    stack?: string | null; // top-level notebooks only
+    position?: number;
     _count?: { notes: number };
+    totalNotes?: number; // including sub-notebooks
 }
 
 export interface Tag {
@@ -31,14 +46,37 @@ export interface Tag {
     _count?: { notes: number };
 }
 
+export interface SavedSearch {
+    id: string;
+    name: string;
+    query: string;
+    notebookId: string | null;
+    tagIds: string[] | null;
+    showCount: boolean;
+    count?: number | null; // live match count, when showCount is on
+}
+
+export interface Reminder {
+    id: string; // note id
+    title: string;
+    notebookId: string | null;
+    reminderAt: string;
+    reminderDone: boolean;
+    reminderFiredAt: string | null;
+}
+
 interface NotesState {
     notes: Note[];
     notebooks: Notebook[];
     tags: Tag[];
+    savedSearches: SavedSearch[];
+    reminders: Reminder[]; // upcoming (not done) reminders
     selectedNoteId: string | null;
     selectedNotebookId: string | null;
     selectedTagId: string | null;
+    selectedSavedSearchId: string | null;
     showTrash: boolean;
+    showGraph: boolean;
     isLoading: boolean;
     searchQuery: string;
 
@@ -58,27 +96,46 @@ interface NotesState {
     updateTag: (id: string, updates: Partial<Tag>) => void;
     removeTag: (id: string) => void;
 
+    setSavedSearches: (savedSearches: SavedSearch[]) => void;
+    addSavedSearch: (savedSearch: SavedSearch) => void;
+    updateSavedSearch: (id: string, updates: Partial<SavedSearch>) => void;
+    removeSavedSearch: (id: string) => void;
+
+    setReminders: (reminders: Reminder[]) => void;
+    upsertReminder: (reminder: Reminder) => void;
+    removeReminder: (noteId: string) => void;
+
     selectNote: (id: string | null, highlightQuery?: string) => void;
     selectNotebook: (id: string | null) => void;
     selectTag: (id: string | null) => void;
+    selectSavedSearch: (id: string | null) => void;
     setShowTrash: (show: boolean) => void;
+    setShowGraph: (show: boolean) => void;
     setIsLoading: (loading: boolean) => void;
     setSearchQuery: (query: string) => void;
     searchHighlight: string | null;
     clearSearchHighlight: () => void;
+    // OCR matches of the search highlight in the open note's images
+    imageTextMatches: ImageTextMatch[];
+    setImageTextMatches: (matches: ImageTextMatch[]) => void;
 }
 
 export const useNotesStore = create<NotesState>((set) => ({
     notes: [],
     notebooks: [],
     tags: [],
+    savedSearches: [],
+    reminders: [],
     selectedNoteId: null,
     selectedNotebookId: null,
     selectedTagId: null,
+    selectedSavedSearchId: null,
     showTrash: false,
+    showGraph: false,
     isLoading: false,
     searchQuery: '',
     searchHighlight: null,
+    imageTextMatches: [],
 
     setNotes: (notes) => set({ notes }),
     addNote: (note) => set((state) => ({ notes: [note, ...state.notes] })),
@@ -120,18 +177,59 @@ export const useNotesStore = create<NotesState>((set) => ({
             selectedTagId: state.selectedTagId === id ? null : state.selectedTagId,
         })),
 
-    selectNote: (id, highlightQuery) => set({ selectedNoteId: id, searchHighlight: highlightQuery || null }),
+    setSavedSearches: (savedSearches) => set({ savedSearches }),
+    addSavedSearch: (savedSearch) =>
+        set((state) => ({
+            savedSearches: [...state.savedSearches, savedSearch].sort((a, b) => a.name.localeCompare(b.name)),
+        })),
+    updateSavedSearch: (id, updates) =>
+        set((state) => ({
+            savedSearches: state.savedSearches.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+        })),
+    removeSavedSearch: (id) =>
+        set((state) => ({
+            savedSearches: state.savedSearches.filter((s) => s.id !== id),
+            selectedSavedSearchId: state.selectedSavedSearchId === id ? null : state.selectedSavedSearchId,
+        })),
+
+    setReminders: (reminders) => set({ reminders }),
+    // Done reminders leave the list; the rest stay sorted by time
+    upsertReminder: (reminder) =>
+        set((state) => ({
+            reminders: reminder.reminderDone
+                ? state.reminders.filter((r) => r.id !== reminder.id)
+                : [...state.reminders.filter((r) => r.id !== reminder.id), reminder].sort(
+                    (a, b) => new Date(a.reminderAt).getTime() - new Date(b.reminderAt).getTime()
+                ),
+        })),
+    removeReminder: (noteId) =>
+        set((state) => ({ reminders: state.reminders.filter((r) => r.id !== noteId) })),
+
+    // Opening a note leaves the graph view
+    selectNote: (id, highlightQuery) =>
+        set((state) => ({
+            selectedNoteId: id,
+            searchHighlight: highlightQuery || null,
+            imageTextMatches: [],
+            showGraph: id ? false : state.showGraph,
+        })),
     selectNotebook: (id) =>
-        set({ selectedNotebookId: id, selectedTagId: null, showTrash: false }),
+        set({ selectedNotebookId: id, selectedTagId: null, selectedSavedSearchId: null, showTrash: false, showGraph: false }),
     selectTag: (id) =>
-        set({ selectedTagId: id, selectedNotebookId: null, showTrash: false }),
+        set({ selectedTagId: id, selectedNotebookId: null, selectedSavedSearchId: null, showTrash: false, showGraph: false }),
+    selectSavedSearch: (id) =>
+        set({ selectedSavedSearchId: id, selectedNotebookId: null, selectedTagId: null, showTrash: false, showGraph: false }),
     setShowTrash: (show) =>
         set({
             showTrash: show,
+            showGraph: false,
             selectedNotebookId: null,
             selectedTagId: null,
+            selectedSavedSearchId: null,
         }),
+    setShowGraph: (show) => set({ showGraph: show }),
     setIsLoading: (loading) => set({ isLoading: loading }),
     setSearchQuery: (query) => set({ searchQuery: query }),
-    clearSearchHighlight: () => set({ searchHighlight: null }),
+    clearSearchHighlight: () => set({ searchHighlight: null, imageTextMatches: [] }),
+    setImageTextMatches: (matches) => set({ imageTextMatches: matches }),
 }));
@@ -165,6 +165,114 @@ async function main() {
 
     console.log('✅ Created notes:', notes.map(n => n.title).join(', '));
 
+    // Shared note templates (the editor's former built-in structures)
+    const text = (value: string, bold = false) => ({
+        type: 'text',
+        text: value,
+        ...(bold && { marks: [{ type: 'bold' }] }),
+    });
+    const heading = (level: number, value: string) => ({ type: 'heading', attrs: { level }, content: [text(value)] });
+    const paragraph = (...content: object[]) => ({ type: 'paragraph', content });
+    const list = (type: 'bulletList' | 'orderedList', items: string[]) => ({
+        type,
+        content: items.map((item) => ({ type: 'listItem', content: [paragraph(text(item))] })),
+    });
+    const table = (header: string[], rows: string[][]) => ({
+        type: 'table',
+        content: [
+            { type: 'tableRow', content: header.map((cell) => ({ type: 'tableHeader', content: [paragraph(text(cell))] })) },
+            ...rows.map((row) => ({
+                type: 'tableRow',
+                content: row.map((cell) => ({ type: 'tableCell', content: [paragraph(text(cell))] })),
+            })),
+        ],
+    });
+
+    const templates = [
+        {
+            name: 'Prós e Contras',
+            description: 'Lista de pontos positivos e negativos de uma decisão',
+            content: [
+                heading(2, '⚖️ {{title}}'),
+                heading(3, '✅ Prós'),
+                list('bulletList', ['Ponto positivo 1', 'Ponto positivo 2', 'Ponto positivo 3']),
+                heading(3, '❌ Contras'),
+                list('bulletList', ['Ponto negativo 1', 'Ponto negativo 2', 'Ponto negativo 3']),
+            ],
+        },
+        {
+            name: 'Resumo Executivo',
+            description: 'Objetivo, principais pontos e conclusão',
+            title: '{{title}} - {{date}}',
+            content: [
+                heading(2, '📋 Resumo Executivo'),
+                paragraph(text('Autor: ', true), text('{{user.name}} - {{date}}')),
+                paragraph(text('Objetivo: ', true), text('[Descreva o objetivo]')),
+                paragraph(text('Principais pontos:', true)),
+                list('orderedList', ['Ponto 1', 'Ponto 2', 'Ponto 3']),
+                paragraph(text('Conclusão: ', true), text('[Sua conclusão]')),
+            ],
+        },
+        {
+            name: 'Plano de Ação',
+            description: 'Tabela de ações com responsável, prazo e status',
+            content: [
+                heading(2, '🎯 Plano de Ação'),
+                table(['Ação', 'Responsável', 'Prazo', 'Status'], [
+                    ['Tarefa 1', '{{user.name}}', 'DD/MM', '⏳'],
+                    ['Tarefa 2', 'Nome', 'DD/MM', '⏳'],
+                    ['Tarefa 3', 'Nome', 'DD/MM', '⏳'],
+                ]),
+            ],
+        },
+        {
+            name: 'FAQ',
+            description: 'Perguntas frequentes e respostas',
+            content: [
+                heading(2, '❓ FAQ - Perguntas Frequentes'),
+                heading(3, 'Pergunta 1?'),
+                paragraph(text('Resposta detalhada aqui...')),
+                heading(3, 'Pergunta 2?'),
+                paragraph(text('Resposta detalhada aqui...')),
+                heading(3, 'Pergunta 3?'),
+                paragraph(text('Resposta detalhada aqui...')),
+            ],
+        },
+        {
+            name: 'Comparativo',
+            description: 'Duas opções lado a lado por critério',
+            content: [
+                heading(2, '🔄 Comparativo'),
+                table(['Critério', 'Opção A', 'Opção B'], [
+                    ['Preço', 'R$ X', 'R$ Y'],
+                    ['Qualidade', '⭐⭐⭐', '⭐⭐⭐⭐'],
+                    ['Suporte', 'Bom', 'Excelente'],
+                ]),
+                paragraph(text('Recomendação: ', true), text('[Sua escolha]')),
+            ],
+        },
+    ];
+
+    for (const template of templates) {
+        const existing = await prisma.noteTemplate.findFirst({
+            where: { authorId: user.id, name: template.name },
+        });
+        if (existing) continue;
+
+        await prisma.noteTemplate.create({
+            data: {
+                name: template.name,
+                description: template.description,
+                title: template.title ?? '{{title}}',
+                content: { type: 'doc', content: template.content },
+                isShared: true,
+                authorId: user.id,
+            },
+        });
+    }
+
+    console.log('✅ Created templates:', templates.map(t => t.name).join(', '));
+
     console.log('🎉 Seeding complete!');
 }
 
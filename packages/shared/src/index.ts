@@ -27,6 +27,8 @@ export const createNoteSchema = z.object({
     content: z.any().optional(),
     notebookId: z.string().optional(),
     tagIds: z.array(z.string()).optional(),
+    templateId: z.string().optional(),
+    localDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
 export const updateNoteSchema = z.object({
@@ -38,8 +40,53 @@ export const updateNoteSchema = z.object({
     isTrashed: z.boolean().optional(),
 });
 
+export const dailyNoteSettingsSchema = z.object({
+    journalNotebookId: z.string().nullable().optional(),
+    journalTemplateId: z.string().nullable().optional(),
+});
+
+export const trashSettingsSchema = z.object({
+    trashRetentionDays: z.number().int().min(0).max(3650),
+});
+
+export const restoreNoteSchema = z.object({
+    notebookId: z.string().optional(),
+});
+
+export const bulkRestoreNotesSchema = restoreNoteSchema.extend({
+    noteIds: z.array(z.string()).min(1),
+});
+
+export const updateReminderSchema = z.object({
+    reminderAt: z.string().datetime().optional(),
+    done: z.boolean().optional(),
+});
+
 export type CreateNoteInput = z.infer<typeof createNoteSchema>;
 export type UpdateNoteInput = z.infer<typeof updateNoteSchema>;
+export type DailyNoteSettingsInput = z.infer<typeof dailyNoteSettingsSchema>;
+export type TrashSettingsInput = z.infer<typeof trashSettingsSchema>;
+export type RestoreNoteInput = z.infer<typeof restoreNoteSchema>;
+export type BulkRestoreNotesInput = z.infer<typeof bulkRestoreNotesSchema>;
+export type UpdateReminderInput = z.infer<typeof updateReminderSchema>;
+
+// ============================================
+// Note Template Schemas
+// ============================================
+
+export const createNoteTemplateSchema = z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    // May use {{date}}, {{title}} and {{user.name}}, like the content
+    title: z.string().max(255).optional(),
+    content: z.record(z.any()),
+    isShared: z.boolean().optional(),
+});
+
+export const updateNoteTemplateSchema = createNoteTemplateSchema.partial();
+
+export type CreateNoteTemplateInput = z.infer<typeof createNoteTemplateSchema>;
+export type UpdateNoteTemplateInput = z.infer<typeof updateNoteTemplateSchema>;
 
 // ============================================
 // Notebook Schemas
@@ -48,6 +95,8 @@ export type UpdateNoteInput = z.infer<typeof updateNoteSchema>;
 export const createNotebookSchema = z.object({
     name: z.string().min(1).max(100),
     color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+    parentId: z.string().optional(),
+    stack: z.string().min(1).max(100).optional(),
 });
 
 export const updateNotebookSchema = z.object({
@@ -55,8 +104,15 @@ export const updateNotebookSchema = z.object({
     color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
 });
 
+export const moveNotebookSchema = z.object({
+    parentId: z.string().nullable().optional(),
+    stack: z.string().max(100).nullable().optional(),
+    position: z.number().int().min(0).optional(),
+});
+
 export type CreateNotebookInput = z.infer<typeof createNotebookSchema>;
 export type UpdateNotebookInput = z.infer<typeof updateNotebookSchema>;
+export type MoveNotebookInput = z.infer<typeof moveNotebookSchema>;
 
 // ============================================
 // Tag Schemas
@@ -109,6 +165,19 @@ export const searchSchema = z.object({
 
 export type SearchInput = z.infer<typeof searchSchema>;
 
+export const createSavedSearchSchema = z.object({
+    name: z.string().min(1).max(100),
+    query: z.string().min(1).max(2000),
+    notebookId: z.string().nullable().optional(),
+    tagIds: z.array(z.string()).optional(),
+    showCount: z.boolean().optional(),
+});
+
+export const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>;
+
 // ============================================
 // API Response Types
 // ============================================
@@ -0,0 +1,91 @@
+/**
+ * Connection Authorization
+ *
+ * Clients authenticate with the same JWT the API issues, passed as the
+ * `token` query parameter (y-websocket `params`). The document name is the
+ * id of the note being edited, and access follows the note's share model:
+ * the author and WRITE/ADMIN collaborators can edit, READ collaborators
+ * only receive updates.
+ */
+
+import { verify } from 'jsonwebtoken';
+import { prisma } from '@evernote-clone/database';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'secret';
+
+// WebSocket close codes (4000-4999 are reserved for applications)
+export const CLOSE_UNAUTHORIZED = 4401;
+export const CLOSE_FORBIDDEN = 4403;
+export const CLOSE_NOT_FOUND = 4404;
+
+export class AccessError extends Error {
+    constructor(
+        readonly code: number,
+        message: string,
+    ) {
+        super(message);
+    }
+}
+
+export interface DocumentAccess {
+    userId: string;
+    noteId: string;
+    readOnly: boolean;
+}
+
+interface JwtPayload {
+    sub: string;
+    email: string;
+}
+
+// Documents are named after the note they hold, optionally prefixed with "note-"
+export function noteIdFromDocName(docName: string): string {
+    return docName.replace(/^note-/, '');
+}
+
+export async function authorize(docName: string, token: string | null): Promise<DocumentAccess> {
+    if (!token) {
+        throw new AccessError(CLOSE_UNAUTHORIZED, 'Missing token');
+    }
+
+    let payload: JwtPayload;
+    try {
+        payload = verify(token, JWT_SECRET) as JwtPayload;
+    } catch {
+        throw new AccessError(CLOSE_UNAUTHORIZED, 'Invalid token');
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { id: payload.sub },
+        select: { id: true },
+    });
+
+    if (!user) {
+        throw new AccessError(CLOSE_UNAUTHORIZED, 'User not found');
+    }
+
+    const noteId = noteIdFromDocName(docName);
+    const note = await prisma.note.findUnique({
+        where: { id: noteId },
+        select: {
+            authorId: true,
+            shares: { where: { userId: user.id }, select: { permission: true } },
+        },
+    });
+
+    if (!note) {
+        throw new AccessError(CLOSE_NOT_FOUND, 'Note not found');
+    }
+
+    // Author has full access
+    if (note.authorId === user.id) {
+        return { userId: user.id, noteId, readOnly: false };
+    }
+
+    const share = note.shares[0];
+    if (!share) {
+        throw new AccessError(CLOSE_FORBIDDEN, 'You do not have access to this note');
+    }
+
+    return { userId: user.id, noteId, readOnly: share.permission === 'READ' };
+}
@@ -4,6 +4,8 @@
  * This server handles document synchronization using Yjs CRDT.
  * Multiple clients can edit the same document simultaneously,
  * and changes are merged automatically without conflicts.
+ * Connections are authenticated with the API's JWT and limited
+ * to the note's author and collaborators (see ./auth).
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
@@ -12,8 +14,12 @@ import * as encoding from 'lib0/encoding';
 import * as decoding from 'lib0/decoding';
 import * as syncProtocol from 'y-protocols/sync';
 import * as awarenessProtocol from 'y-protocols/awareness';
+import { DocumentPersistence } from './persistence';
+import { AccessError, authorize } from './auth';
 
 const PORT = parseInt(process.env.WS_PORT || '1234', 10);
+const LOAD_ATTEMPTS = 3;
+const LOAD_RETRY_DELAY_MS = 1000;
 
 // Message types
 const messageSync = 0;
@@ -24,18 +30,39 @@ const docs = new Map<string, {
     doc: Y.Doc;
     awareness: awarenessProtocol.Awareness;
     connections: Set<WebSocket>;
+    persistence: DocumentPersistence;
+    ready: Promise<boolean>; // Resolves once persisted state has been loaded; false if it could not be
 }>();
 
+// Documents being written back after cleanup, so a reconnect loads the final state
+const closing = new Map<string, Promise<void>>();
+
 // Get or create a document
 function getDoc(docName: string) {
     if (!docs.has(docName)) {
         const doc = new Y.Doc();
         const awareness = new awarenessProtocol.Awareness(doc);
+        const persistence = new DocumentPersistence(docName, doc);
+
+        const ready = (closing.get(docName) ?? Promise.resolve())
+            .then(() => loadDoc(docName, persistence));
+
+        // Never serve an empty document that isn't persisted: its connections
+        // close, and the next one loads the document afresh
+        ready.then((loaded) => {
+            if (loaded) return;
+            if (docs.get(docName)?.persistence === persistence) {
+                docs.delete(docName);
+            }
+            doc.destroy();
+        });
 
         docs.set(docName, {
             doc,
             awareness,
             connections: new Set(),
+            persistence,
+            ready,
         });
 
         // Clean up empty docs after some time
@@ -47,6 +74,7 @@ function getDoc(docName: string) {
                     const currentDocData = docs.get(docName);
                     if (currentDocData && currentDocData.connections.size === 0) {
                         docs.delete(docName);
+                        closeDoc(docName, currentDocData.persistence);
                         console.log(`🗑️ Cleaned up document: ${docName}`);
                     }
                 }, 5 * 60 * 1000);
@@ -57,6 +85,35 @@ function getDoc(docName: string) {
     return docs.get(docName)!;
 }
 
+// Apply the persisted state, retrying transient database errors
+async function loadDoc(docName: string, persistence: DocumentPersistence): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await persistence.load();
+            return true;
+        } catch (error) {
+            if (attempt >= LOAD_ATTEMPTS) {
+                console.error(`Failed to load document ${docName}:`, error);
+                return false;
+            }
+
+            console.warn(`Failed to load document ${docName} (attempt ${attempt}), retrying:`, error);
+            await new Promise((resolve) => setTimeout(resolve, LOAD_RETRY_DELAY_MS * attempt));
+        }
+    }
+}
+
+// Persist the final state of a document that is being unloaded
+function closeDoc(docName: string, persistence: DocumentPersistence) {
+    const done = persistence.destroy().finally(() => {
+        if (closing.get(docName) === done) {
+            closing.delete(docName);
+        }
+    });
+    closing.set(docName, done);
+    return done;
+}
+
 // Broadcast to all connections except sender
 function broadcast(docName: string, message: Uint8Array, exclude?: WebSocket) {
     const docData = docs.get(docName);
@@ -69,6 +126,13 @@ function broadcast(docName: string, message: Uint8Array, exclude?: WebSocket) {
     });
 }
 
+// Read the sync sub-type of a sync message without consuming the caller's decoder
+function peekSyncMessageType(message: Uint8Array): number {
+    const decoder = decoding.createDecoder(message);
+    decoding.readVarUint(decoder); // message type
+    return decoding.readVarUint(decoder);
+}
+
 // Create WebSocket server
 const wss = new WebSocketServer({ port: PORT });
 
@@ -77,33 +141,63 @@ console.log(`🚀 Yjs WebSocket server running on ws://localhost:${PORT}`);
 wss.on('connection', (conn, req) => {
     // Extract document name from URL path
     const url = new URL(req.url || '/', `http://${req.headers.host}`);
-    const docName = url.pathname.slice(1) || 'default';
+    const docName = url.pathname.slice(1);
 
-    console.log(`📝 Client connected to document: ${docName}`);
+    // Authorize before joining the document; everything below waits on this
+    const session = authorize(docName, url.searchParams.get('token'))
+        .then((access) => {
+            if (conn.readyState !== WebSocket.OPEN) return null;
 
-    const docData = getDoc(docName);
-    docData.connections.add(conn);
+            const docData = getDoc(docName);
+            docData.connections.add(conn);
+            console.log(`📝 Client connected to document: ${docName}${access.readOnly ? ' (read-only)' : ''}`);
 
-    // Send initial sync
-    const encoder = encoding.createEncoder();
-    encoding.writeVarUint(encoder, messageSync);
-    syncProtocol.writeSyncStep1(encoder, docData.doc);
-    conn.send(encoding.toUint8Array(encoder));
+            return { access, docData };
+        })
+        .catch((error) => {
+            console.warn(`🚫 Rejected connection to document ${docName}: ${error.message}`);
+            conn.close(error instanceof AccessError ? error.code : 1011, error.message);
+            return null;
+        });
 
-    // Send awareness state
-    const awarenessEncoder = encoding.createEncoder();
-    encoding.writeVarUint(awarenessEncoder, messageAwareness);
-    encoding.writeVarUint8Array(
-        awarenessEncoder,
-        awarenessProtocol.encodeAwarenessUpdate(
-            docData.awareness,
-            Array.from(docData.awareness.getStates().keys())
-        )
-    );
-    conn.send(encoding.toUint8Array(awarenessEncoder));
+    // Wait for the persisted state before syncing
+    session.then(async (joined) => {
+        if (!joined) return;
+        const { docData } = joined;
+
+        if (!(await docData.ready)) {
+            conn.close(1011, 'Document could not be loaded');
+            return;
+        }
+        if (conn.readyState !== WebSocket.OPEN) return;
+
+        // Send initial sync
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, messageSync);
+        syncProtocol.writeSyncStep1(encoder, docData.doc);
+        conn.send(encoding.toUint8Array(encoder));
+
+        // Send awareness state
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, messageAwareness);
+        encoding.writeVarUint8Array(
+            awarenessEncoder,
+            awarenessProtocol.encodeAwarenessUpdate(
+                docData.awareness,
+                Array.from(docData.awareness.getStates().keys())
+            )
+        );
+        conn.send(encoding.toUint8Array(awarenessEncoder));
+    });
+
+    // Handle messages (held until the document has loaded)
+    conn.on('message', async (data: Buffer) => {
+        const joined = await session;
+        if (!joined) return;
+        const { access, docData } = joined;
+
+        if (!(await docData.ready)) return;
 
-    // Handle messages
-    conn.on('message', (data: Buffer) => {
         try {
             const message = new Uint8Array(data);
             const decoder = decoding.createDecoder(message);
@@ -111,6 +205,12 @@ wss.on('connection', (conn, req) => {
 
             switch (messageType) {
                 case messageSync: {
+                    // Read-only collaborators may request state but not send changes
+                    if (access.readOnly && peekSyncMessageType(message) !== syncProtocol.messageYjsSyncStep1) {
+                        console.warn(`✋ Rejected update from read-only client on document: ${docName}`);
+                        break;
+                    }
+
                     const encoder = encoding.createEncoder();
                     encoding.writeVarUint(encoder, messageSync);
                     const syncMessageType = syncProtocol.readSyncMessage(
@@ -161,7 +261,11 @@ wss.on('connection', (conn, req) => {
     });
 
     // Handle disconnect
-    conn.on('close', () => {
+    conn.on('close', async () => {
+        const joined = await session;
+        if (!joined) return;
+        const { docData } = joined;
+
         docData.connections.delete(conn);
         console.log(`👋 Client disconnected from document: ${docName} (${docData.connections.size} remaining)`);
 
@@ -174,9 +278,10 @@ wss.on('connection', (conn, req) => {
     });
 
     // Handle errors
-    conn.on('error', (error) => {
+    conn.on('error', async (error) => {
         console.error('WebSocket error:', error);
-        docData.connections.delete(conn);
+        const joined = await session;
+        joined?.docData.connections.delete(conn);
     });
 });
 
@@ -186,10 +291,18 @@ wss.on('error', (error) => {
 });
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+function shutdown() {
     console.log('\n🛑 Shutting down Yjs server...');
-    wss.close(() => {
+    wss.close(async () => {
+        // Write every loaded document back before exiting
+        await Promise.all([
+            ...Array.from(docs.entries()).map(([docName, docData]) => closeDoc(docName, docData.persistence)),
+            ...closing.values(),
+        ]);
         console.log('✅ Server closed');
         process.exit(0);
     });
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
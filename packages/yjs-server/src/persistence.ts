@@ -0,0 +1,164 @@
+/**
+ * Yjs Document Persistence
+ *
+ * Stores collaborative document state in MySQL so edits survive restarts.
+ * Incoming updates are batched and appended to `yjs_updates`; once enough
+ * of them pile up (or periodically) they are compacted into a single
+ * snapshot on `yjs_documents` and the appended rows are removed.
+ */
+
+import * as Y from 'yjs';
+import { prisma } from '@evernote-clone/database';
+
+const FLUSH_DELAY_MS = parseInt(process.env.YJS_FLUSH_DELAY_MS || '500', 10);
+const COMPACT_INTERVAL_MS = parseInt(process.env.YJS_COMPACT_INTERVAL_MS || '60000', 10);
+const COMPACT_THRESHOLD = parseInt(process.env.YJS_COMPACT_THRESHOLD || '100', 10);
+
+// Transaction origin for state loaded from the database (never written back)
+export const persistenceOrigin = Symbol('yjs-persistence');
+
+export class DocumentPersistence {
+    private pending: Uint8Array[] = [];
+    private storedUpdates = 0;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private compactTimer: NodeJS.Timeout | null = null;
+    // Serializes database writes so updates are stored in the order they arrived
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly docName: string,
+        private readonly doc: Y.Doc,
+    ) { }
+
+    // Apply the stored snapshot and any updates appended after it
+    async load(): Promise<void> {
+        const record = await prisma.yjsDocument.findUnique({
+            where: { name: this.docName },
+            include: { updates: { orderBy: { id: 'asc' } } },
+        });
+
+        if (record) {
+            Y.transact(this.doc, () => {
+                if (record.snapshot) {
+                    Y.applyUpdate(this.doc, record.snapshot, persistenceOrigin);
+                }
+                record.updates.forEach((row) => {
+                    Y.applyUpdate(this.doc, row.update, persistenceOrigin);
+                });
+            }, persistenceOrigin);
+
+            this.storedUpdates = record.updates.length;
+            console.log(`💾 Loaded document: ${this.docName} (${record.updates.length} pending updates)`);
+        }
+
+        this.doc.on('update', this.handleUpdate);
+
+        this.compactTimer = setInterval(() => {
+            if (this.storedUpdates > 0) {
+                this.compact();
+            }
+        }, COMPACT_INTERVAL_MS);
+        this.compactTimer.unref();
+    }
+
+    // Write any buffered updates
+    flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        if (this.pending.length > 0) {
+            const update = Y.mergeUpdates(this.pending);
+            this.pending = [];
+            this.enqueue(() => this.storeUpdate(update));
+        }
+
+        return this.queue;
+    }
+
+    // Replace the stored updates with a single snapshot of the current state
+    compact(): Promise<void> {
+        this.flush();
+        this.enqueue(() => this.storeSnapshot());
+        return this.queue;
+    }
+
+    // Stop listening, then persist a final compacted snapshot
+    async destroy(): Promise<void> {
+        this.doc.off('update', this.handleUpdate);
+
+        if (this.compactTimer) {
+            clearInterval(this.compactTimer);
+            this.compactTimer = null;
+        }
+
+        await this.compact();
+    }
+
+    private handleUpdate = (update: Uint8Array, origin: unknown) => {
+        if (origin === persistenceOrigin) return;
+
+        this.pending.push(update);
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+        }
+    };
+
+    private enqueue(task: () => Promise<void>) {
+        this.queue = this.queue.then(task).catch((error) => {
+            console.error(`Failed to persist document ${this.docName}:`, error);
+        });
+    }
+
+    private async storeUpdate(update: Uint8Array) {
+        // updatedAt is bumped last and commits with the row: a sync that sees
+        // the new timestamp also sees the update
+        await prisma.$transaction([
+            prisma.yjsDocument.upsert({
+                where: { name: this.docName },
+                create: { name: this.docName },
+                update: {},
+            }),
+            prisma.yjsUpdate.create({
+                data: { docName: this.docName, update: Buffer.from(update) },
+            }),
+            prisma.yjsDocument.update({
+                where: { name: this.docName },
+                data: { updatedAt: new Date() },
+            }),
+        ]);
+
+        this.storedUpdates++;
+        if (this.storedUpdates >= COMPACT_THRESHOLD) {
+            await this.storeSnapshot();
+        }
+    }
+
+    private async storeSnapshot() {
+        if (this.storedUpdates === 0) return;
+
+        // Every stored update is already applied to the in-memory doc,
+        // so the snapshot supersedes all rows up to the latest one
+        const snapshot = Buffer.from(Y.encodeStateAsUpdate(this.doc));
+        const latest = await prisma.yjsUpdate.findFirst({
+            where: { docName: this.docName },
+            orderBy: { id: 'desc' },
+            select: { id: true },
+        });
+
+        await prisma.$transaction([
+            prisma.yjsDocument.upsert({
+                where: { name: this.docName },
+                create: { name: this.docName, snapshot },
+                update: { snapshot },
+            }),
+            prisma.yjsUpdate.deleteMany({
+                where: { docName: this.docName, id: { lte: latest?.id ?? 0 } },
+            }),
+        ]);
+
+        this.storedUpdates = 0;
+    }
+}